@@ -0,0 +1,26 @@
+import { NextRequest } from 'next/server'
+import { describe, expect, it } from 'vitest'
+import { POST } from '@/app/api/backtest/route'
+
+async function post(body: string) {
+  const response = await POST(new NextRequest('http://localhost/api/backtest', { method: 'POST', body }))
+  return { status: response.status, json: await response.json() }
+}
+
+describe('POST /api/backtest', () => {
+  it.each(['null', '[]', '5'])('rejects a %s body', async body => {
+    expect(await post(body)).toEqual({
+      status: 400,
+      json: { success: false, error: 'Invalid backtest parameters', details: [{ param: 'body', message: 'must be a JSON object' }] }
+    })
+  })
+
+  it('rejects params and dates of the wrong type', async () => {
+    const { status, json } = await post(JSON.stringify({ symbol: 'TSLA', params: 5, from: { day: 1 } }))
+    expect(status).toBe(400)
+    expect(json.details).toEqual([
+      { param: 'params', message: 'must be a query string or an object' },
+      { param: 'from', message: 'must be an ISO date or timestamp, got "[object Object]"' }
+    ])
+  })
+})
@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { DEFAULT_BACKTEST_CONFIG, type BacktestConfig } from '@/lib/backtest'
+import { runBacktest } from '@/lib/backtestRunner'
+import { parseScreenerParams, type ParamError } from '@/lib/screener'
+import { SnapshotCsvError, loadSnapshots, snapshotsFromCsv, type ChainSnapshot } from '@/lib/snapshots'
+import { parseSymbol } from '@/lib/symbols'
+import { isPlainObject } from '@/lib/utils'
+
+interface BacktestParamError {
+  param: ParamError['param'] | keyof BacktestConfig | 'params' | 'from' | 'to' | 'csv' | 'body'
+  message: string
+}
+
+// Replay stored snapshots (or an uploaded chain CSV) through the screener.
+// Body: { symbol, params (screener query string or object), from, to, csv, ...BacktestConfig }
+export async function POST(request: NextRequest) {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Invalid backtest parameters', details: [{ param: 'body', message: 'must be JSON' }] },
+      { status: 400 }
+    )
+  }
+  if (!isPlainObject(body)) {
+    return NextResponse.json(
+      { success: false, error: 'Invalid backtest parameters', details: [{ param: 'body', message: 'must be a JSON object' }] },
+      { status: 400 }
+    )
+  }
+
+  const details: BacktestParamError[] = []
+
+  const parsedSymbol = parseSymbol(new URLSearchParams(typeof body.symbol === 'string' ? { symbol: body.symbol } : {}))
+  if (!parsedSymbol.ok) details.push(parsedSymbol.error)
+
+  // Screener params use the same validation as /api/tsla-options; ranking weights may be an object of factor weights
+  const rawParams = body.params || {}
+  const toParam = (value: unknown): string => {
+    if (value === null || typeof value !== 'object' || Array.isArray(value)) return String(value)
+    const weights = value as Record<string, unknown>
+    return Object.keys(weights).map(factor => `${factor}:${weights[factor]}`).join(',')
+  }
+  let searchParams = new URLSearchParams()
+  if (typeof rawParams === 'string') {
+    searchParams = new URLSearchParams(rawParams)
+  } else if (isPlainObject(rawParams)) {
+    searchParams = new URLSearchParams(Object.keys(rawParams).map(key => [key, toParam(rawParams[key])]))
+  } else {
+    details.push({ param: 'params', message: 'must be a query string or an object' })
+  }
+  const parsedParams = parseScreenerParams(searchParams)
+  if (!parsedParams.ok) details.push(...parsedParams.errors)
+
+  const config: BacktestConfig = { ...DEFAULT_BACKTEST_CONFIG }
+  const readNumber = (param: keyof BacktestConfig, min: number, max: number, integer: boolean = false) => {
+    const raw = body[param]
+    if (raw === undefined || raw === null || raw === '') return
+    const value = Number(raw)
+    if (!isFinite(value)) {
+      details.push({ param, message: `must be a number, got "${raw}"` })
+    } else if (integer && !Number.isInteger(value)) {
+      details.push({ param, message: `must be a whole number, got ${value}` })
+    } else if (value < min || value > max) {
+      details.push({ param, message: `must be between ${min} and ${max}, got ${value}` })
+    } else {
+      config[param] = value
+    }
+  }
+  readNumber('takeProfitPct', 0, 100)
+  readNumber('stopLossPct', 0, 1000)
+  readNumber('maxOpenTrades', 1, 20, true)
+  readNumber('entryIntervalHours', 0, 24 * 30)
+  readNumber('contracts', 1, 100, true)
+  readNumber('startingCapital', 1, 100000000)
+
+  const readDate = (param: 'from' | 'to'): Date | undefined => {
+    const raw = body[param]
+    if (raw === undefined || raw === null || String(raw).trim() === '') return undefined
+    const date = typeof raw === 'string' || typeof raw === 'number' ? new Date(raw) : null
+    if (date === null || isNaN(date.getTime())) {
+      details.push({ param, message: `must be an ISO date or timestamp, got "${raw}"` })
+      return undefined
+    }
+    return date
+  }
+  const from = readDate('from')
+  const to = readDate('to')
+  if (from && to && from > to) {
+    details.push({ param: 'from', message: 'must not be after to' })
+  }
+
+  const csv = typeof body.csv === 'string' && body.csv.trim() !== '' ? body.csv : null
+
+  if (details.length > 0 || !parsedSymbol.ok || !parsedParams.ok) {
+    return NextResponse.json(
+      { success: false, error: 'Invalid backtest parameters', details },
+      { status: 400 }
+    )
+  }
+
+  const { symbol } = parsedSymbol
+
+  let snapshots: ChainSnapshot[]
+  try {
+    snapshots = csv
+      ? snapshotsFromCsv(csv, symbol).filter(snapshot => {
+          const time = new Date(snapshot.timestamp)
+          return (!from || time >= from) && (!to || time <= to)
+        })
+      : await loadSnapshots(symbol, from, to)
+  } catch (error) {
+    if (error instanceof SnapshotCsvError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid backtest parameters', details: [{ param: 'csv', message: error.message }] },
+        { status: 400 }
+      )
+    }
+    console.error(`Error loading ${symbol} snapshots for backtest:`, error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to load snapshots' },
+      { status: 500 }
+    )
+  }
+
+  if (snapshots.length < 2) {
+    return NextResponse.json(
+      { success: false, error: `Need at least two ${symbol} snapshots to backtest, found ${snapshots.length}` },
+      { status: 404 }
+    )
+  }
+
+  try {
+    const data = runBacktest(symbol, snapshots, parsedParams.params, config)
+    return NextResponse.json({ success: true, data })
+  } catch (error) {
+    console.error(`Error running ${symbol} backtest:`, error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to run backtest' },
+      { status: 500 }
+    )
+  }
+}
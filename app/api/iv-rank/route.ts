@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { apiCache } from '@/lib/cache'
+import { computeIVStats, readIVHistory, updateIVHistory } from '@/lib/ivHistory'
+import { MarketDataError, getQuote } from '@/lib/marketData'
+import { toProviderError, withFreshness, type ProvenanceFields, type ProviderError } from '@/lib/provenance'
+import { parseSymbol } from '@/lib/symbols'
+
+// IV history is sampled once a day at most, so a reading older than a long weekend is stale
+const MAX_IV_AGE_SECONDS = 4 * 24 * 60 * 60
+
+export async function GET(request: NextRequest) {
+  const parsedSymbol = parseSymbol(request.nextUrl.searchParams)
+  if (!parsedSymbol.ok) {
+    return NextResponse.json(
+      { success: false, error: 'Invalid symbol', details: [parsedSymbol.error] },
+      { status: 400 }
+    )
+  }
+
+  const { symbol } = parsedSymbol
+  const cacheKey = `iv-rank-data:${symbol}`
+
+  // Try to get cached data first
+  const cachedData = apiCache.get(cacheKey)
+  if (cachedData) {
+    return NextResponse.json({
+      success: true,
+      data: cachedData.data,
+      provenance: withFreshness(cachedData.provenance, MAX_IV_AGE_SECONDS),
+      cached: true
+    })
+  }
+
+  const errors: ProviderError[] = []
+
+  try {
+    // Record today's ATM IV when a quote is available; otherwise report the stored history as is
+    let stats
+    try {
+      const quote = await getQuote(symbol)
+      errors.push(...quote.errors)
+      const update = await updateIVHistory(symbol, quote.data.price)
+      errors.push(...update.errors)
+      stats = update.stats
+    } catch (error) {
+      console.error(`Error fetching ${symbol} quote for IV history:`, error)
+      errors.push(...(error instanceof MarketDataError ? error.errors : [toProviderError('unknown', error)]))
+      stats = computeIVStats(symbol, await readIVHistory(symbol))
+    }
+
+    const provenance: ProvenanceFields = {
+      source: 'iv-history',
+      asOf: stats.asOf || new Date().toISOString(),
+      isFallback: false,
+      errors
+    }
+
+    // Cache for 5 minutes; the stored sample only changes once per fetch
+    apiCache.set(cacheKey, { data: stats, provenance }, 5 * 60)
+
+    return NextResponse.json({
+      success: true,
+      data: stats,
+      provenance: withFreshness(provenance, MAX_IV_AGE_SECONDS)
+    })
+  } catch (error) {
+    console.error(`Error reading ${symbol} IV history:`, error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to read IV history' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,10 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { apiCache } from '@/lib/cache'
+import { toProviderError, withFreshness, type ProvenanceFields, type ProviderError } from '@/lib/provenance'
+import { getSymbolProfile, parseSymbol, type SymbolProfile } from '@/lib/symbols'
 
 // Free news APIs
 const NEWS_API_KEY = process.env.NEWS_API_KEY || 'demo'
 const ALPHA_VANTAGE_KEY = process.env.ALPHA_VANTAGE_API_KEY || 'demo'
 
+// News fetched longer ago than this is flagged stale
+const MAX_NEWS_AGE_SECONDS = 60 * 60
+
 interface NewsItem {
   title: string
   description: string
@@ -17,20 +22,35 @@ interface NewsItem {
 
 // Market-moving event keywords
 const MARKET_KEYWORDS = {
-  high: ['fed meeting', 'fomc', 'interest rate', 'cpi', 'inflation', 'earnings', 'tesla earnings', 'elon musk'],
-  medium: ['unemployment', 'gdp', 'jobless claims', 'consumer confidence', 'tesla delivery', 'autopilot'],
-  low: ['retail sales', 'housing data', 'tesla update', 'model 3', 'model y', 'cybertruck']
+  high: ['fed meeting', 'fomc', 'interest rate', 'cpi', 'inflation', 'earnings'],
+  medium: ['unemployment', 'gdp', 'jobless claims', 'consumer confidence'],
+  low: ['retail sales', 'housing data']
+}
+
+// Extra keywords for specific underlyings
+const SYMBOL_KEYWORDS: Record<string, { high: string[]; medium: string[]; low: string[] }> = {
+  TSLA: {
+    high: ['tesla earnings', 'elon musk'],
+    medium: ['tesla delivery', 'autopilot'],
+    low: ['tesla update', 'model 3', 'model y', 'cybertruck']
+  },
+  NVDA: {
+    high: ['nvidia earnings', 'export controls'],
+    medium: ['data center', 'gpu'],
+    low: ['geforce']
+  }
 }
 
 // Categorize news impact
-function categorizeNewsImpact(title: string, description: string): 'high' | 'medium' | 'low' {
+function categorizeNewsImpact(title: string, description: string, profile: SymbolProfile): 'high' | 'medium' | 'low' {
   const text = (title + ' ' + description).toLowerCase()
+  const symbolKeywords = SYMBOL_KEYWORDS[profile.symbol] || { high: [], medium: [], low: [] }
   
-  for (const keyword of MARKET_KEYWORDS.high) {
+  for (const keyword of [...MARKET_KEYWORDS.high, ...symbolKeywords.high]) {
     if (text.includes(keyword)) return 'high'
   }
   
-  for (const keyword of MARKET_KEYWORDS.medium) {
+  for (const keyword of [...MARKET_KEYWORDS.medium, ...symbolKeywords.medium]) {
     if (text.includes(keyword)) return 'medium'
   }
   
@@ -38,88 +58,113 @@ function categorizeNewsImpact(title: string, description: string): 'high' | 'med
 }
 
 // Determine news category
-function determineCategory(title: string, description: string): string {
+function determineCategory(title: string, description: string, profile: SymbolProfile): string {
   const text = (title + ' ' + description).toLowerCase()
   
   if (text.includes('fed') || text.includes('fomc') || text.includes('interest rate')) return 'Federal Reserve'
   if (text.includes('cpi') || text.includes('inflation')) return 'Economic Data'
-  if (text.includes('earnings') || text.includes('tesla earnings')) return 'Earnings'
-  if (text.includes('elon musk') || text.includes('tesla')) return 'Tesla'
+  if (text.includes('earnings')) return 'Earnings'
+  if (profile.newsTerms.some(term => text.includes(term))) return profile.name
   if (text.includes('unemployment') || text.includes('jobs')) return 'Employment'
   
   return 'General Market'
 }
 
 export async function GET(request: NextRequest) {
-  const cacheKey = 'market-news-data'
+  const parsedSymbol = parseSymbol(request.nextUrl.searchParams)
+  if (!parsedSymbol.ok) {
+    return NextResponse.json(
+      { success: false, error: 'Invalid symbol', details: [parsedSymbol.error] },
+      { status: 400 }
+    )
+  }
+
+  const { symbol } = parsedSymbol
+  const profile = getSymbolProfile(symbol)
+  const cacheKey = `market-news-data:${symbol}`
   
   // Try to get cached data first
   const cachedData = apiCache.get(cacheKey)
   if (cachedData) {
     return NextResponse.json({
       success: true,
-      data: cachedData,
+      data: cachedData.data,
+      provenance: withFreshness(cachedData.provenance, MAX_NEWS_AGE_SECONDS),
       cached: true
     })
   }
 
+  const sources: string[] = []
+  const errors: ProviderError[] = []
+
   try {
     const marketNews: NewsItem[] = []
 
     // Fetch from NewsAPI (if API key is available)
-    if (NEWS_API_KEY !== 'demo') {
+    if (NEWS_API_KEY === 'demo') {
+      errors.push({ provider: 'newsapi', message: 'skipped: no API key configured' })
+    } else {
       try {
+        const symbolQuery = profile.newsTerms.map(term => `"${term}"`).join(' OR ')
+        const query = encodeURIComponent(`${symbolQuery} OR "federal reserve" OR "interest rates" OR CPI OR inflation OR earnings`)
         const newsApiResponse = await fetch(
-          `https://newsapi.org/v2/everything?q=tesla OR "federal reserve" OR "interest rates" OR CPI OR inflation OR earnings&sortBy=publishedAt&language=en&apiKey=${NEWS_API_KEY}`
+          `https://newsapi.org/v2/everything?q=${query}&sortBy=publishedAt&language=en&apiKey=${NEWS_API_KEY}`
         )
         const newsData = await newsApiResponse.json()
         
-        if (newsData.articles) {
-          newsData.articles.slice(0, 15).forEach((article: any) => {
-            const impact = categorizeNewsImpact(article.title, article.description || '')
-            const category = determineCategory(article.title, article.description || '')
-            
-            marketNews.push({
-              title: article.title,
-              description: article.description || '',
-              url: article.url,
-              publishedAt: article.publishedAt,
-              source: article.source.name,
-              category,
-              impact
-            })
-          })
+        if (!newsData.articles) {
+          throw new Error(newsData.message || 'No articles in NewsAPI response')
         }
+        sources.push('newsapi')
+        newsData.articles.slice(0, 15).forEach((article: any) => {
+          const impact = categorizeNewsImpact(article.title, article.description || '', profile)
+          const category = determineCategory(article.title, article.description || '', profile)
+          
+          marketNews.push({
+            title: article.title,
+            description: article.description || '',
+            url: article.url,
+            publishedAt: article.publishedAt,
+            source: article.source.name,
+            category,
+            impact
+          })
+        })
       } catch (error) {
         console.error('NewsAPI error:', error)
+        errors.push(toProviderError('newsapi', error))
       }
     }
 
     // Fetch from Alpha Vantage News (backup)
     try {
       const alphaResponse = await fetch(
-        `https://www.alphavantage.co/query?function=NEWS_SENTIMENT&tickers=TSLA&apikey=${ALPHA_VANTAGE_KEY}`
+        `https://www.alphavantage.co/query?function=NEWS_SENTIMENT&tickers=${symbol}&apikey=${ALPHA_VANTAGE_KEY}`
       )
       const alphaData = await alphaResponse.json()
       
-      if (alphaData.feed) {
-        alphaData.feed.slice(0, 10).forEach((article: any) => {
-          const impact = categorizeNewsImpact(article.title, article.summary)
-          const category = determineCategory(article.title, article.summary)
-          
-          marketNews.push({
-            title: article.title,
-            description: article.summary,
-            url: article.url,
-            publishedAt: article.time_published,
-            source: article.source,
-            category,
-            impact
-          })
-        })
+      if (!alphaData.feed) {
+        // Rate limits and demo-key notices come back as 200s with an explanation instead of a feed
+        throw new Error(alphaData.Information || alphaData.Note || 'No feed in Alpha Vantage response')
       }
+      sources.push('alphavantage')
+      alphaData.feed.slice(0, 10).forEach((article: any) => {
+        const impact = categorizeNewsImpact(article.title, article.summary, profile)
+        const category = determineCategory(article.title, article.summary, profile)
+        
+        marketNews.push({
+          title: article.title,
+          description: article.summary,
+          url: article.url,
+          publishedAt: article.time_published,
+          source: article.source,
+          category,
+          impact
+        })
+      })
     } catch (error) {
       console.error('Alpha Vantage News error:', error)
+      errors.push(toProviderError('alphavantage', error))
     }
 
     // If no real data, return mock data
@@ -172,13 +217,23 @@ export async function GET(request: NextRequest) {
         }
       ]
       
+      // The Tesla headlines only make sense for TSLA
+      const symbolNews = mockNews.filter(item => symbol === 'TSLA' || item.title.indexOf('Tesla') === -1)
+      
       return NextResponse.json({
         success: true,
         data: {
-          news: mockNews,
+          symbol,
+          news: symbolNews,
           lastUpdate: new Date().toISOString(),
-          totalItems: mockNews.length
-        }
+          totalItems: symbolNews.length
+        },
+        provenance: withFreshness({
+          source: 'demo',
+          asOf: new Date().toISOString(),
+          isFallback: true,
+          errors
+        }, MAX_NEWS_AGE_SECONDS)
       })
     }
 
@@ -198,17 +253,26 @@ export async function GET(request: NextRequest) {
     })
 
     const responseData = {
+      symbol,
       news: sortedNews.slice(0, 20),
       lastUpdate: new Date().toISOString(),
       totalItems: sortedNews.length
     }
 
+    const provenance: ProvenanceFields = {
+      source: sources.join(', '),
+      asOf: responseData.lastUpdate,
+      isFallback: false,
+      errors
+    }
+
     // Cache the response for 60 seconds (news updates less frequently)
-    apiCache.set(cacheKey, responseData, 60)
+    apiCache.set(cacheKey, { data: responseData, provenance }, 60)
 
     return NextResponse.json({
       success: true,
-      data: responseData
+      data: responseData,
+      provenance: withFreshness(provenance, MAX_NEWS_AGE_SECONDS)
     })
 
   } catch (error) {
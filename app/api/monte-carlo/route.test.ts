@@ -0,0 +1,36 @@
+import { NextRequest } from 'next/server'
+import { describe, expect, it } from 'vitest'
+import { POST } from '@/app/api/monte-carlo/route'
+
+const LEG = { type: 'put', action: 'sell', strike: 380, expiration: '2025-01-17', price: 4, impliedVolatility: 0.5 }
+
+async function post(body: string) {
+  const response = await POST(new NextRequest('http://localhost/api/monte-carlo', { method: 'POST', body }))
+  return { status: response.status, json: await response.json() }
+}
+
+describe('POST /api/monte-carlo', () => {
+  it.each(['null', '[]', '5', '"legs"'])('rejects a %s body', async body => {
+    expect(await post(body)).toEqual({
+      status: 400,
+      json: { success: false, error: 'Invalid simulation parameters', details: [{ param: 'body', message: 'must be a JSON object' }] }
+    })
+  })
+
+  it('rejects legs that are not objects', async () => {
+    const { status, json } = await post(JSON.stringify({ spot: 400, legs: [LEG, null, 'call'] }))
+    expect(status).toBe(400)
+    expect(json.details).toEqual([
+      { param: 'legs[1]', message: 'must be an object' },
+      { param: 'legs[2]', message: 'must be an object' }
+    ])
+  })
+
+  it('rejects more paths than the work cap allows', async () => {
+    const expiration = new Date(Date.now() + 400 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+    const legs = [1, 2, 3, 4, 5, 6, 7, 8].map(i => ({ ...LEG, strike: 300 + i * 10, expiration }))
+    const { status, json } = await post(JSON.stringify({ spot: 400, legs, paths: 20000 }))
+    expect(status).toBe(400)
+    expect(json.details).toEqual([{ param: 'paths', message: expect.stringMatching(/^must be at most \d+ for 8 legs over 40\d days, got 20000$/) }])
+  })
+})
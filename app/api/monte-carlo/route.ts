@@ -0,0 +1,156 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  DEFAULT_SIMULATION_OPTIONS,
+  simulatePnL,
+  type NumericSimulationOption,
+  type SimulationOptions
+} from '@/lib/monteCarlo'
+import { daysToNearestExpiration, type PayoffLeg } from '@/lib/payoff'
+import { getRiskFreeRate } from '@/lib/pricing'
+import { isPlainObject } from '@/lib/utils'
+
+interface SimulationParamError {
+  param: string // e.g. "paths" or "legs[1].strike"
+  message: string
+}
+
+const MAX_LEGS = 8
+const MAX_PATHS = 20000
+const MAX_SEED = 4294967295
+// Each path steps daily to the nearest expiration and revalues every leg, so bound the total work
+// (roughly a second per million leg revaluations) as well as the horizon
+const MAX_HORIZON_DAYS = 730
+const MAX_LEG_STEPS = 5000000
+
+// Allowed range of every numeric option
+const OPTION_RANGES: Record<NumericSimulationOption, { min: number; max: number; integer?: boolean }> = {
+  paths: { min: 100, max: MAX_PATHS, integer: true },
+  seed: { min: 0, max: MAX_SEED, integer: true },
+  jumpIntensity: { min: 0, max: 50 },
+  jumpMean: { min: -1, max: 1 },
+  jumpVolatility: { min: 0, max: 1 },
+  profitTargetPct: { min: 1, max: 100 }
+}
+const NUMERIC_OPTIONS = Object.keys(OPTION_RANGES) as NumericSimulationOption[]
+
+// Simulate the P&L distribution of a position at its nearest expiration.
+// Body: { legs: PayoffLeg[], spot, seed?, ...SimulationOptions }; omitting the seed picks one and returns it.
+export async function POST(request: NextRequest) {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Invalid simulation parameters', details: [{ param: 'body', message: 'must be JSON' }] },
+      { status: 400 }
+    )
+  }
+  if (!isPlainObject(body)) {
+    return NextResponse.json(
+      { success: false, error: 'Invalid simulation parameters', details: [{ param: 'body', message: 'must be a JSON object' }] },
+      { status: 400 }
+    )
+  }
+
+  const details: SimulationParamError[] = []
+
+  const readNumber = (source: Record<string, unknown>, key: string, param: string, min: number, max: number, integer: boolean = false, required: boolean = false): number | undefined => {
+    const raw = source[key]
+    if (raw === undefined || raw === null || raw === '') {
+      if (required) details.push({ param, message: 'is required' })
+      return undefined
+    }
+    const value = Number(raw)
+    if (!isFinite(value)) {
+      details.push({ param, message: `must be a number, got "${raw}"` })
+    } else if (integer && !Number.isInteger(value)) {
+      details.push({ param, message: `must be a whole number, got ${value}` })
+    } else if (value < min || value > max) {
+      details.push({ param, message: `must be between ${min} and ${max}, got ${value}` })
+    } else {
+      return value
+    }
+    return undefined
+  }
+
+  const spot = readNumber(body, 'spot', 'spot', 0.01, 1000000, false, true)
+
+  const legs: PayoffLeg[] = []
+  if (!Array.isArray(body.legs) || body.legs.length === 0 || body.legs.length > MAX_LEGS) {
+    details.push({ param: 'legs', message: `must be an array of 1 to ${MAX_LEGS} legs` })
+  } else {
+    body.legs.forEach((raw: unknown, index: number) => {
+      if (!isPlainObject(raw)) {
+        details.push({ param: `legs[${index}]`, message: 'must be an object' })
+        return
+      }
+      const param = (field: string) => `legs[${index}].${field}`
+      const { type, action, expiration } = raw
+      if (type !== 'call' && type !== 'put') {
+        details.push({ param: param('type'), message: `must be call or put, got "${type}"` })
+      }
+      if (action !== 'buy' && action !== 'sell') {
+        details.push({ param: param('action'), message: `must be buy or sell, got "${action}"` })
+      }
+      if (typeof expiration !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(expiration) || isNaN(Date.parse(expiration))) {
+        details.push({ param: param('expiration'), message: `must be YYYY-MM-DD, got "${expiration}"` })
+      }
+      const strike = readNumber(raw, 'strike', param('strike'), 0.01, 1000000, false, true)
+      const price = readNumber(raw, 'price', param('price'), 0, 100000, false, true)
+      const impliedVolatility = readNumber(raw, 'impliedVolatility', param('impliedVolatility'), 0, 5, false, true)
+      const quantity = readNumber(raw, 'quantity', param('quantity'), 1, 100, true) ?? 1
+      // Anything invalid is already reported; skip the leg
+      if ((type !== 'call' && type !== 'put') || (action !== 'buy' && action !== 'sell') || typeof expiration !== 'string') return
+      if (strike === undefined || price === undefined || impliedVolatility === undefined) return
+      legs.push({ type, action, quantity, strike, expiration, price, impliedVolatility })
+    })
+  }
+
+  const options: SimulationOptions = {
+    ...DEFAULT_SIMULATION_OPTIONS,
+    seed: Math.floor(Math.random() * MAX_SEED)
+  }
+  NUMERIC_OPTIONS.forEach(key => {
+    const { min, max, integer } = OPTION_RANGES[key]
+    const value = readNumber(body, key, key, min, max, integer)
+    if (value !== undefined) options[key] = value
+  })
+  if (body.fatTails !== undefined) {
+    if (typeof body.fatTails !== 'boolean') {
+      details.push({ param: 'fatTails', message: `must be true or false, got "${body.fatTails}"` })
+    } else {
+      options.fatTails = body.fatTails
+    }
+  }
+
+  if (details.length === 0 && legs.length > 0) {
+    const horizonDays = Math.ceil(daysToNearestExpiration(legs))
+    if (horizonDays > MAX_HORIZON_DAYS) {
+      details.push({ param: 'legs', message: `nearest expiration must be within ${MAX_HORIZON_DAYS} days, got ${horizonDays}` })
+    } else if (options.paths * Math.max(1, horizonDays) * legs.length > MAX_LEG_STEPS) {
+      const maxPaths = Math.floor(MAX_LEG_STEPS / (Math.max(1, horizonDays) * legs.length))
+      details.push({
+        param: 'paths',
+        message: `must be at most ${maxPaths} for ${legs.length} legs over ${horizonDays} days, got ${options.paths}`
+      })
+    }
+  }
+
+  if (details.length > 0 || spot === undefined) {
+    return NextResponse.json(
+      { success: false, error: 'Invalid simulation parameters', details },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const data = simulatePnL(legs, spot, options, getRiskFreeRate())
+    return NextResponse.json({ success: true, data })
+  } catch (error) {
+    console.error('Error running P&L simulation:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to run simulation' },
+      { status: 500 }
+    )
+  }
+}
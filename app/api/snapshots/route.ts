@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSnapshotAt, listSnapshots } from '@/lib/snapshots'
+import { parseSymbol } from '@/lib/symbols'
+
+interface SnapshotParamError {
+  param: 'symbol' | 'from' | 'to' | 'at' | 'expiration'
+  message: string
+}
+
+// List recorded chain snapshots, or return the one in effect at a given time
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams
+  const details: SnapshotParamError[] = []
+
+  const parsedSymbol = parseSymbol(searchParams)
+  if (!parsedSymbol.ok) details.push(parsedSymbol.error)
+
+  const readDate = (param: 'from' | 'to' | 'at'): Date | undefined => {
+    const raw = searchParams.get(param)
+    if (raw === null || raw.trim() === '') return undefined
+    const date = new Date(raw)
+    if (isNaN(date.getTime())) {
+      details.push({ param, message: `must be an ISO date or timestamp, got "${raw}"` })
+      return undefined
+    }
+    return date
+  }
+  const from = readDate('from')
+  const to = readDate('to')
+  const at = readDate('at')
+
+  const expiration = searchParams.get('expiration')
+  if (expiration !== null && !/^\d{4}-\d{2}-\d{2}$/.test(expiration)) {
+    details.push({ param: 'expiration', message: `must be YYYY-MM-DD, got "${expiration}"` })
+  }
+  if (from && to && from > to) {
+    details.push({ param: 'from', message: 'must not be after to' })
+  }
+
+  if (details.length > 0 || !parsedSymbol.ok) {
+    return NextResponse.json(
+      { success: false, error: 'Invalid snapshot parameters', details },
+      { status: 400 }
+    )
+  }
+
+  const { symbol } = parsedSymbol
+
+  try {
+    if (!at) {
+      const snapshots = await listSnapshots(symbol, from, to)
+      return NextResponse.json({ success: true, data: { symbol, snapshots } })
+    }
+
+    const snapshot = await getSnapshotAt(symbol, at)
+    if (!snapshot) {
+      return NextResponse.json(
+        { success: false, error: `No ${symbol} snapshot recorded at or before ${at.toISOString()}` },
+        { status: 404 }
+      )
+    }
+
+    // Optionally narrow to one expiration to keep the payload small
+    const data = expiration === null ? snapshot : {
+      ...snapshot,
+      expirations: snapshot.expirations.filter(chain =>
+        new Date(chain.expirationDate * 1000).toISOString().split('T')[0] === expiration
+      )
+    }
+    return NextResponse.json({ success: true, data })
+  } catch (error) {
+    console.error(`Error reading ${symbol} snapshots:`, error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to read snapshots' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { apiCache } from '@/lib/cache'
+import { MarketDataError, getChain, getExpirations, getQuote } from '@/lib/marketData'
+import { normalizeChain } from '@/lib/optionChain'
+import { getRiskFreeRate } from '@/lib/pricing'
+import { toProviderError, withFreshness, type ProvenanceFields, type ProviderError } from '@/lib/provenance'
+import { formatExpiration, getDaysToExpiration } from '@/lib/strategies/common'
+import { parseSymbol } from '@/lib/symbols'
+
+// Same freshness limit as the screener's quotes
+const MAX_QUOTE_AGE_SECONDS = 15 * 60
+
+interface ChainParamError {
+  param: 'symbol' | 'expiration'
+  message: string
+}
+
+// Full chain for one expiration (the nearest unexpired one by default), calls and puts sorted by strike
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams
+  const details: ChainParamError[] = []
+
+  const parsedSymbol = parseSymbol(searchParams)
+  if (!parsedSymbol.ok) details.push(parsedSymbol.error)
+
+  const expiration = searchParams.get('expiration')
+  if (expiration !== null && expiration !== '' && !/^\d{4}-\d{2}-\d{2}$/.test(expiration)) {
+    details.push({ param: 'expiration', message: `must be YYYY-MM-DD, got "${expiration}"` })
+  }
+
+  if (details.length > 0 || !parsedSymbol.ok) {
+    return NextResponse.json(
+      { success: false, error: 'Invalid chain parameters', details },
+      { status: 400 }
+    )
+  }
+
+  const { symbol } = parsedSymbol
+  const cacheKey = `option-chain:${symbol}:${expiration || 'nearest'}`
+
+  const cachedData = apiCache.get(cacheKey)
+  if (cachedData) {
+    return NextResponse.json({
+      success: true,
+      data: cachedData.data,
+      provenance: withFreshness(cachedData.provenance, MAX_QUOTE_AGE_SECONDS),
+      cached: true
+    })
+  }
+
+  const errors: ProviderError[] = []
+
+  try {
+    const expirations = await getExpirations(symbol)
+    errors.push(...expirations.errors)
+    const listed = expirations.data
+      .filter(expirationDate => getDaysToExpiration(expirationDate) >= 0)
+      .sort((a, b) => a - b)
+
+    const expirationDate = expiration
+      ? listed.find(candidate => formatExpiration(candidate) === expiration)
+      : listed[0]
+    if (expirationDate === undefined) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: expiration ? `${symbol} has no listed expiration on ${expiration}` : `${symbol} has no listed expirations`,
+          details: [{ param: 'expiration', message: `expected one of ${listed.map(formatExpiration).join(', ')}` }]
+        },
+        { status: 404 }
+      )
+    }
+
+    const quote = await getQuote(symbol)
+    errors.push(...quote.errors)
+    const chain = await getChain(symbol, expirationDate)
+    errors.push(...chain.errors)
+
+    const data = normalizeChain(symbol, chain.data, quote.data.price, getRiskFreeRate(), listed)
+    const sources = [quote.source, expirations.source, chain.source]
+    const provenance: ProvenanceFields = {
+      source: sources.filter((source, index) => sources.indexOf(source) === index).join(', '),
+      asOf: quote.data.asOf,
+      isFallback: false,
+      errors
+    }
+
+    // Cache for 30 seconds, matching the screener
+    apiCache.set(cacheKey, { data, provenance }, 30)
+
+    return NextResponse.json({
+      success: true,
+      data,
+      provenance: withFreshness(provenance, MAX_QUOTE_AGE_SECONDS)
+    })
+  } catch (error) {
+    console.error(`Error fetching ${symbol} option chain:`, error)
+    errors.push(...(error instanceof MarketDataError ? error.errors : [toProviderError('chain', error)]))
+    // No demo chain: made-up quotes are worse than none when comparing against a broker
+    return NextResponse.json(
+      { success: false, error: `Failed to fetch ${symbol} option chain`, errors },
+      { status: 502 }
+    )
+  }
+}
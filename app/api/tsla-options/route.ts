@@ -1,291 +1,190 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { apiCache } from '@/lib/cache'
+import { getCalendarEvents, highImpactEvents } from '@/lib/eventCalendar'
+import { getExpectedMoves } from '@/lib/expectedMove'
+import { updateIVHistory } from '@/lib/ivHistory'
+import { MarketDataError, getChainsInWindow, getQuote } from '@/lib/marketData'
+import { getRiskFreeRate } from '@/lib/pricing'
+import { parseScreenerParams, toQueryString, type ParamError } from '@/lib/screener'
+import { getLookaheadDays, runStrategies } from '@/lib/strategies'
+import { getDaysToExpiration } from '@/lib/strategies/common'
+import { buildIronCondor } from '@/lib/strategies/ironCondor'
+import { buildVerticalSpread } from '@/lib/strategies/verticals'
+import { toProviderError, withFreshness, type ProvenanceFields, type ProviderError } from '@/lib/provenance'
+import { parseSymbol } from '@/lib/symbols'
+import type { OptionContract, StrategyRecommendation } from '@/lib/types'
+
+// Quotes older than this are flagged stale (e.g. after the close or a delayed feed)
+const MAX_QUOTE_AGE_SECONDS = 15 * 60
 
-// Multiple free API endpoints for TSLA options data
-const YAHOO_FINANCE_API = 'https://query1.finance.yahoo.com/v7/finance/options/TSLA'
-const YAHOO_QUOTE_API = 'https://query1.finance.yahoo.com/v8/finance/chart/TSLA'
-const ALPHA_VANTAGE_API = 'https://www.alphavantage.co/query'
-const ALPHA_VANTAGE_KEY = process.env.ALPHA_VANTAGE_API_KEY || 'demo'
-const POLYGON_API = 'https://api.polygon.io/v2'
-const POLYGON_KEY = process.env.POLYGON_API_KEY || 'demo'
-const FMP_API = 'https://financialmodelingprep.com/api/v3'
-const FMP_KEY = process.env.FMP_API_KEY || 'demo'
-
-interface OptionContract {
-  contractSymbol: string
-  strike: number
-  expiration: number
-  bid: number
-  ask: number
-  lastPrice: number
-  volume: number
-  openInterest: number
-  impliedVolatility: number
-  inTheMoney: boolean
-}
-
-interface CreditSpreadRecommendation {
-  type: 'call' | 'put'
-  shortStrike: number
-  longStrike: number
-  expiration: string
-  creditReceived: number
-  maxProfit: number
-  maxLoss: number
-  breakeven: number
-  probOfProfit: number
-  riskRewardRatio: number
-  daysToExpiration: number
-}
-
-// Calculate days to expiration
-function getDaysToExpiration(expirationTimestamp: number): number {
-  const now = new Date().getTime()
-  const expiration = new Date(expirationTimestamp * 1000).getTime()
-  return Math.ceil((expiration - now) / (1000 * 60 * 60 * 24))
-}
-
-// Enhanced probability of profit calculation using delta and mathematical models
-function calculateProbOfProfit(currentPrice: number, shortStrike: number, creditReceived: number, type: 'call' | 'put', impliedVol: number = 0.3, daysToExp: number = 7): number {
-  const timeToExpiration = daysToExp / 365
-  const breakeven = type === 'call' ? shortStrike + creditReceived : shortStrike - creditReceived
-  
-  // Black-Scholes-like probability calculation
-  const d = Math.log(currentPrice / breakeven) / (impliedVol * Math.sqrt(timeToExpiration))
-  
-  // Cumulative normal distribution approximation
-  const cdf = 0.5 * (1 + Math.sign(d) * Math.sqrt(1 - Math.exp(-2 * d * d / Math.PI)))
-  
-  // Adjust for credit spreads profit probability
-  let probability = type === 'call' ? (1 - cdf) * 100 : cdf * 100
-  
-  // Add premium decay benefit for short options
-  probability += Math.max(0, (10 - daysToExp) * 2) // Time decay benefit
-  
-  // Adjust based on moneyness
-  const moneyness = currentPrice / shortStrike
-  if (type === 'call' && moneyness < 0.95) probability += 10
-  if (type === 'put' && moneyness > 1.05) probability += 10
-  
-  return Math.min(Math.max(probability, 20), 85) // Cap between 20-85%
-}
-
-// Find optimal credit spreads
-function findCreditSpreads(options: OptionContract[], currentPrice: number, targetDTE: number = 7): CreditSpreadRecommendation[] {
-  const recommendations: CreditSpreadRecommendation[] = []
-  
-  // Filter options close to target DTE
-  const targetOptions = options.filter(option => {
-    const dte = getDaysToExpiration(option.expiration)
-    return dte >= targetDTE - 2 && dte <= targetDTE + 2
-  })
-
-  // Find call credit spreads (bear call spreads)
-  const callOptions = targetOptions.filter(option => !option.inTheMoney || option.strike > currentPrice)
-  for (let i = 0; i < callOptions.length - 1; i++) {
-    const shortOption = callOptions[i]
-    const longOption = callOptions[i + 1]
-    
-    if (longOption.strike > shortOption.strike) {
-      const creditReceived = shortOption.bid - longOption.ask
-      const maxLoss = (longOption.strike - shortOption.strike) - creditReceived
-      const maxProfit = creditReceived
-      
-      const daysToExp = getDaysToExpiration(shortOption.expiration)
-      const avgIV = (shortOption.impliedVolatility + longOption.impliedVolatility) / 2
-      
-      if (creditReceived > 0.15 && maxProfit / maxLoss > 0.25 && daysToExp >= 5 && daysToExp <= 10) {
-        const probOfProfit = calculateProbOfProfit(currentPrice, shortOption.strike, creditReceived, 'call', avgIV, daysToExp)
-        
-        recommendations.push({
-          type: 'call',
-          shortStrike: shortOption.strike,
-          longStrike: longOption.strike,
-          expiration: new Date(shortOption.expiration * 1000).toISOString().split('T')[0],
-          creditReceived: creditReceived,
-          maxProfit: maxProfit,
-          maxLoss: maxLoss,
-          breakeven: shortOption.strike + creditReceived,
-          probOfProfit: probOfProfit,
-          riskRewardRatio: maxProfit / maxLoss,
-          daysToExpiration: daysToExp
-        })
-      }
-    }
-  }
-
-  // Find put credit spreads (bull put spreads)
-  const putOptions = targetOptions.filter(option => !option.inTheMoney || option.strike < currentPrice)
-  for (let i = 0; i < putOptions.length - 1; i++) {
-    const shortOption = putOptions[i]
-    const longOption = putOptions[i + 1]
-    
-    if (longOption.strike < shortOption.strike) {
-      const creditReceived = shortOption.bid - longOption.ask
-      const maxLoss = (shortOption.strike - longOption.strike) - creditReceived
-      const maxProfit = creditReceived
-      
-      const daysToExp = getDaysToExpiration(shortOption.expiration)
-      const avgIV = (shortOption.impliedVolatility + longOption.impliedVolatility) / 2
-      
-      if (creditReceived > 0.15 && maxProfit / maxLoss > 0.25 && daysToExp >= 5 && daysToExp <= 10) {
-        const probOfProfit = calculateProbOfProfit(currentPrice, shortOption.strike, creditReceived, 'put', avgIV, daysToExp)
-        
-        recommendations.push({
-          type: 'put',
-          shortStrike: shortOption.strike,
-          longStrike: longOption.strike,
-          expiration: new Date(shortOption.expiration * 1000).toISOString().split('T')[0],
-          creditReceived: creditReceived,
-          maxProfit: maxProfit,
-          maxLoss: maxLoss,
-          breakeven: shortOption.strike - creditReceived,
-          probOfProfit: probOfProfit,
-          riskRewardRatio: maxProfit / maxLoss,
-          daysToExpiration: daysToExp
-        })
-      }
-    }
-  }
-
-  // Sort by risk/reward ratio
-  return recommendations.sort((a, b) => b.riskRewardRatio - a.riskRewardRatio).slice(0, 10)
-}
-
-// Enhanced price fetching with multiple sources
-async function getCurrentPrice(): Promise<number> {
-  // Try Yahoo Finance first (most reliable and free)
-  try {
-    const response = await fetch(YAHOO_QUOTE_API)
-    const data = await response.json()
-    if (data.chart?.result?.[0]?.meta?.regularMarketPrice) {
-      return data.chart.result[0].meta.regularMarketPrice
-    }
-  } catch (error) {
-    console.log('Yahoo Finance price fetch failed:', error)
-  }
-
-  // Try Alpha Vantage as backup
-  if (ALPHA_VANTAGE_KEY !== 'demo') {
-    try {
-      const response = await fetch(`${ALPHA_VANTAGE_API}?function=GLOBAL_QUOTE&symbol=TSLA&apikey=${ALPHA_VANTAGE_KEY}`)
-      const data = await response.json()
-      if (data['Global Quote']?.['05. price']) {
-        return parseFloat(data['Global Quote']['05. price'])
-      }
-    } catch (error) {
-      console.log('Alpha Vantage price fetch failed:', error)
-    }
-  }
-
-  // Try Financial Modeling Prep as third option
-  if (FMP_KEY !== 'demo') {
-    try {
-      const response = await fetch(`${FMP_API}/quote/TSLA?apikey=${FMP_KEY}`)
-      const data = await response.json()
-      if (data?.[0]?.price) {
-        return data[0].price
-      }
-    } catch (error) {
-      console.log('FMP price fetch failed:', error)
-    }
+export async function GET(request: NextRequest) {
+  const parsed = parseScreenerParams(request.nextUrl.searchParams)
+  const parsedSymbol = parseSymbol(request.nextUrl.searchParams)
+  if (!parsed.ok || !parsedSymbol.ok) {
+    const details: ParamError[] = [
+      ...(parsedSymbol.ok ? [] : [parsedSymbol.error]),
+      ...(parsed.ok ? [] : parsed.errors)
+    ]
+    return NextResponse.json(
+      { success: false, error: 'Invalid screener parameters', details },
+      { status: 400 }
+    )
   }
 
-  // Return reasonable fallback price
-  return 250
-}
-
-export async function GET(request: NextRequest) {
-  const cacheKey = 'tsla-options-data'
+  const { params } = parsed
+  const { symbol } = parsedSymbol
+  const cacheKey = `options-data:${symbol}:${toQueryString(params)}`
   
   // Try to get cached data first
   const cachedData = apiCache.get(cacheKey)
   if (cachedData) {
     return NextResponse.json({
       success: true,
-      data: cachedData,
+      data: cachedData.data,
+      provenance: withFreshness(cachedData.provenance, MAX_QUOTE_AGE_SECONDS),
       cached: true
     })
   }
 
-  try {
-    // Fetch current TSLA price with multiple sources
-    const currentPrice = await getCurrentPrice()
-
-    // Fetch options data from Yahoo Finance
-    const optionsResponse = await fetch(YAHOO_FINANCE_API)
-    const optionsData = await optionsResponse.json()
+  const errors: ProviderError[] = []
 
-    if (!optionsData.optionChain || !optionsData.optionChain.result || optionsData.optionChain.result.length === 0) {
-      throw new Error('No options data available')
+  try {
+    // Fetch the current underlying price with multiple sources
+    const quote = await getQuote(symbol)
+    errors.push(...quote.errors)
+    const currentPrice = quote.data.price
+
+    // Fetch every expiration in the scan window, plus any lookahead the strategies need
+    const { chains, listed, sources, errors: chainErrors } = await getChainsInWindow(
+      symbol,
+      params.minDTE,
+      params.maxDTE + getLookaheadDays(params)
+    )
+    errors.push(...chainErrors)
+    if (chains.length === 0) {
+      throw new Error('No option chains available in the scan window')
     }
 
-    const result = optionsData.optionChain.result[0]
-    const options = result.options[0]
-    
-    // Combine calls and puts
-    const allOptions: OptionContract[] = [
-      ...(options.calls || []),
-      ...(options.puts || [])
-    ]
+    // Record today's ATM IV; the screener only runs when IV rank meets the requested minimum
+    const { stats: ivStats, errors: ivErrors } = await updateIVHistory(symbol, currentPrice)
+    errors.push(...ivErrors)
+    const meetsIVRank = params.minIVRank === 0 || (ivStats.ivRank !== null && ivStats.ivRank >= params.minIVRank)
 
-    // Find credit spread recommendations
-    const recommendations = findCreditSpreads(allOptions, currentPrice)
+    // Same event source as /api/economic-calendar, read directly rather than over HTTP
+    const events = highImpactEvents(await getCalendarEvents(symbol))
+
+    // Run every selected strategy over the fetched chains. Below the IV rank minimum nothing is returned,
+    // but the funnel still shows what would have passed.
+    const run = runStrategies({
+      chains,
+      listedExpirations: listed,
+      currentPrice,
+      riskFreeRate: getRiskFreeRate(),
+      params,
+      events
+    })
+    const recommendations = meetsIVRank ? run.recommendations : []
+    const funnel = meetsIVRank ? run.funnel : {
+      ...run.funnel,
+      blockedBy: ivStats.ivRank === null
+        ? `IV rank is not available yet; the minimum is ${params.minIVRank}`
+        : `IV rank ${Math.round(ivStats.ivRank)} is below the minimum of ${params.minIVRank}`
+    }
 
     const responseData = {
+      symbol,
       currentPrice,
       lastUpdate: new Date().toISOString(),
-      recommendations
+      params,
+      ivStats,
+      // Expected move for each expiration in the scan window, from its ATM straddle
+      expectedMoves: getExpectedMoves(chains.filter(chain => {
+        const dte = getDaysToExpiration(chain.expirationDate)
+        return dte >= params.minDTE && dte <= params.maxDTE
+      }), currentPrice),
+      recommendations,
+      funnel
+    }
+
+    const provenance: ProvenanceFields = {
+      source: [quote.source, ...sources.filter(source => source !== quote.source)].join(', '),
+      asOf: quote.data.asOf,
+      isFallback: false,
+      errors
     }
 
     // Cache the response for 30 seconds
-    apiCache.set(cacheKey, responseData, 30)
+    apiCache.set(cacheKey, { data: responseData, provenance }, 30)
 
     return NextResponse.json({
       success: true,
-      data: responseData
+      data: responseData,
+      provenance: withFreshness(provenance, MAX_QUOTE_AGE_SECONDS)
     })
 
   } catch (error) {
-    console.error('Error fetching TSLA options:', error)
+    console.error(`Error fetching ${symbol} options:`, error)
+    if (error instanceof MarketDataError) {
+      errors.push(...error.errors)
+    } else {
+      errors.push(toProviderError('screener', error))
+    }
     
-    // Return mock data for demonstration
-    const mockRecommendations: CreditSpreadRecommendation[] = [
-      {
-        type: 'call',
-        shortStrike: 260,
-        longStrike: 265,
-        expiration: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-        creditReceived: 1.25,
-        maxProfit: 1.25,
-        maxLoss: 3.75,
-        breakeven: 261.25,
-        probOfProfit: 68,
-        riskRewardRatio: 0.33,
-        daysToExpiration: 7
-      },
-      {
-        type: 'put',
-        shortStrike: 240,
-        longStrike: 235,
-        expiration: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-        creditReceived: 1.10,
-        maxProfit: 1.10,
-        maxLoss: 3.90,
-        breakeven: 238.90,
-        probOfProfit: 72,
-        riskRewardRatio: 0.28,
-        daysToExpiration: 7
-      }
-    ]
+    // Return clearly flagged demo data so the dashboard still renders
+    const mockPrice = 250.75
+    const mockExpiration = Math.floor((Date.now() + 7 * 24 * 60 * 60 * 1000) / 1000)
+    const mockContract = (strike: number, bid: number, ask: number): OptionContract => ({
+      contractSymbol: `${symbol}-MOCK-${strike}`,
+      strike,
+      expiration: mockExpiration,
+      bid,
+      ask,
+      lastPrice: (bid + ask) / 2,
+      volume: 0,
+      openInterest: 0,
+      impliedVolatility: 0.5,
+      inTheMoney: false
+    })
+    const mockContext = {
+      currentPrice: mockPrice,
+      riskFreeRate: getRiskFreeRate(),
+      pricing: params.pricing,
+      slippage: params.slippage,
+      now: new Date()
+    }
+
+    const bearCall = buildVerticalSpread('bear_call', mockContract(260, 1.85, 1.95), mockContract(265, 0.55, 0.6), mockContext)
+    const bullPut = buildVerticalSpread('bull_put', mockContract(240, 1.7, 1.8), mockContract(235, 0.55, 0.6), mockContext)
+
+    const mockRecommendations: StrategyRecommendation[] = []
+    if (bearCall && params.side !== 'put' && params.strategies.indexOf('bear_call') !== -1) {
+      mockRecommendations.push(bearCall)
+    }
+    if (bullPut && params.side !== 'call' && params.strategies.indexOf('bull_put') !== -1) {
+      mockRecommendations.push(bullPut)
+    }
+    if (bearCall && bullPut && params.side === 'both' && params.strategies.indexOf('iron_condor') !== -1) {
+      mockRecommendations.push(buildIronCondor(bearCall, bullPut, mockContext))
+    }
 
     return NextResponse.json({
       success: true,
       data: {
-        currentPrice: 250.75,
+        symbol,
+        currentPrice: mockPrice,
         lastUpdate: new Date().toISOString(),
-        recommendations: mockRecommendations
-      }
+        params,
+        ivStats: null,
+        expectedMoves: [],
+        recommendations: mockRecommendations,
+        funnel: null
+      },
+      provenance: withFreshness({
+        source: 'demo',
+        asOf: new Date().toISOString(),
+        isFallback: true,
+        errors
+      }, MAX_QUOTE_AGE_SECONDS)
     })
   }
 }
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { apiCache } from '@/lib/cache'
+import { MarketDataError, getChainsInWindow, getQuote } from '@/lib/marketData'
+import { getRiskFreeRate } from '@/lib/pricing'
+import { toProviderError, withFreshness, type ProvenanceFields, type ProviderError } from '@/lib/provenance'
+import { parseSymbol } from '@/lib/symbols'
+import { volatilitySurface } from '@/lib/volatility'
+
+// Same freshness limit as the screener's quotes
+const MAX_QUOTE_AGE_SECONDS = 15 * 60
+const DEFAULT_MAX_DTE = 60
+const MAX_DTE_LIMIT = 365
+
+interface VolatilityParamError {
+  param: 'symbol' | 'maxDTE'
+  message: string
+}
+
+// IV smile for every expiration out to maxDTE, plus the ATM IV term structure across them
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams
+  const details: VolatilityParamError[] = []
+
+  const parsedSymbol = parseSymbol(searchParams)
+  if (!parsedSymbol.ok) details.push(parsedSymbol.error)
+
+  let maxDTE = DEFAULT_MAX_DTE
+  const rawMaxDTE = searchParams.get('maxDTE')
+  if (rawMaxDTE !== null && rawMaxDTE.trim() !== '') {
+    const value = Number(rawMaxDTE)
+    if (!Number.isInteger(value) || value < 1 || value > MAX_DTE_LIMIT) {
+      details.push({ param: 'maxDTE', message: `must be a whole number between 1 and ${MAX_DTE_LIMIT}, got "${rawMaxDTE}"` })
+    } else {
+      maxDTE = value
+    }
+  }
+
+  if (details.length > 0 || !parsedSymbol.ok) {
+    return NextResponse.json(
+      { success: false, error: 'Invalid volatility parameters', details },
+      { status: 400 }
+    )
+  }
+
+  const { symbol } = parsedSymbol
+  const cacheKey = `volatility-surface:${symbol}:${maxDTE}`
+
+  const cachedData = apiCache.get(cacheKey)
+  if (cachedData) {
+    return NextResponse.json({
+      success: true,
+      data: cachedData.data,
+      provenance: withFreshness(cachedData.provenance, MAX_QUOTE_AGE_SECONDS),
+      cached: true
+    })
+  }
+
+  const errors: ProviderError[] = []
+
+  try {
+    const quote = await getQuote(symbol)
+    errors.push(...quote.errors)
+    const { chains, sources, errors: chainErrors } = await getChainsInWindow(symbol, 0, maxDTE)
+    errors.push(...chainErrors)
+    if (chains.length === 0) {
+      throw new Error(`No option chains available within ${maxDTE} days`)
+    }
+
+    const data = volatilitySurface(symbol, chains, quote.data.price, getRiskFreeRate())
+    const provenance: ProvenanceFields = {
+      source: [quote.source, ...sources.filter(source => source !== quote.source)].join(', '),
+      asOf: quote.data.asOf,
+      isFallback: false,
+      errors
+    }
+
+    // IV moves slower than quotes, so cache a little longer than the chain
+    apiCache.set(cacheKey, { data, provenance }, 60)
+
+    return NextResponse.json({
+      success: true,
+      data,
+      provenance: withFreshness(provenance, MAX_QUOTE_AGE_SECONDS)
+    })
+  } catch (error) {
+    console.error(`Error fetching ${symbol} volatility surface:`, error)
+    errors.push(...(error instanceof MarketDataError ? error.errors : [toProviderError('volatility', error)]))
+    return NextResponse.json(
+      { success: false, error: `Failed to fetch ${symbol} implied volatility`, errors },
+      { status: 502 }
+    )
+  }
+}
@@ -0,0 +1,235 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import dynamic from 'next/dynamic'
+import Link from 'next/link'
+
+const BacktestResults = dynamic(() => import('@/components/BacktestResults'), { ssr: false })
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import ScreenerFilters, { loadSavedFilters, type ScreenerFilterState } from '@/components/ScreenerFilters'
+import { DEFAULT_SCREENER_PARAMS, PRICING_LABELS, PRICING_MODES, toQueryString, type PricingMode } from '@/lib/screener'
+import { DEFAULT_BACKTEST_CONFIG, type BacktestConfig, type BacktestResult } from '@/lib/backtest'
+import { DEFAULT_SYMBOL, SUPPORTED_SYMBOLS, SYMBOL_PROFILES } from '@/lib/symbols'
+import { ArrowLeft, History, Play, RefreshCw, AlertTriangle } from 'lucide-react'
+
+interface ParamDetail {
+  param: string
+  message: string
+}
+
+const CONFIG_FIELDS: { key: keyof BacktestConfig; label: string; step: string }[] = [
+  { key: 'takeProfitPct', label: 'Take Profit (% of max profit)', step: '5' },
+  { key: 'stopLossPct', label: 'Stop Loss (% of credit)', step: '25' },
+  { key: 'maxOpenTrades', label: 'Max Open Trades', step: '1' },
+  { key: 'entryIntervalHours', label: 'Hours Between Entries', step: '1' },
+  { key: 'contracts', label: 'Contracts per Trade', step: '1' },
+  { key: 'startingCapital', label: 'Starting Capital ($)', step: '1000' }
+]
+
+// Replays recorded chain snapshots or an imported chain CSV through the screener
+export default function BacktestPage() {
+  const [symbol, setSymbol] = useState(DEFAULT_SYMBOL)
+  const [filters, setFilters] = useState<ScreenerFilterState>({ preset: 'default', params: DEFAULT_SCREENER_PARAMS })
+  const [config, setConfig] = useState<BacktestConfig>(DEFAULT_BACKTEST_CONFIG)
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [csv, setCsv] = useState<{ name: string; text: string } | null>(null)
+  const [result, setResult] = useState<BacktestResult | null>(null)
+  const [running, setRunning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [details, setDetails] = useState<ParamDetail[]>([])
+
+  // Start from the dashboard's saved screener filters
+  useEffect(() => {
+    setFilters(loadSavedFilters())
+  }, [])
+
+  const setPricing = (pricing: PricingMode) => {
+    setFilters({ ...filters, params: { ...filters.params, pricing } })
+  }
+
+  const updateConfig = (key: keyof BacktestConfig, value: number) => {
+    setConfig({ ...config, [key]: value })
+  }
+
+  const readCsv = (file: File | undefined) => {
+    if (!file) {
+      setCsv(null)
+      return
+    }
+    const reader = new FileReader()
+    reader.onload = () => setCsv({ name: file.name, text: String(reader.result) })
+    reader.readAsText(file)
+  }
+
+  const runBacktest = async () => {
+    try {
+      setRunning(true)
+      setError(null)
+      setDetails([])
+      const response = await fetch('/api/backtest', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          symbol,
+          params: toQueryString(filters.params),
+          from: from || undefined,
+          to: to ? `${to}T23:59:59` : undefined,
+          csv: csv?.text,
+          ...config
+        })
+      })
+      const data = await response.json()
+
+      if (data.success) {
+        setResult(data.data)
+      } else {
+        setResult(null)
+        setError(data.error || 'Backtest failed')
+        setDetails(data.details || [])
+      }
+    } catch (err) {
+      setError('Network error occurred')
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100">
+      <header className="border-b bg-white/80 backdrop-blur-sm sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-gradient-to-br from-blue-600 to-purple-600 rounded-lg flex items-center justify-center">
+              <History className="h-6 w-6 text-white" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
+                Screener Backtest
+              </h1>
+              <p className="text-sm text-gray-600">
+                Replay chain snapshots with take-profit, stop-loss and expiration exits
+              </p>
+            </div>
+          </div>
+          <Link href="/" className="flex items-center gap-1 text-sm text-blue-600 hover:underline">
+            <ArrowLeft className="h-4 w-4" />
+            Dashboard
+          </Link>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Setup</CardTitle>
+            <CardDescription>
+              Uses the snapshots recorded for the symbol unless a chain CSV is imported
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <div>
+                <label className="block text-sm font-medium mb-1">Symbol</label>
+                <select
+                  value={symbol}
+                  onChange={(e) => setSymbol(e.target.value)}
+                  className="w-full px-3 py-2 border rounded-lg text-sm"
+                >
+                  {SUPPORTED_SYMBOLS.map(ticker => (
+                    <option key={ticker} value={ticker}>
+                      {ticker} · {SYMBOL_PROFILES[ticker].name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">From</label>
+                <input
+                  type="date"
+                  value={from}
+                  onChange={(e) => setFrom(e.target.value)}
+                  className="w-full px-3 py-2 border rounded-lg text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">To</label>
+                <input
+                  type="date"
+                  value={to}
+                  onChange={(e) => setTo(e.target.value)}
+                  className="w-full px-3 py-2 border rounded-lg text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Fill Pricing</label>
+                <select
+                  value={filters.params.pricing}
+                  onChange={(e) => setPricing(e.target.value as PricingMode)}
+                  className="w-full px-3 py-2 border rounded-lg text-sm"
+                >
+                  {PRICING_MODES.map(mode => (
+                    <option key={mode} value={mode}>{PRICING_LABELS[mode]}</option>
+                  ))}
+                </select>
+              </div>
+              {CONFIG_FIELDS.map(({ key, label, step }) => (
+                <div key={key}>
+                  <label className="block text-sm font-medium mb-1">{label}</label>
+                  <input
+                    type="number"
+                    step={step}
+                    value={config[key]}
+                    onChange={(e) => updateConfig(key, parseFloat(e.target.value))}
+                    className="w-full px-3 py-2 border rounded-lg text-sm"
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-1">Historical Chain CSV (optional)</label>
+              <input
+                type="file"
+                accept=".csv,text/csv"
+                onChange={(e) => readCsv(e.target.files?.[0])}
+                className="text-sm"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Columns: timestamp, spot, expiration, type, strike, bid, ask, iv, and optionally last, open_interest, volume.
+                {csv && ` Loaded ${csv.name}.`}
+              </p>
+            </div>
+
+            <ScreenerFilters value={filters} onApply={setFilters} />
+
+            {error && (
+              <div className="p-3 rounded-lg border border-red-200 bg-red-50 text-sm text-red-700 space-y-1">
+                <div className="flex items-center gap-2 font-medium">
+                  <AlertTriangle className="h-4 w-4" />
+                  {error}
+                </div>
+                {details.map((detail, index) => (
+                  <div key={index} className="text-xs">
+                    <span className="font-medium">{detail.param}:</span> {detail.message}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <button
+              onClick={runBacktest}
+              disabled={running}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+            >
+              {running ? <RefreshCw className="h-4 w-4 animate-spin" /> : <Play className="h-4 w-4" />}
+              {running ? 'Running...' : 'Run Backtest'}
+            </button>
+          </CardContent>
+        </Card>
+
+        {result && <BacktestResults result={result} />}
+      </main>
+    </div>
+  )
+}
@@ -1,21 +1,79 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback } from 'react'
 import dynamic from 'next/dynamic'
+import Link from 'next/link'
 
 // Dynamic imports to prevent SSR issues
 const OptionsRecommendations = dynamic(() => import('@/components/OptionsRecommendations'), { ssr: false })
 const MarketNews = dynamic(() => import('@/components/MarketNews'), { ssr: false })
 const EconomicCalendar = dynamic(() => import('@/components/EconomicCalendar'), { ssr: false })
 const PriceAlerts = dynamic(() => import('@/components/PriceAlerts'), { ssr: false })
+const OptionChainTable = dynamic(() => import('@/components/OptionChainTable'), { ssr: false })
 const PerformanceTracker = dynamic(() => import('@/components/PerformanceTracker'), { ssr: false })
+const IVRegimeIndicator = dynamic(() => import('@/components/IVRegimeIndicator'), { ssr: false })
 const ServiceWorkerRegistration = dynamic(() => import('@/components/ServiceWorkerRegistration'), { ssr: false })
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
-import { TrendingUp, AlertTriangle, Info, Zap, Target, DollarSign } from 'lucide-react'
+import { TrendingUp, AlertTriangle, Info, Zap, Target, DollarSign, History } from 'lucide-react'
+import { FILTERS_STORAGE_KEY, loadSavedFilters, type ScreenerFilterState } from '@/components/ScreenerFilters'
+import { DEFAULT_SCREENER_PARAMS } from '@/lib/screener'
+import { DEFAULT_SYMBOL, SUPPORTED_SYMBOLS, SYMBOL_PROFILES } from '@/lib/symbols'
+import { MARKET_TIME_ZONE, getMarketStatus, type MarketSession } from '@/lib/marketCalendar'
+import { wsManager } from '@/lib/websocket'
+import type { Provenance } from '@/lib/provenance'
+
+const SYMBOL_STORAGE_KEY = 'tsla-selected-symbol'
+
+const SESSION_LABELS: Record<MarketSession, string> = {
+  pre: 'Pre-Market',
+  regular: 'Market Open',
+  post: 'After Hours',
+  closed: 'Market Closed'
+}
+
+const SESSION_VARIANTS = {
+  pre: 'warning',
+  regular: 'success',
+  post: 'warning',
+  closed: 'destructive'
+} as const
 
 export default function Dashboard() {
   const [currentTime, setCurrentTime] = useState(new Date())
+  const [symbol, setSymbol] = useState(DEFAULT_SYMBOL)
+  // Shared so the chain's custom spread is priced the way the screener is
+  const [filters, setFilters] = useState<ScreenerFilterState>({ preset: 'default', params: DEFAULT_SCREENER_PARAMS })
+  // True while the options panel is showing demo data; trade logging is locked meanwhile
+  const [usingFallbackData, setUsingFallbackData] = useState(false)
+
+  const handleProvenanceChange = useCallback((provenance?: Provenance) => {
+    setUsingFallbackData(!!provenance?.isFallback)
+  }, [])
+
+  // Restore the last selected symbol
+  useEffect(() => {
+    const saved = localStorage.getItem(SYMBOL_STORAGE_KEY)
+    if (saved && SUPPORTED_SYMBOLS.indexOf(saved) !== -1) {
+      setSymbol(saved)
+    }
+    setFilters(loadSavedFilters())
+  }, [])
+
+  // Keep the polled price/options/news feeds on the selected symbol
+  useEffect(() => {
+    wsManager.setSymbol(symbol)
+  }, [symbol])
+
+  const selectSymbol = (value: string) => {
+    setSymbol(value)
+    localStorage.setItem(SYMBOL_STORAGE_KEY, value)
+  }
+
+  const applyFilters = (value: ScreenerFilterState) => {
+    setFilters(value)
+    localStorage.setItem(FILTERS_STORAGE_KEY, JSON.stringify(value))
+  }
 
   useEffect(() => {
     const timer = setInterval(() => {
@@ -25,18 +83,21 @@ export default function Dashboard() {
     return () => clearInterval(timer)
   }, [])
 
-  const isMarketOpen = () => {
-    const now = new Date()
-    const hours = now.getHours()
-    const minutes = now.getMinutes()
-    const day = now.getDay()
-    
-    // Market is open 9:30 AM - 4:00 PM ET, Monday-Friday
-    const isWeekday = day >= 1 && day <= 5
-    const isMarketHours = (hours === 9 && minutes >= 30) || (hours >= 10 && hours < 16)
-    
-    return isWeekday && isMarketHours
-  }
+  // Session, holidays and half days in New York time regardless of the browser's zone
+  const marketStatus = getMarketStatus(currentTime)
+  const formatEastern = (iso: string) => new Date(iso).toLocaleString('en-US', {
+    timeZone: MARKET_TIME_ZONE,
+    weekday: 'short',
+    hour: 'numeric',
+    minute: '2-digit'
+  })
+  const marketNote = marketStatus.holiday
+    ? `${marketStatus.holiday} · opens ${formatEastern(marketStatus.nextOpen)} ET`
+    : marketStatus.earlyClose
+      ? `${marketStatus.earlyClose} · closes ${formatEastern(marketStatus.nextClose)} ET`
+      : marketStatus.session === 'regular'
+        ? `Closes ${formatEastern(marketStatus.nextClose)} ET`
+        : `Opens ${formatEastern(marketStatus.nextOpen)} ET`
 
   return (
     <>
@@ -61,18 +122,38 @@ export default function Dashboard() {
             </div>
 
             <div className="flex items-center gap-4">
-              <Badge 
-                variant={isMarketOpen() ? 'success' : 'destructive'}
-                className="text-sm"
+              <select
+                value={symbol}
+                onChange={(e) => selectSymbol(e.target.value)}
+                className="px-3 py-1.5 border rounded-lg text-sm font-medium bg-white"
+                aria-label="Symbol"
               >
-                {isMarketOpen() ? 'Market Open' : 'Market Closed'}
-              </Badge>
+                {SUPPORTED_SYMBOLS.map(ticker => (
+                  <option key={ticker} value={ticker}>
+                    {ticker} · {SYMBOL_PROFILES[ticker].name}
+                  </option>
+                ))}
+              </select>
+              <IVRegimeIndicator symbol={symbol} />
+              <Link href="/backtest" className="flex items-center gap-1 text-sm text-blue-600 hover:underline">
+                <History className="h-4 w-4" />
+                Backtest
+              </Link>
+              <div className="flex flex-col items-end gap-0.5">
+                <Badge
+                  variant={SESSION_VARIANTS[marketStatus.session]}
+                  className="text-sm"
+                >
+                  {SESSION_LABELS[marketStatus.session]}
+                </Badge>
+                <span className="text-xs text-gray-500">{marketNote}</span>
+              </div>
               <div className="text-right">
                 <div className="text-sm font-medium">
-                  {currentTime.toLocaleTimeString()}
+                  {currentTime.toLocaleTimeString('en-US', { timeZone: MARKET_TIME_ZONE })} ET
                 </div>
                 <div className="text-xs text-gray-500">
-                  {currentTime.toLocaleDateString()}
+                  {currentTime.toLocaleDateString('en-US', { timeZone: MARKET_TIME_ZONE })}
                 </div>
               </div>
             </div>
@@ -140,11 +221,11 @@ export default function Dashboard() {
           </CardHeader>
           <CardContent className="text-sm text-amber-700 space-y-2">
             <p>
-              <strong>Bull Put Spreads:</strong> Profit when TSLA stays above the short put strike. 
+              <strong>Bull Put Spreads:</strong> Profit when {symbol} stays above the short put strike. 
               Best in neutral to bullish markets.
             </p>
             <p>
-              <strong>Bear Call Spreads:</strong> Profit when TSLA stays below the short call strike. 
+              <strong>Bear Call Spreads:</strong> Profit when {symbol} stays below the short call strike. 
               Best in neutral to bearish markets.
             </p>
             <p>
@@ -158,15 +239,21 @@ export default function Dashboard() {
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 md:gap-6 lg:gap-8">
           {/* Options Recommendations */}
           <div className="lg:col-span-2 space-y-4 md:space-y-6">
-            <OptionsRecommendations />
-            <PerformanceTracker />
+            <OptionsRecommendations
+              symbol={symbol}
+              filters={filters}
+              onFiltersChange={applyFilters}
+              onProvenanceChange={handleProvenanceChange}
+            />
+            <OptionChainTable symbol={symbol} pricing={filters.params.pricing} slippage={filters.params.slippage} />
+            <PerformanceTracker symbol={symbol} tradingDisabled={usingFallbackData} />
           </div>
 
           {/* Sidebar - News, Calendar, and Alerts */}
           <div className="space-y-4 md:space-y-6 lg:col-span-1">
-            <PriceAlerts />
-            <MarketNews />
-            <EconomicCalendar />
+            <PriceAlerts symbol={symbol} />
+            <MarketNews symbol={symbol} />
+            <EconomicCalendar symbol={symbol} />
           </div>
         </div>
 
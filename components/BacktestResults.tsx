@@ -0,0 +1,186 @@
+'use client'
+
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { formatCurrency } from '@/lib/utils'
+import { PRICING_LABELS, STRATEGY_LABELS } from '@/lib/screener'
+import type { BacktestResult, BacktestTrade, ExitReason } from '@/lib/backtest'
+
+const EXIT_LABELS: Record<ExitReason, string> = {
+  take_profit: 'Take Profit',
+  stop_loss: 'Stop Loss',
+  expiration: 'Expiration',
+  end_of_data: 'End of Data'
+}
+
+function formatTime(timestamp: string): string {
+  return new Date(timestamp).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+}
+
+function describeLegs(trade: BacktestTrade): string {
+  return trade.legs
+    .map(leg => `${leg.action === 'sell' ? '-' : '+'}${leg.strike}${leg.type === 'call' ? 'C' : 'P'}`)
+    .join(' ')
+}
+
+function Stat({ label, value, tone }: { label: string; value: string; tone?: 'positive' | 'negative' }) {
+  const color = tone === 'positive' ? 'text-green-600' : tone === 'negative' ? 'text-red-600' : ''
+  return (
+    <div className="p-3 border rounded-lg">
+      <div className="text-xs text-gray-500">{label}</div>
+      <div className={`text-lg font-semibold ${color}`}>{value}</div>
+    </div>
+  )
+}
+
+// Summary stats, equity curve, per-trade P&L and the trade log for one backtest run
+export default function BacktestResults({ result }: { result: BacktestResult }) {
+  const { stats } = result
+  const equityData = result.equityCurve.map(point => ({ ...point, label: formatTime(point.timestamp) }))
+  const tradeData = result.trades.map(trade => ({ id: `#${trade.id}`, pnl: trade.pnl }))
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Results</CardTitle>
+          <CardDescription>
+            {result.symbol} · {result.snapshots} snapshots
+            {result.from && result.to && ` · ${formatTime(result.from)} – ${formatTime(result.to)}`}
+            {' · '}{PRICING_LABELS[result.params.pricing]} pricing
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <Stat label="Total P&L" value={formatCurrency(stats.totalPnl)} tone={stats.totalPnl >= 0 ? 'positive' : 'negative'} />
+            <Stat label="Trades" value={`${stats.trades} (${stats.wins}W / ${stats.losses}L)`} />
+            <Stat label="Win Rate" value={`${stats.winRate.toFixed(1)}%`} />
+            <Stat label="Profit Factor" value={stats.profitFactor === null ? (stats.wins > 0 ? '∞' : '—') : stats.profitFactor.toFixed(2)} />
+            <Stat label="Average P&L" value={formatCurrency(stats.averagePnl)} tone={stats.averagePnl >= 0 ? 'positive' : 'negative'} />
+            <Stat label="Max Drawdown" value={`${formatCurrency(stats.maxDrawdown)} (${stats.maxDrawdownPct.toFixed(1)}%)`} tone={stats.maxDrawdown > 0 ? 'negative' : undefined} />
+            <Stat label="Starting Capital" value={formatCurrency(result.config.startingCapital)} />
+            <Stat label="Final Equity" value={formatCurrency(stats.finalEquity)} />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Equity Curve</CardTitle>
+          <CardDescription>Realized P&L plus open positions marked at each snapshot</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={equityData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                <XAxis dataKey="label" tick={{ fontSize: 11 }} minTickGap={40} />
+                <YAxis tick={{ fontSize: 11 }} domain={['auto', 'auto']} tickFormatter={(value: number) => `$${Math.round(value)}`} />
+                <Tooltip formatter={(value: number) => formatCurrency(value)} />
+                <ReferenceLine y={result.config.startingCapital} stroke="#9ca3af" strokeDasharray="4 4" />
+                <Line type="monotone" dataKey="equity" name="Equity" stroke="#2563eb" dot={false} strokeWidth={2} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </CardContent>
+      </Card>
+
+      {tradeData.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>P&L per Trade</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="h-56">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={tradeData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                  <XAxis dataKey="id" tick={{ fontSize: 11 }} />
+                  <YAxis tick={{ fontSize: 11 }} tickFormatter={(value: number) => `$${Math.round(value)}`} />
+                  <Tooltip formatter={(value: number) => formatCurrency(value)} />
+                  <ReferenceLine y={0} stroke="#9ca3af" />
+                  <Bar dataKey="pnl" name="P&L">
+                    {tradeData.map(trade => (
+                      <Cell key={trade.id} fill={trade.pnl >= 0 ? '#16a34a' : '#dc2626'} />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Trade Log</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {result.trades.length === 0 ? (
+            <div className="text-sm text-gray-500">
+              No recommendation passed the screener in any snapshot. Try loosening the filters.
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500 border-b">
+                    <th className="py-2 pr-3">#</th>
+                    <th className="py-2 pr-3">Strategy</th>
+                    <th className="py-2 pr-3">Legs</th>
+                    <th className="py-2 pr-3">Expiration</th>
+                    <th className="py-2 pr-3">Entry</th>
+                    <th className="py-2 pr-3 text-right">Credit</th>
+                    <th className="py-2 pr-3">Exit</th>
+                    <th className="py-2 pr-3 text-right">Close Cost</th>
+                    <th className="py-2 pr-3">Reason</th>
+                    <th className="py-2 text-right">P&L</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.trades.map(trade => (
+                    <tr key={trade.id} className="border-b last:border-0">
+                      <td className="py-2 pr-3">{trade.id}</td>
+                      <td className="py-2 pr-3">{STRATEGY_LABELS[trade.strategy]}</td>
+                      <td className="py-2 pr-3 font-mono text-xs">{describeLegs(trade)}</td>
+                      <td className="py-2 pr-3">{trade.expiration}</td>
+                      <td className="py-2 pr-3">
+                        {formatTime(trade.entryTime)}
+                        <div className="text-xs text-gray-500">@ {formatCurrency(trade.entrySpot)}</div>
+                      </td>
+                      <td className="py-2 pr-3 text-right">{formatCurrency(trade.entryCredit)}</td>
+                      <td className="py-2 pr-3">
+                        {trade.exitTime ? formatTime(trade.exitTime) : '—'}
+                        {trade.exitSpot !== null && <div className="text-xs text-gray-500">@ {formatCurrency(trade.exitSpot)}</div>}
+                      </td>
+                      <td className="py-2 pr-3 text-right">{trade.exitCost === null ? '—' : formatCurrency(trade.exitCost)}</td>
+                      <td className="py-2 pr-3">
+                        {trade.exitReason && <Badge variant="outline">{EXIT_LABELS[trade.exitReason]}</Badge>}
+                      </td>
+                      <td className={`py-2 text-right font-medium ${trade.pnl >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {formatCurrency(trade.pnl)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
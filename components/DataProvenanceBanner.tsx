@@ -0,0 +1,56 @@
+'use client'
+
+import { useState } from 'react'
+import type { Provenance } from '@/lib/provenance'
+import { AlertTriangle, Clock } from 'lucide-react'
+
+interface DataProvenanceBannerProps {
+  provenance?: Provenance
+  // What the fallback stands in for, e.g. "options data"
+  subject: string
+}
+
+// Warns when a panel is showing demo/static data or data older than its freshness limit
+export default function DataProvenanceBanner({ provenance, subject }: DataProvenanceBannerProps) {
+  const [showErrors, setShowErrors] = useState(false)
+
+  if (!provenance || (!provenance.isFallback && !provenance.isStale)) return null
+
+  const asOf = new Date(provenance.asOf)
+
+  return (
+    <div
+      className={`p-3 rounded-lg border text-sm space-y-1 ${
+        provenance.isFallback ? 'bg-red-50 border-red-200 text-red-700' : 'bg-yellow-50 border-yellow-200 text-yellow-800'
+      }`}
+    >
+      <div className="flex items-center gap-2 font-medium">
+        {provenance.isFallback ? <AlertTriangle className="h-4 w-4" /> : <Clock className="h-4 w-4" />}
+        {provenance.isFallback
+          ? `Demo data: live ${subject} is unavailable (source: ${provenance.source})`
+          : `Stale data: ${subject} as of ${asOf.toLocaleString()}`}
+      </div>
+      {provenance.isFallback && (
+        <div className="text-xs">
+          These figures are placeholders and must not be used to size or log trades.
+        </div>
+      )}
+      {provenance.errors.length > 0 && (
+        <div className="text-xs">
+          <button onClick={() => setShowErrors(!showErrors)} className="underline">
+            {showErrors ? 'Hide' : 'Show'} provider errors ({provenance.errors.length})
+          </button>
+          {showErrors && (
+            <ul className="mt-1 space-y-0.5">
+              {provenance.errors.map((error, index) => (
+                <li key={index}>
+                  <span className="font-medium">{error.provider}:</span> {error.message}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,9 +1,13 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
-import { RefreshCw, Calendar, TrendingUp, AlertTriangle, Building, DollarSign } from 'lucide-react'
+import { RefreshCw, Calendar, TrendingUp, AlertTriangle, Building, DollarSign, Clock } from 'lucide-react'
+import { getSymbolProfile } from '@/lib/symbols'
+import { addDays, daysBetween, toEasternTime } from '@/lib/marketCalendar'
+import DataProvenanceBanner from '@/components/DataProvenanceBanner'
+import type { Provenance } from '@/lib/provenance'
 
 interface EconomicEvent {
   date: string
@@ -48,22 +52,29 @@ const CATEGORY_ICONS = {
   'Economic Growth': Building,
   'Employment': Building,
   'Consumer Data': Building,
-  'Economic Data': AlertTriangle
+  'Economic Data': AlertTriangle,
+  'Market Hours': Clock
 } as const
 
-export default function EconomicCalendar() {
+interface EconomicCalendarProps {
+  symbol: string
+}
+
+export default function EconomicCalendar({ symbol }: EconomicCalendarProps) {
   const [data, setData] = useState<CalendarData | null>(null)
+  const [provenance, setProvenance] = useState<Provenance>()
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
-  const fetchData = async () => {
+  const fetchData = useCallback(async () => {
     try {
       setLoading(true)
-      const response = await fetch('/api/economic-calendar')
+      const response = await fetch(`/api/economic-calendar?symbol=${symbol}`)
       const result = await response.json()
       
       if (result.success) {
         setData(result.data)
+        setProvenance(result.provenance)
         setError(null)
       } else {
         setError('Failed to fetch economic calendar')
@@ -73,27 +84,29 @@ export default function EconomicCalendar() {
     } finally {
       setLoading(false)
     }
-  }
+  }, [symbol])
 
   useEffect(() => {
     fetchData()
     // Update every 4 hours
     const interval = setInterval(fetchData, 4 * 60 * 60 * 1000)
     return () => clearInterval(interval)
-  }, [])
+  }, [fetchData])
+
+  // Event dates are New York calendar days, so compare them with today in New York
+  const toDay = (dateString: string) => dateString.split(' ')[0].split('T')[0]
 
   const formatDate = (dateString: string) => {
-    const date = new Date(dateString)
-    const today = new Date()
-    const tomorrow = new Date(today)
-    tomorrow.setDate(today.getDate() + 1)
+    const day = toDay(dateString)
+    const today = toEasternTime(new Date()).date
 
-    if (date.toDateString() === today.toDateString()) {
+    if (day === today) {
       return 'Today'
-    } else if (date.toDateString() === tomorrow.toDateString()) {
+    } else if (day === addDays(today, 1)) {
       return 'Tomorrow'
     } else {
-      return date.toLocaleDateString('en-US', { 
+      return new Date(`${day}T00:00:00Z`).toLocaleDateString('en-US', {
+        timeZone: 'UTC',
         month: 'short', 
         day: 'numeric',
         weekday: 'short'
@@ -102,11 +115,7 @@ export default function EconomicCalendar() {
   }
 
   const getDaysUntil = (dateString: string) => {
-    const eventDate = new Date(dateString)
-    const today = new Date()
-    const diffTime = eventDate.getTime() - today.getTime()
-    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24))
-    return diffDays
+    return daysBetween(toEasternTime(new Date()).date, toDay(dateString))
   }
 
   if (loading && !data) {
@@ -147,7 +156,7 @@ export default function EconomicCalendar() {
       date: event.date,
       event: `${event.symbol} Earnings`,
       importance: event.importance,
-      description: `Tesla Q${Math.ceil(new Date(event.date).getMonth() / 3)} earnings ${event.time === 'bmo' ? 'before market open' : 'after market close'}`,
+      description: `${getSymbolProfile(event.symbol).name} Q${Math.ceil(new Date(event.date).getMonth() / 3)} earnings ${event.time === 'bmo' ? 'before market open' : 'after market close'}`,
       category: 'Earnings',
       type: 'earnings' as const,
       symbol: event.symbol,
@@ -178,7 +187,8 @@ export default function EconomicCalendar() {
         </div>
       </CardHeader>
 
-      <CardContent>
+      <CardContent className="space-y-3">
+        <DataProvenanceBanner provenance={provenance} subject="calendar data" />
         <div className="space-y-3">
           {allEvents.slice(0, 10).map((event, index) => {
             const CategoryIcon = CATEGORY_ICONS[event.category as keyof typeof CATEGORY_ICONS] || AlertTriangle
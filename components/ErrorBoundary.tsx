@@ -65,7 +65,7 @@ class ErrorBoundary extends Component<Props, State> {
               </div>
               <CardTitle className="text-red-800">Something went wrong</CardTitle>
               <CardDescription>
-                We encountered an unexpected error. This has been logged and we'll look into it.
+                We encountered an unexpected error. This has been logged and we&apos;ll look into it.
               </CardDescription>
             </CardHeader>
             
@@ -0,0 +1,32 @@
+'use client'
+
+import { Badge } from '@/components/ui/badge'
+import type { MarketEvent } from '@/lib/eventCalendar'
+import { CalendarClock } from 'lucide-react'
+
+const KIND_LABELS: Record<MarketEvent['kind'], string> = {
+  fomc: 'FOMC',
+  cpi: 'CPI',
+  nfp: 'NFP',
+  earnings: 'Earnings'
+}
+
+// Flags positions whose expiration spans high-impact events; earnings show in red
+export default function EventRiskBadge({ events }: { events: MarketEvent[] }) {
+  if (events.length === 0) return null
+
+  const hasEarnings = events.some(event => event.kind === 'earnings')
+  const title = events.map(event => `${event.date}: ${event.name}`).join('\n')
+
+  return (
+    <Badge variant={hasEarnings ? 'destructive' : 'warning'} className="text-xs" title={title}>
+      <CalendarClock className="h-3 w-3 mr-1" />
+      Event Risk
+    </Badge>
+  )
+}
+
+// Short summary such as "CPI 10-15, Earnings 10-23"
+export function formatEvents(events: MarketEvent[]): string {
+  return events.map(event => `${KIND_LABELS[event.kind]} ${event.date.slice(5)}`).join(', ')
+}
@@ -0,0 +1,43 @@
+'use client'
+
+import { formatCurrency } from '@/lib/utils'
+import type { ExpectedMove } from '@/lib/expectedMove'
+
+interface ExpectedMoveBandProps {
+  currentPrice: number
+  expectedMoves: ExpectedMove[]
+}
+
+// Expected range per expiration as a band around spot; every band shares one scale so they compare
+export default function ExpectedMoveBand({ currentPrice, expectedMoves }: ExpectedMoveBandProps) {
+  if (expectedMoves.length === 0) return null
+
+  // Half the track, in dollars, leaving some room past the widest band
+  const halfRange = Math.max(...expectedMoves.map(move => move.move)) * 1.25
+
+  return (
+    <div className="mt-4 space-y-3">
+      <div className="text-sm font-medium text-gray-700">Expected Range (ATM straddle)</div>
+      {expectedMoves.map(move => {
+        const halfWidth = (move.move / halfRange) * 50
+        return (
+          <div key={move.expiration} className="space-y-1">
+            <div className="flex justify-between text-xs text-gray-600">
+              <span>{move.expiration} · {move.daysToExpiration}d</span>
+              <span>
+                {formatCurrency(move.lower)} – {formatCurrency(move.upper)} (±{((move.move / currentPrice) * 100).toFixed(1)}%)
+              </span>
+            </div>
+            <div className="relative h-2 bg-gray-200 rounded-full">
+              <div
+                className="absolute h-2 bg-blue-300 rounded-full"
+                style={{ left: `${50 - halfWidth}%`, width: `${halfWidth * 2}%` }}
+              />
+              <div className="absolute -top-0.5 h-3 w-0.5 bg-blue-700 left-1/2" />
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,82 @@
+'use client'
+
+import { Badge } from '@/components/ui/badge'
+import { formatCurrency, formatPercentage } from '@/lib/utils'
+import { STRATEGY_LABELS } from '@/lib/screener'
+import {
+  DROP_LABELS,
+  FILTER_LABELS,
+  type DropStage,
+  type FilterFunnel,
+  type FilterId
+} from '@/lib/strategies/filters'
+import { Filter } from 'lucide-react'
+
+interface FilterFunnelPanelProps {
+  funnel: FilterFunnel
+}
+
+// Where the screener's candidates went: expirations in the DTE window, each strategy's
+// dropped while building → built → cut per filter → passed counts, and the closest rejected candidates
+export default function FilterFunnelPanel({ funnel }: FilterFunnelPanelProps) {
+  return (
+    <div className="text-left space-y-4 text-sm">
+      <div className="flex items-center gap-2 text-gray-600">
+        <Filter className="h-4 w-4" />
+        {funnel.expirations.listed} expirations listed → {funnel.expirations.inWindow} in the DTE window
+      </div>
+
+      <div className="space-y-1.5">
+        {funnel.strategies.map(stage => (
+          <div key={stage.strategy} className="flex flex-wrap items-center gap-1.5">
+            <span className="font-medium w-40">{STRATEGY_LABELS[stage.strategy]}</span>
+            {stage.skipped ? (
+              <span className="text-gray-400">{stage.skipped}</span>
+            ) : (
+              <>
+                {(Object.keys(stage.dropped) as DropStage[]).map(dropStage => (
+                  <Badge key={dropStage} variant="outline" className="text-xs text-gray-500">
+                    −{stage.dropped[dropStage]} {DROP_LABELS[dropStage]}
+                  </Badge>
+                ))}
+                <span>{stage.built} built</span>
+                {(Object.keys(stage.rejected) as FilterId[]).map(filter => (
+                  <Badge key={filter} variant="outline" className="text-xs">
+                    −{stage.rejected[filter]} {FILTER_LABELS[filter]}
+                  </Badge>
+                ))}
+                <span>→ {stage.passed} passed</span>
+                {stage.returned < stage.passed && (
+                  <span className="text-gray-500">({stage.returned} shown)</span>
+                )}
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {funnel.nearMisses.length > 0 && (
+        <div className="space-y-1.5">
+          <div className="font-medium">Near misses</div>
+          {funnel.nearMisses.map((miss, index) => (
+            <div key={index} className="border rounded p-2">
+              <div className="flex flex-wrap justify-between gap-2">
+                <span>
+                  {STRATEGY_LABELS[miss.strategy]} · {miss.expiration} · {miss.legs}
+                </span>
+                <span className="text-gray-500">
+                  {miss.netCredit >= 0 ? 'Credit' : 'Debit'} {formatCurrency(Math.abs(miss.netCredit))}
+                  {' · '}PoP {formatPercentage(miss.probOfProfit)}
+                  {' · '}R:R 1:{miss.riskRewardRatio.toFixed(2)}
+                </span>
+              </div>
+              <div className="text-orange-600">
+                {FILTER_LABELS[miss.filter]}: {miss.reason}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,55 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Badge } from '@/components/ui/badge'
+import type { IVRegime, IVStats } from '@/lib/ivHistory'
+import { Activity } from 'lucide-react'
+
+interface IVRegimeIndicatorProps {
+  symbol: string
+}
+
+const REGIME_STYLES: Record<IVRegime, { label: string; variant: 'success' | 'warning' | 'info' | 'outline' }> = {
+  elevated: { label: 'IV Elevated', variant: 'success' },
+  normal: { label: 'IV Normal', variant: 'info' },
+  low: { label: 'IV Low', variant: 'warning' },
+  unknown: { label: 'IV Rank n/a', variant: 'outline' }
+}
+
+// Header badge showing where the symbol's ATM IV sits in its 52-week range
+export default function IVRegimeIndicator({ symbol }: IVRegimeIndicatorProps) {
+  const [stats, setStats] = useState<IVStats | null>(null)
+
+  const fetchStats = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/iv-rank?symbol=${symbol}`)
+      const result = await response.json()
+      setStats(result.success ? result.data : null)
+    } catch (error) {
+      console.error('Error fetching IV rank:', error)
+    }
+  }, [symbol])
+
+  useEffect(() => {
+    setStats(null)
+    fetchStats()
+    const interval = setInterval(fetchStats, 5 * 60 * 1000) // Update every 5 minutes
+    return () => clearInterval(interval)
+  }, [fetchStats])
+
+  if (!stats) return null
+
+  const { label, variant } = REGIME_STYLES[stats.regime]
+  const title = stats.ivRank === null
+    ? `${stats.sampleCount} day(s) of IV history; rank needs more`
+    : `ATM IV ${(stats.current! * 100).toFixed(1)}% · 52-wk range ${(stats.low! * 100).toFixed(1)}–${(stats.high! * 100).toFixed(1)}% · ` +
+      `IV percentile ${stats.ivPercentile!.toFixed(0)}`
+
+  return (
+    <Badge variant={variant} className="text-sm" title={title}>
+      <Activity className="h-3 w-3 mr-1" />
+      {label}
+      {stats.ivRank !== null && ` · IVR ${Math.round(stats.ivRank)}`}
+    </Badge>
+  )
+}
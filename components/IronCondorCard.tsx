@@ -0,0 +1,157 @@
+'use client'
+
+import { Card, CardContent, CardHeader } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import EventRiskBadge, { formatEvents } from '@/components/EventRiskBadge'
+import LiquidityBadge from '@/components/LiquidityBadge'
+import MonteCarloPanel from '@/components/MonteCarloPanel'
+import NetPricesRow from '@/components/NetPricesRow'
+import PayoffChart from '@/components/PayoffChart'
+import PayoffToggle from '@/components/PayoffToggle'
+import ScoreBreakdownPanel from '@/components/ScoreBreakdownPanel'
+import { formatCurrency, formatPercentage } from '@/lib/utils'
+import { PRICING_LABELS } from '@/lib/screener'
+import type { IronCondorRecommendation, VerticalSpreadRecommendation } from '@/lib/types'
+import { TrendingUp, TrendingDown, ArrowLeftRight } from 'lucide-react'
+
+interface IronCondorCardProps {
+  condor: IronCondorRecommendation
+  currentPrice: number
+}
+
+function WingSummary({ label, spread }: { label: string; spread: VerticalSpreadRecommendation }) {
+  const isCall = spread.strategy === 'bear_call'
+
+  return (
+    <div className={`p-2 rounded-lg border ${isCall ? 'border-red-200 bg-red-50' : 'border-green-200 bg-green-50'}`}>
+      <div className={`flex items-center gap-1 text-xs font-medium mb-1 ${isCall ? 'text-red-700' : 'text-green-700'}`}>
+        {isCall ? <TrendingDown className="h-3 w-3" /> : <TrendingUp className="h-3 w-3" />}
+        {label}
+      </div>
+      <div className="text-sm font-medium">
+        ${spread.shortStrike}/${spread.longStrike}
+      </div>
+      <div className="text-xs text-gray-600">
+        {formatCurrency(spread.netCredit)} credit · {formatCurrency(spread.width)} wide
+      </div>
+    </div>
+  )
+}
+
+export default function IronCondorCard({ condor, currentPrice }: IronCondorCardProps) {
+  return (
+    <Card className="border-2">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <Badge variant="info" className="text-xs">
+            <ArrowLeftRight className="h-3 w-3 mr-1" />
+            Iron Condor
+          </Badge>
+          <div className="flex items-center gap-1">
+            <EventRiskBadge events={condor.events} />
+            <LiquidityBadge score={condor.liquidityScore} legs={condor.legs} />
+            <Badge variant="outline" title="Calendar days · trading days to expiration">
+              {condor.daysToExpiration}d · {condor.tradingDaysToExpiration}td
+            </Badge>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="grid grid-cols-2 gap-2">
+          <WingSummary label="Put Wing" spread={condor.putSpread} />
+          <WingSummary label="Call Wing" spread={condor.callSpread} />
+        </div>
+
+        <div className="flex justify-between text-sm">
+          <span className="text-gray-600">Expiration:</span>
+          <span className="font-medium">{condor.expiration}</span>
+        </div>
+
+        <div className="border-t pt-3 space-y-2">
+          <div className="flex justify-between text-sm">
+            <span className="text-gray-600">Total Credit ({PRICING_LABELS[condor.pricing]}):</span>
+            <span className="font-medium text-green-600">
+              {formatCurrency(condor.netCredit)}
+            </span>
+          </div>
+          <NetPricesRow netPrices={condor.netPrices} pricing={condor.pricing} />
+          <div className="flex justify-between text-sm">
+            <span className="text-gray-600">Max Loss:</span>
+            <span className="font-medium text-red-600">
+              {formatCurrency(condor.maxLoss ?? 0)}
+            </span>
+          </div>
+          <div className="flex justify-between text-sm">
+            <span className="text-gray-600">Breakevens:</span>
+            <span className="font-medium">
+              ${condor.lowerBreakeven.toFixed(2)} – ${condor.upperBreakeven.toFixed(2)}
+            </span>
+          </div>
+          {condor.events.length > 0 && (
+            <div className="flex justify-between text-sm">
+              <span className="text-gray-600">Events Before Expiry:</span>
+              <span className="font-medium text-orange-600">{formatEvents(condor.events)}</span>
+            </div>
+          )}
+          {condor.strikePlacement && (
+            <div className="flex justify-between text-sm">
+              <span className="text-gray-600">Short Strike Distance:</span>
+              <span className="font-medium">
+                {condor.strikePlacement.expectedMoves.toFixed(2)}x EM · {condor.strikePlacement.standardDeviations.toFixed(2)} SD
+              </span>
+            </div>
+          )}
+        </div>
+
+        <div className="border-t pt-3 space-y-2">
+          <div className="flex justify-between text-sm">
+            <span className="text-gray-600">Prob. in Range:</span>
+            <span className="font-medium">
+              {formatPercentage(condor.probOfProfit)}
+            </span>
+          </div>
+          <div className="flex justify-between text-sm">
+            <span className="text-gray-600">Prob. Max Loss:</span>
+            <span className="font-medium text-red-600">
+              {formatPercentage(condor.probMaxLoss)}
+            </span>
+          </div>
+          <div className="flex justify-between text-sm">
+            <span className="text-gray-600">Expected Value:</span>
+            <span className={`font-medium ${condor.expectedValue >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+              {formatCurrency(condor.expectedValue)}
+            </span>
+          </div>
+          <div className="flex justify-between text-sm">
+            <span className="text-gray-600">Risk/Reward:</span>
+            <span className="font-medium">
+              1:{condor.riskRewardRatio.toFixed(2)}
+            </span>
+          </div>
+        </div>
+
+        <div className="border-t pt-3 space-y-2">
+          <div className="flex justify-between text-sm">
+            <span className="text-gray-600">Net Delta:</span>
+            <span className="font-medium">
+              {condor.netGreeks.delta.toFixed(3)}
+            </span>
+          </div>
+          <div className="flex justify-between text-sm">
+            <span className="text-gray-600">Net Theta:</span>
+            <span className={`font-medium ${condor.netGreeks.theta >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+              {formatCurrency(condor.netGreeks.theta)}/day
+            </span>
+          </div>
+        </div>
+
+        {condor.score && <ScoreBreakdownPanel score={condor.score} />}
+
+        <PayoffToggle>
+          <PayoffChart legs={condor.legs} currentPrice={currentPrice} />
+          <MonteCarloPanel legs={condor.legs} currentPrice={currentPrice} />
+        </PayoffToggle>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,32 @@
+'use client'
+
+import { Badge } from '@/components/ui/badge'
+import { liquidityRating } from '@/lib/liquidity'
+import type { OptionLeg } from '@/lib/types'
+import { Droplets } from 'lucide-react'
+
+interface LiquidityBadgeProps {
+  score: number
+  legs: OptionLeg[]
+}
+
+const RATING_VARIANTS = {
+  high: 'success',
+  medium: 'warning',
+  low: 'destructive'
+} as const
+
+// Position liquidity score, with each leg's market width, OI and volume on hover
+export default function LiquidityBadge({ score, legs }: LiquidityBadgeProps) {
+  const title = legs.map(leg =>
+    `${leg.action === 'sell' ? 'Sell' : 'Buy'} $${leg.strike} ${leg.type}: ` +
+    `${leg.liquidity.bidAskPct.toFixed(0)}% wide, OI ${leg.liquidity.openInterest}, vol ${leg.liquidity.volume}`
+  ).join('\n')
+
+  return (
+    <Badge variant={RATING_VARIANTS[liquidityRating(score)]} className="text-xs" title={title}>
+      <Droplets className="h-3 w-3 mr-1" />
+      Liq {Math.round(score)}
+    </Badge>
+  )
+}
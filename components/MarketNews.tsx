@@ -1,9 +1,11 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { getRelativeTime, getImpactColor } from '@/lib/utils'
+import DataProvenanceBanner from '@/components/DataProvenanceBanner'
+import type { Provenance } from '@/lib/provenance'
 import { ExternalLink, RefreshCw, AlertTriangle, Filter, Clock, TrendingUp } from 'lucide-react'
 
 interface NewsItem {
@@ -28,21 +30,27 @@ const IMPACT_ICONS = {
   low: Clock
 }
 
-export default function MarketNews() {
+interface MarketNewsProps {
+  symbol: string
+}
+
+export default function MarketNews({ symbol }: MarketNewsProps) {
   const [data, setData] = useState<NewsData | null>(null)
+  const [provenance, setProvenance] = useState<Provenance>()
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [filter, setFilter] = useState<'all' | 'high' | 'medium' | 'low'>('all')
   const [categoryFilter, setCategoryFilter] = useState<string>('all')
 
-  const fetchData = async () => {
+  const fetchData = useCallback(async () => {
     try {
       setLoading(true)
-      const response = await fetch('/api/market-news')
+      const response = await fetch(`/api/market-news?symbol=${symbol}`)
       const result = await response.json()
       
       if (result.success) {
         setData(result.data)
+        setProvenance(result.provenance)
         setError(null)
       } else {
         setError('Failed to fetch market news')
@@ -52,13 +60,13 @@ export default function MarketNews() {
     } finally {
       setLoading(false)
     }
-  }
+  }, [symbol])
 
   useEffect(() => {
     fetchData()
     const interval = setInterval(fetchData, 60000) // Update every minute
     return () => clearInterval(interval)
-  }, [])
+  }, [fetchData])
 
   const filteredNews = data?.news.filter(item => {
     const impactMatch = filter === 'all' || item.impact === filter
@@ -104,7 +112,7 @@ export default function MarketNews() {
           <div>
             <CardTitle>Market-Moving News</CardTitle>
             <CardDescription>
-              Real-time updates on events that impact TSLA and broader markets
+              Real-time updates on events that impact {symbol} and broader markets
             </CardDescription>
           </div>
           <button
@@ -149,7 +157,8 @@ export default function MarketNews() {
         </div>
       </CardHeader>
 
-      <CardContent>
+      <CardContent className="space-y-4">
+        <DataProvenanceBanner provenance={provenance} subject="news" />
         <div className="space-y-4">
           {filteredNews.map((item, index) => {
             const ImpactIcon = IMPACT_ICONS[item.impact]
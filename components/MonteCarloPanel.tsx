@@ -0,0 +1,171 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Bar, BarChart, CartesianGrid, Cell, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts'
+import { formatCurrency, formatPercentage } from '@/lib/utils'
+import type { PayoffLeg } from '@/lib/payoff'
+import type { SimulationResult } from '@/lib/monteCarlo'
+import { RefreshCw } from 'lucide-react'
+
+interface MonteCarloPanelProps {
+  legs: PayoffLeg[]
+  currentPrice: number
+}
+
+// Jumps per year when the jump setting is on; sizes use the API defaults
+const JUMP_INTENSITY = 4
+// Simulations are heavy, so wait for settings to stop changing before running one
+const SIMULATION_DEBOUNCE_MS = 500
+
+function randomSeed(): string {
+  return String(Math.floor(Math.random() * 1000000000))
+}
+
+// Simulated P&L distribution at expiration, as a histogram with tail statistics
+export default function MonteCarloPanel({ legs, currentPrice }: MonteCarloPanelProps) {
+  const [result, setResult] = useState<SimulationResult | null>(null)
+  const [fatTails, setFatTails] = useState(false)
+  const [jumps, setJumps] = useState(false)
+  const [profitTargetPct, setProfitTargetPct] = useState(50)
+  const [seed, setSeed] = useState(randomSeed)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Compare legs by value; callers may rebuild the array on every render
+  const legsKey = JSON.stringify(legs)
+  // Spot to three significant figures, so routine quote polls don't re-run the simulation
+  const spot = Number(currentPrice.toPrecision(3))
+
+  // Re-runs whenever a setting changes, keeping the seed so runs stay comparable
+  const simulate = useCallback(async (signal: AbortSignal) => {
+    try {
+      setLoading(true)
+      const response = await fetch('/api/monte-carlo', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        signal,
+        body: JSON.stringify({
+          legs: JSON.parse(legsKey),
+          spot,
+          seed: seed.trim() === '' ? undefined : Number(seed),
+          fatTails,
+          jumpIntensity: jumps ? JUMP_INTENSITY : 0,
+          profitTargetPct
+        })
+      })
+      const data = await response.json()
+      if (signal.aborted) return
+
+      if (data.success) {
+        setResult(data.data)
+        setError(null)
+      } else {
+        setError(data.details?.map((detail: { param: string; message: string }) => `${detail.param} ${detail.message}`).join('; ') || data.error)
+      }
+    } catch (err) {
+      if (!signal.aborted) setError('Network error occurred')
+    } finally {
+      if (!signal.aborted) setLoading(false)
+    }
+  }, [legsKey, spot, seed, fatTails, jumps, profitTargetPct])
+
+  // A newer run supersedes a pending or in-flight one
+  useEffect(() => {
+    const controller = new AbortController()
+    const timer = setTimeout(() => simulate(controller.signal), SIMULATION_DEBOUNCE_MS)
+    return () => {
+      clearTimeout(timer)
+      controller.abort()
+    }
+  }, [simulate])
+
+  const bins = result
+    ? result.histogram.map(bin => ({ mid: (bin.from + bin.to) / 2, count: bin.count, label: `${formatCurrency(bin.from)} to ${formatCurrency(bin.to)}` }))
+    : []
+
+  return (
+    <div className="space-y-2 border-t pt-3">
+      <div className="flex flex-wrap items-center gap-3 text-xs text-gray-600">
+        <span className="font-medium text-gray-800">Simulated P&L</span>
+        <label className="flex items-center gap-1">
+          <input type="checkbox" checked={fatTails} onChange={(e) => setFatTails(e.target.checked)} />
+          Fat tails
+        </label>
+        <label className="flex items-center gap-1">
+          <input type="checkbox" checked={jumps} onChange={(e) => setJumps(e.target.checked)} />
+          Jumps
+        </label>
+        <label className="flex items-center gap-1">
+          Target
+          <input
+            type="number"
+            min={1}
+            max={100}
+            step={5}
+            value={profitTargetPct}
+            onChange={(e) => setProfitTargetPct(parseFloat(e.target.value))}
+            className="w-14 px-1 py-0.5 border rounded"
+          />
+          %
+        </label>
+        <label className="flex items-center gap-1">
+          Seed
+          <input
+            type="text"
+            value={seed}
+            onChange={(e) => setSeed(e.target.value)}
+            className="w-24 px-1 py-0.5 border rounded"
+          />
+        </label>
+        <button
+          onClick={() => setSeed(randomSeed())}
+          disabled={loading}
+          className="p-1 hover:bg-gray-100 rounded-full transition-colors"
+          aria-label="Resample with a new seed"
+        >
+          <RefreshCw className={`h-3 w-3 ${loading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      {error && <div className="text-xs text-red-600">{error}</div>}
+
+      {result && (
+        <>
+          <div className="h-40">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={bins} barCategoryGap={1}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                <XAxis dataKey="mid" tick={{ fontSize: 10 }} tickFormatter={(value: number) => `$${value.toFixed(2)}`} />
+                <YAxis tick={{ fontSize: 10 }} width={36} />
+                <Tooltip
+                  formatter={(value: number) => [`${value} paths`, 'Count']}
+                  labelFormatter={(_: unknown, payload: any[]) => payload?.[0]?.payload.label ?? ''}
+                />
+                <Bar dataKey="count">
+                  {bins.map((bin, index) => (
+                    <Cell key={index} fill={bin.mid >= 0 ? '#16a34a' : '#dc2626'} />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+          <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+            <div className="flex justify-between"><span className="text-gray-600">Prob. of Profit:</span><span className="font-medium">{formatPercentage(result.probOfProfit)}</span></div>
+            <div className="flex justify-between"><span className="text-gray-600">Mean P&L:</span><span className="font-medium">{formatCurrency(result.mean)}</span></div>
+            <div className="flex justify-between"><span className="text-gray-600">5th / 50th / 95th:</span><span className="font-medium">{formatCurrency(result.percentiles.p5)} / {formatCurrency(result.percentiles.p50)} / {formatCurrency(result.percentiles.p95)}</span></div>
+            <div className="flex justify-between"><span className="text-gray-600">CVaR 95%:</span><span className="font-medium text-red-600">{formatCurrency(result.cvar95)}</span></div>
+            {result.probProfitTarget !== null && (
+              <div className="flex justify-between col-span-2">
+                <span className="text-gray-600">Hits {profitTargetPct}% of max profit by expiry:</span>
+                <span className="font-medium">{formatPercentage(result.probProfitTarget)}</span>
+              </div>
+            )}
+          </div>
+          <div className="text-[10px] text-gray-400">
+            {result.paths.toLocaleString()} paths · {(result.volatility * 100).toFixed(1)}% IV · seed {result.seed}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,23 @@
+'use client'
+
+import { formatCurrency } from '@/lib/utils'
+import { PRICING_LABELS, PRICING_MODES, type PricingMode } from '@/lib/screener'
+import type { NetPrices } from '@/lib/types'
+
+interface NetPricesRowProps {
+  netPrices: NetPrices
+  pricing: PricingMode
+}
+
+// Net credit at every pricing mode, highlighting the one the card's figures use
+export default function NetPricesRow({ netPrices, pricing }: NetPricesRowProps) {
+  return (
+    <div className="flex justify-between text-xs text-gray-500">
+      {PRICING_MODES.map(mode => (
+        <span key={mode} className={mode === pricing ? 'font-semibold text-gray-800' : ''}>
+          {PRICING_LABELS[mode]}: {netPrices[mode] < 0 ? '-' : ''}{formatCurrency(Math.abs(netPrices[mode]))}
+        </span>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,323 @@
+'use client'
+
+import { Fragment, useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import DataProvenanceBanner from '@/components/DataProvenanceBanner'
+import StrategyCard from '@/components/StrategyCard'
+import { formatCurrency } from '@/lib/utils'
+import { useMarketPolling } from '@/lib/websocket'
+import { buildVerticalSpread } from '@/lib/strategies/verticals'
+import type { ChainQuote, ChainView } from '@/lib/optionChain'
+import type { PricingMode } from '@/lib/screener'
+import type { Provenance } from '@/lib/provenance'
+import type { VerticalStrategyId } from '@/lib/types'
+import { RefreshCw, AlertTriangle, X } from 'lucide-react'
+
+interface OptionChainTableProps {
+  symbol: string
+  // The screener's pricing, so a custom spread compares with its recommendations
+  pricing: PricingMode
+  slippage: number
+}
+
+// Strikes picked in the table: the first click is the short leg, the second the long leg
+interface SpreadSelection {
+  type: 'call' | 'put'
+  short: number
+  long: number | null
+}
+
+interface ChainRow {
+  strike: number
+  call?: ChainQuote
+  put?: ChainQuote
+}
+
+const QUOTE_COLUMNS = ['Bid', 'Ask', 'Mid', 'IV', 'Delta', 'OI', 'Vol']
+
+function toRows(chain: ChainView): ChainRow[] {
+  const rows: Record<number, ChainRow> = {}
+  chain.calls.forEach(call => { rows[call.strike] = { ...rows[call.strike], strike: call.strike, call } })
+  chain.puts.forEach(put => { rows[put.strike] = { ...rows[put.strike], strike: put.strike, put } })
+  return Object.keys(rows).map(Number).sort((a, b) => a - b).map(strike => rows[strike])
+}
+
+// Which vertical two same-type strikes make, from which one is sold
+function verticalFor(type: 'call' | 'put', short: number, long: number): VerticalStrategyId {
+  if (type === 'call') return short < long ? 'bear_call' : 'bull_call_debit'
+  return short > long ? 'bull_put' : 'bear_put_debit'
+}
+
+interface QuoteCellsProps {
+  quote?: ChainQuote
+  reverse: boolean // puts mirror the calls so both read outward from the strike
+  className?: string
+  onClick?: () => void
+}
+
+function QuoteCells({ quote, reverse, className = '', onClick }: QuoteCellsProps) {
+  const cells = quote
+    ? [
+      quote.bid.toFixed(2),
+      quote.ask.toFixed(2),
+      quote.mid.toFixed(2),
+      `${(quote.impliedVolatility * 100).toFixed(1)}%`,
+      quote.delta.toFixed(2),
+      quote.openInterest.toLocaleString(),
+      quote.volume.toLocaleString()
+    ]
+    : QUOTE_COLUMNS.map(() => '—')
+  return (
+    <>
+      {(reverse ? cells.slice().reverse() : cells).map((cell, index) => (
+        <td key={index} onClick={onClick} className={`px-2 py-1 text-right tabular-nums ${className}`}>{cell}</td>
+      ))}
+    </>
+  )
+}
+
+// Full chain for one expiration, centered on spot, with a click-to-build custom vertical
+export default function OptionChainTable({ symbol, pricing, slippage }: OptionChainTableProps) {
+  const [chain, setChain] = useState<ChainView | null>(null)
+  const [provenance, setProvenance] = useState<Provenance>()
+  const [expiration, setExpiration] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [selection, setSelection] = useState<SpreadSelection | null>(null)
+  const scrollRef = useRef<HTMLDivElement>(null)
+  const spotRowRef = useRef<HTMLTableRowElement>(null)
+
+  const fetchChain = useCallback(async () => {
+    try {
+      setLoading(true)
+      const query = new URLSearchParams({ symbol })
+      if (expiration) query.set('expiration', expiration)
+      const response = await fetch(`/api/tsla-options/chain?${query.toString()}`)
+      const result = await response.json()
+
+      if (result.success) {
+        setChain(result.data)
+        setProvenance(result.provenance)
+        setError(null)
+      } else {
+        setError(result.error || 'Failed to fetch option chain')
+      }
+    } catch (err) {
+      setError('Network error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }, [symbol, expiration])
+
+  // A new symbol starts over at its nearest expiration
+  useEffect(() => {
+    setChain(null)
+    setExpiration('')
+    setSelection(null)
+  }, [symbol])
+
+  useMarketPolling(fetchChain, 30000)
+
+  // Scroll the spot marker to the middle when a different chain loads, not on every refresh
+  const chainKey = chain ? `${chain.symbol}:${chain.expiration}` : ''
+  useEffect(() => {
+    const container = scrollRef.current
+    const spotRow = spotRowRef.current
+    if (!container || !spotRow) return
+    container.scrollTop = spotRow.offsetTop - container.clientHeight / 2
+  }, [chainKey])
+
+  // Price the custom spread the way the screener currently does
+  const customSpread = useMemo(() => {
+    if (!chain || !selection || selection.long === null) return null
+    const quotes = selection.type === 'call' ? chain.calls : chain.puts
+    const shortQuote = quotes.find(quote => quote.strike === selection.short)
+    const longQuote = quotes.find(quote => quote.strike === selection.long)
+    if (!shortQuote || !longQuote) return null
+
+    return buildVerticalSpread(verticalFor(selection.type, selection.short, selection.long), shortQuote, longQuote, {
+      currentPrice: chain.currentPrice,
+      riskFreeRate: chain.riskFreeRate,
+      pricing,
+      slippage,
+      now: new Date()
+    })
+  }, [chain, selection, pricing, slippage])
+
+  const selectExpiration = (value: string) => {
+    setExpiration(value)
+    setSelection(null)
+  }
+
+  const selectStrike = (type: 'call' | 'put', strike: number) => {
+    if (!selection || selection.long !== null || selection.type !== type) {
+      setSelection({ type, short: strike, long: null })
+    } else if (selection.short === strike) {
+      setSelection(null)
+    } else {
+      setSelection({ ...selection, long: strike })
+    }
+  }
+
+  if (loading && !chain) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <RefreshCw className="h-5 w-5 animate-spin" />
+            Loading {symbol} Option Chain...
+          </CardTitle>
+        </CardHeader>
+      </Card>
+    )
+  }
+
+  if (!chain) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-red-600">
+            <AlertTriangle className="h-5 w-5" />
+            Option Chain Unavailable
+          </CardTitle>
+          <CardDescription>{error}</CardDescription>
+        </CardHeader>
+      </Card>
+    )
+  }
+
+  const rows = toRows(chain)
+  const spotIndex = rows.findIndex(row => row.strike >= chain.currentPrice)
+
+  const cellClass = (type: 'call' | 'put', quote?: ChainQuote) => {
+    const picked = selection?.type === type && quote
+      ? (quote.strike === selection.short ? 'ring-2 ring-inset ring-red-500' : quote.strike === selection.long ? 'ring-2 ring-inset ring-green-500' : '')
+      : ''
+    const itm = quote?.inTheMoney ? 'bg-blue-50' : ''
+    return `${itm} ${picked} ${quote ? 'cursor-pointer hover:bg-yellow-50' : ''}`
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span>{chain.symbol} Option Chain</span>
+          <div className="flex items-center gap-2">
+            <select
+              value={chain.expiration}
+              onChange={(e) => selectExpiration(e.target.value)}
+              className="px-3 py-1.5 border rounded-lg text-sm font-normal bg-white"
+              aria-label="Expiration"
+            >
+              {chain.expirations.map(date => (
+                <option key={date} value={date}>{date}</option>
+              ))}
+            </select>
+            <Badge variant="outline" title="Calendar days · trading days to expiration">
+              {chain.daysToExpiration}d · {chain.tradingDaysToExpiration}td
+            </Badge>
+            <button
+              onClick={fetchChain}
+              disabled={loading}
+              className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+            >
+              <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            </button>
+          </div>
+        </CardTitle>
+        <CardDescription>
+          Click a strike to sell it, then another strike of the same type to buy it. Shaded quotes are in the money.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <DataProvenanceBanner provenance={provenance} subject="option chain" />
+        {error && (
+          <div className="flex items-center gap-2 text-xs text-red-600">
+            <AlertTriangle className="h-4 w-4" />
+            Refresh failed, showing the last chain: {error}
+          </div>
+        )}
+
+        <div ref={scrollRef} className="max-h-[480px] overflow-auto border rounded-lg relative">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-gray-500">
+                {QUOTE_COLUMNS.map(column => (
+                  <th key={`call-${column}`} className="sticky top-0 z-10 bg-white border-b px-2 py-2 text-right font-medium">
+                    {column}
+                  </th>
+                ))}
+                <th className="sticky top-0 z-10 bg-gray-100 border-b px-3 py-2 text-center font-semibold text-gray-700">
+                  Calls · Strike · Puts
+                </th>
+                {QUOTE_COLUMNS.slice().reverse().map(column => (
+                  <th key={`put-${column}`} className="sticky top-0 z-10 bg-white border-b px-2 py-2 text-right font-medium">
+                    {column}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row, index) => (
+                <Fragment key={row.strike}>
+                  {index === spotIndex && (
+                    <tr ref={spotRowRef}>
+                      <td colSpan={QUOTE_COLUMNS.length * 2 + 1} className="border-t-2 border-blue-500 text-center text-blue-600 font-medium py-0.5">
+                        Spot {formatCurrency(chain.currentPrice)}
+                      </td>
+                    </tr>
+                  )}
+                  <tr className="border-b last:border-0">
+                    <QuoteCells
+                      quote={row.call}
+                      reverse={false}
+                      className={cellClass('call', row.call)}
+                      onClick={row.call ? () => selectStrike('call', row.strike) : undefined}
+                    />
+                    <td className="px-3 py-1 text-center font-semibold bg-gray-50">{row.strike}</td>
+                    <QuoteCells
+                      quote={row.put}
+                      reverse
+                      className={cellClass('put', row.put)}
+                      onClick={row.put ? () => selectStrike('put', row.strike) : undefined}
+                    />
+                  </tr>
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {selection && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-gray-600">
+                Sell {selection.short} {selection.type}
+                {selection.long === null ? ' · pick the strike to buy' : ` · Buy ${selection.long} ${selection.type}`}
+              </span>
+              <button
+                onClick={() => setSelection(null)}
+                className="flex items-center gap-1 text-gray-500 hover:text-gray-800"
+              >
+                <X className="h-4 w-4" />
+                Clear
+              </button>
+            </div>
+            {selection.long !== null && (customSpread
+              ? (
+                <div className="max-w-sm">
+                  <StrategyCard recommendation={customSpread} currentPrice={chain.currentPrice} />
+                </div>
+              )
+              : (
+                <div className="text-sm text-gray-500">
+                  These quotes leave the spread without a positive profit and loss range.
+                </div>
+              ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,45 +1,74 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { formatCurrency, formatPercentage } from '@/lib/utils'
-import { TrendingUp, TrendingDown, RefreshCw, AlertTriangle } from 'lucide-react'
-
-interface CreditSpreadRecommendation {
-  type: 'call' | 'put'
-  shortStrike: number
-  longStrike: number
-  expiration: string
-  creditReceived: number
-  maxProfit: number
-  maxLoss: number
-  breakeven: number
-  probOfProfit: number
-  riskRewardRatio: number
-  daysToExpiration: number
-}
+import { useMarketPolling } from '@/lib/websocket'
+import {
+  PRICING_LABELS,
+  PRICING_MODES,
+  STRATEGY_LABELS,
+  toQueryString,
+  validateScreenerParams,
+  type ParamError,
+  type PricingMode,
+  type ScreenerParams
+} from '@/lib/screener'
+import type { IronCondorRecommendation, StrategyRecommendation } from '@/lib/types'
+import type { IVStats } from '@/lib/ivHistory'
+import type { ExpectedMove } from '@/lib/expectedMove'
+import type { FilterFunnel } from '@/lib/strategies/filters'
+import ScreenerFilters, { type ScreenerFilterState } from '@/components/ScreenerFilters'
+import IronCondorCard from '@/components/IronCondorCard'
+import StrategyCard from '@/components/StrategyCard'
+import DataProvenanceBanner from '@/components/DataProvenanceBanner'
+import FilterFunnelPanel from '@/components/FilterFunnelPanel'
+import ExpectedMoveBand from '@/components/ExpectedMoveBand'
+import VolatilityCharts from '@/components/VolatilityCharts'
+import type { Provenance } from '@/lib/provenance'
+import { RefreshCw, AlertTriangle } from 'lucide-react'
 
 interface OptionsData {
+  symbol: string
   currentPrice: number
   lastUpdate: string
-  recommendations: CreditSpreadRecommendation[]
+  params: ScreenerParams
+  ivStats: IVStats | null // null for demo data
+  expectedMoves: ExpectedMove[]
+  recommendations: StrategyRecommendation[]
+  funnel: FilterFunnel | null // null for demo data
+}
+
+interface OptionsRecommendationsProps {
+  symbol: string
+  // Owned by the dashboard, which saves them and shares the pricing with the option chain
+  filters: ScreenerFilterState
+  onFiltersChange: (filters: ScreenerFilterState) => void
+  // Lets the dashboard lock trade logging while demo data is on screen
+  onProvenanceChange?: (provenance?: Provenance) => void
 }
 
-export default function OptionsRecommendations() {
+export default function OptionsRecommendations({ symbol, filters, onFiltersChange, onProvenanceChange }: OptionsRecommendationsProps) {
   const [data, setData] = useState<OptionsData | null>(null)
+  const [provenance, setProvenance] = useState<Provenance>()
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [paramErrors, setParamErrors] = useState<ParamError[]>([])
 
-  const fetchData = async () => {
+  const fetchData = useCallback(async () => {
     try {
       setLoading(true)
-      const response = await fetch('/api/tsla-options')
+      const response = await fetch(`/api/tsla-options?symbol=${encodeURIComponent(symbol)}&${toQueryString(filters.params)}`)
       const result = await response.json()
       
       if (result.success) {
         setData(result.data)
+        setProvenance(result.provenance)
         setError(null)
+        setParamErrors([])
+      } else if (response.status === 400 && result.details) {
+        setParamErrors(result.details)
       } else {
         setError('Failed to fetch options data')
       }
@@ -48,13 +77,76 @@ export default function OptionsRecommendations() {
     } finally {
       setLoading(false)
     }
-  }
+  }, [filters, symbol])
+
+  // Drop the previous symbol's results so they aren't shown under the new one
+  useEffect(() => {
+    setData(null)
+    setProvenance(undefined)
+  }, [symbol])
 
   useEffect(() => {
-    fetchData()
-    const interval = setInterval(fetchData, 30000) // Update every 30 seconds
-    return () => clearInterval(interval)
-  }, [])
+    onProvenanceChange?.(provenance)
+  }, [provenance, onProvenanceChange])
+
+  // Update every 30 seconds during the regular session, less often when the market is closed
+  useMarketPolling(fetchData, 30000)
+
+  // Invalid filters are reported rather than saved or sent
+  const applyFilters = (value: ScreenerFilterState) => {
+    const errors = validateScreenerParams(value.params)
+    setParamErrors(errors)
+    if (errors.length > 0) return
+    onFiltersChange(value)
+  }
+
+  // Switching the pricing mode re-runs the screener so max profit/loss, breakevens and filters follow it
+  const setPricing = (pricing: PricingMode) => {
+    applyFilters({ ...filters, params: { ...filters.params, pricing } })
+  }
+
+  // Shown with or without results so a rejected request can always be corrected
+  const screenerControls = (
+    <>
+      <ScreenerFilters value={filters} onApply={applyFilters} />
+
+      <div className="flex items-center gap-2 text-sm">
+        <span className="text-gray-600">Pricing:</span>
+        <div className="inline-flex rounded-lg border overflow-hidden">
+          {PRICING_MODES.map(mode => (
+            <button
+              key={mode}
+              onClick={() => setPricing(mode)}
+              className={`px-3 py-1 transition-colors ${
+                filters.params.pricing === mode ? 'bg-blue-600 text-white' : 'hover:bg-gray-50'
+              }`}
+            >
+              {PRICING_LABELS[mode]}
+            </button>
+          ))}
+        </div>
+        {filters.params.pricing === 'fill' && (
+          <span className="text-xs text-gray-500">
+            mid less {Math.round(filters.params.slippage * 100)}% of each leg&apos;s bid/ask width
+          </span>
+        )}
+      </div>
+
+      {paramErrors.length > 0 && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700 space-y-1">
+          <div className="flex items-center gap-2 font-medium">
+            <AlertTriangle className="h-4 w-4" />
+            Invalid screener parameters
+          </div>
+          {paramErrors.map(paramError => (
+            <div key={paramError.param}>
+              {paramError.param} {paramError.message}
+            </div>
+          ))}
+        </div>
+      )}
+    </>
+  )
 
   if (loading && !data) {
     return (
@@ -62,7 +154,7 @@ export default function OptionsRecommendations() {
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <RefreshCw className="h-5 w-5 animate-spin" />
-            Loading TSLA Options...
+            Loading {symbol} Options...
           </CardTitle>
         </CardHeader>
       </Card>
@@ -83,15 +175,36 @@ export default function OptionsRecommendations() {
     )
   }
 
-  if (!data) return null
+  if (!data) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Spread Recommendations</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">{screenerControls}</CardContent>
+      </Card>
+    )
+  }
+
+  // Iron condors get their own section with wing summaries
+  const ironCondors = data.recommendations.filter(
+    (rec): rec is IronCondorRecommendation => rec.strategy === 'iron_condor'
+  )
+  const spreads = data.recommendations.filter(rec => rec.strategy !== 'iron_condor')
+  // The route skips the screener entirely while IV rank is under the requested minimum
+  const ivRank = data.ivStats ? data.ivStats.ivRank : null
+  const belowMinIVRank = !!data.params && !!data.ivStats && data.params.minIVRank > 0 &&
+    (ivRank === null || ivRank < data.params.minIVRank)
 
   return (
     <div className="space-y-6">
+      <DataProvenanceBanner provenance={provenance} subject="options data" />
+
       {/* Current Price Display */}
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center justify-between">
-            <span>TSLA Current Price</span>
+            <span>{data.symbol} Current Price</span>
             <button
               onClick={fetchData}
               disabled={loading}
@@ -102,133 +215,74 @@ export default function OptionsRecommendations() {
           </CardTitle>
         </CardHeader>
         <CardContent>
-          <div className="text-3xl font-bold text-green-600">
+          <div className={`text-3xl font-bold ${provenance?.isFallback ? 'text-gray-400' : 'text-green-600'}`}>
             {formatCurrency(data.currentPrice)}
           </div>
           <p className="text-sm text-gray-500 mt-1">
             Last updated: {new Date(data.lastUpdate).toLocaleTimeString()}
           </p>
+          <ExpectedMoveBand currentPrice={data.currentPrice} expectedMoves={data.expectedMoves || []} />
         </CardContent>
       </Card>
 
-      {/* Credit Spread Recommendations */}
+      <VolatilityCharts symbol={data.symbol} recommendations={data.recommendations} />
+
+      {/* Strategy Recommendations */}
       <Card>
         <CardHeader>
-          <CardTitle>7-DTE Credit Spread Recommendations</CardTitle>
+          <CardTitle>Spread Recommendations</CardTitle>
           <CardDescription>
-            Selling credit spreads with optimal risk/reward ratios
+            {data.params
+              ? `${data.params.minDTE}-${data.params.maxDTE} DTE ${data.params.strategies.map(id => STRATEGY_LABELS[id]).join(', ')}`
+              : 'Option spreads with optimal risk/reward ratios'}
           </CardDescription>
         </CardHeader>
-        <CardContent>
+        <CardContent className="space-y-4">
+          {screenerControls}
+
           <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-            {data.recommendations.map((rec, index) => (
-              <Card key={index} className="border-2">
-                <CardHeader className="pb-3">
-                  <div className="flex items-center justify-between">
-                    <Badge 
-                      variant={rec.type === 'call' ? 'destructive' : 'success'}
-                      className="text-xs"
-                    >
-                      {rec.type === 'call' ? (
-                        <>
-                          <TrendingDown className="h-3 w-3 mr-1" />
-                          Bear Call
-                        </>
-                      ) : (
-                        <>
-                          <TrendingUp className="h-3 w-3 mr-1" />
-                          Bull Put
-                        </>
-                      )}
-                    </Badge>
-                    <Badge variant="outline">
-                      {rec.daysToExpiration}d
-                    </Badge>
-                  </div>
-                </CardHeader>
-                <CardContent className="space-y-3">
-                  <div className="space-y-2">
-                    <div className="flex justify-between text-sm">
-                      <span className="text-gray-600">Short Strike:</span>
-                      <span className="font-medium">${rec.shortStrike}</span>
-                    </div>
-                    <div className="flex justify-between text-sm">
-                      <span className="text-gray-600">Long Strike:</span>
-                      <span className="font-medium">${rec.longStrike}</span>
-                    </div>
-                    <div className="flex justify-between text-sm">
-                      <span className="text-gray-600">Expiration:</span>
-                      <span className="font-medium">{rec.expiration}</span>
-                    </div>
-                  </div>
-
-                  <div className="border-t pt-3 space-y-2">
-                    <div className="flex justify-between text-sm">
-                      <span className="text-gray-600">Credit Received:</span>
-                      <span className="font-medium text-green-600">
-                        {formatCurrency(rec.creditReceived)}
-                      </span>
-                    </div>
-                    <div className="flex justify-between text-sm">
-                      <span className="text-gray-600">Max Profit:</span>
-                      <span className="font-medium text-green-600">
-                        {formatCurrency(rec.maxProfit)}
-                      </span>
-                    </div>
-                    <div className="flex justify-between text-sm">
-                      <span className="text-gray-600">Max Loss:</span>
-                      <span className="font-medium text-red-600">
-                        {formatCurrency(rec.maxLoss)}
-                      </span>
-                    </div>
-                    <div className="flex justify-between text-sm">
-                      <span className="text-gray-600">Breakeven:</span>
-                      <span className="font-medium">${rec.breakeven.toFixed(2)}</span>
-                    </div>
-                  </div>
-
-                  <div className="border-t pt-3 space-y-2">
-                    <div className="flex justify-between text-sm">
-                      <span className="text-gray-600">Prob. of Profit:</span>
-                      <span className="font-medium">
-                        {formatPercentage(rec.probOfProfit)}
-                      </span>
-                    </div>
-                    <div className="flex justify-between text-sm">
-                      <span className="text-gray-600">Risk/Reward:</span>
-                      <span className="font-medium">
-                        1:{rec.riskRewardRatio.toFixed(2)}
-                      </span>
-                    </div>
-                  </div>
-
-                  {/* Profit/Loss Bar */}
-                  <div className="mt-3">
-                    <div className="flex justify-between text-xs text-gray-500 mb-1">
-                      <span>Risk</span>
-                      <span>Reward</span>
-                    </div>
-                    <div className="w-full bg-gray-200 rounded-full h-2">
-                      <div
-                        className="bg-green-500 h-2 rounded-full"
-                        style={{
-                          width: `${(rec.riskRewardRatio / (1 + rec.riskRewardRatio)) * 100}%`
-                        }}
-                      />
-                    </div>
-                  </div>
-                </CardContent>
-              </Card>
+            {spreads.map((rec, index) => (
+              <StrategyCard key={index} recommendation={rec} currentPrice={data.currentPrice} />
             ))}
           </div>
 
+          {spreads.length === 0 && ironCondors.length > 0 && (
+            <div className="text-center py-4 text-gray-500">
+              Only iron condors passed the filters; they&apos;re listed below.
+            </div>
+          )}
+
           {data.recommendations.length === 0 && (
-            <div className="text-center py-8 text-gray-500">
-              No suitable credit spreads found for current market conditions.
+            <div className="text-center py-8 text-gray-500 space-y-4">
+              <div>
+                {belowMinIVRank
+                  ? `IV rank ${ivRank === null ? 'is not available yet' : `is ${Math.round(ivRank)}`}, below the minimum of ${data.params.minIVRank}.`
+                  : 'No suitable spreads found for current market conditions.'}
+              </div>
+              {data.funnel && <FilterFunnelPanel funnel={data.funnel} />}
             </div>
           )}
         </CardContent>
       </Card>
+
+      {/* Iron Condor Recommendations */}
+      {ironCondors.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Iron Condor Recommendations</CardTitle>
+            <CardDescription>
+              Neutral positions pairing a bear call and a bull put on the same expiration
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+              {ironCondors.map((condor, index) => (
+                <IronCondorCard key={index} condor={condor} currentPrice={data.currentPrice} />
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
     </div>
   )
 }
@@ -0,0 +1,99 @@
+'use client'
+
+import { useState } from 'react'
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts'
+import { formatCurrency } from '@/lib/utils'
+import { daysToNearestExpiration, payoffCurves, type PayoffLeg } from '@/lib/payoff'
+
+interface PayoffChartProps {
+  legs: PayoffLeg[]
+  currentPrice: number
+}
+
+// P&L per share at expiration, today and T+N, with breakevens, strikes, spot and the ±1 SD range marked.
+// Takes plain legs so recommendations and logged trades can share it.
+export default function PayoffChart({ legs, currentPrice }: PayoffChartProps) {
+  const [daysForward, setDaysForward] = useState<number | null>(null)
+
+  const maxDays = Math.floor(daysToNearestExpiration(legs))
+  // Default T+N to halfway to expiration
+  const days = daysForward ?? Math.floor(maxDays / 2)
+  const curves = payoffCurves(legs, { spot: currentPrice, daysForward: days })
+
+  const lowerSD = currentPrice - curves.standardDeviation
+  const upperSD = currentPrice + curves.standardDeviation
+
+  return (
+    <div className="space-y-2">
+      <div className="h-56">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={curves.points}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+            <XAxis
+              type="number"
+              dataKey="price"
+              domain={['dataMin', 'dataMax']}
+              tick={{ fontSize: 10 }}
+              tickFormatter={(value: number) => `$${Math.round(value)}`}
+            />
+            <YAxis tick={{ fontSize: 10 }} width={44} tickFormatter={(value: number) => `$${value.toFixed(2)}`} />
+            <Tooltip
+              formatter={(value: number) => formatCurrency(value)}
+              labelFormatter={(value: number) => `At ${formatCurrency(value)}`}
+            />
+            <Legend verticalAlign="top" height={20} iconSize={8} wrapperStyle={{ fontSize: 11 }} />
+            <ReferenceLine y={0} stroke="#9ca3af" />
+            {curves.standardDeviation > 0 && (
+              <>
+                <ReferenceLine x={lowerSD} stroke="#a855f7" strokeDasharray="2 4" label={{ value: '-1SD', fontSize: 9, position: 'insideBottomLeft' }} />
+                <ReferenceLine x={upperSD} stroke="#a855f7" strokeDasharray="2 4" label={{ value: '+1SD', fontSize: 9, position: 'insideBottomRight' }} />
+              </>
+            )}
+            {curves.strikes.map(strike => (
+              <ReferenceLine key={`strike-${strike}`} x={strike} stroke="#d1d5db" strokeDasharray="4 4" />
+            ))}
+            {curves.breakevens.map(breakeven => (
+              <ReferenceLine
+                key={`breakeven-${breakeven}`}
+                x={breakeven}
+                stroke="#f97316"
+                strokeDasharray="4 2"
+                label={{ value: `BE ${breakeven.toFixed(2)}`, fontSize: 9, position: 'insideTopLeft' }}
+              />
+            ))}
+            <ReferenceLine x={currentPrice} stroke="#2563eb" label={{ value: 'Spot', fontSize: 9, position: 'top' }} />
+            <Line type="linear" dataKey="expiry" name="Expiration" stroke="#111827" dot={false} strokeWidth={2} />
+            <Line type="monotone" dataKey="today" name="Today" stroke="#2563eb" dot={false} strokeWidth={1.5} />
+            {curves.daysForward > 0 && (
+              <Line type="monotone" dataKey="future" name={`T+${days}`} stroke="#16a34a" dot={false} strokeWidth={1.5} strokeDasharray="5 3" />
+            )}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+      {maxDays > 0 && (
+        <label className="flex items-center gap-2 text-xs text-gray-600">
+          T+{days}d
+          <input
+            type="range"
+            min={0}
+            max={maxDays}
+            value={days}
+            onChange={(e) => setDaysForward(parseInt(e.target.value))}
+            className="flex-1"
+          />
+          {maxDays}d to expiry
+        </label>
+      )}
+    </div>
+  )
+}
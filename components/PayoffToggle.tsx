@@ -0,0 +1,30 @@
+'use client'
+
+import { useState, type ReactNode } from 'react'
+import { ChevronDown, ChevronUp, LineChart } from 'lucide-react'
+
+interface PayoffToggleProps {
+  // Mounted only while expanded, so charts and any data they fetch wait for the first click
+  children: ReactNode
+}
+
+// Collapsed "Payoff" row that expands into a payoff chart
+export default function PayoffToggle({ children }: PayoffToggleProps) {
+  const [open, setOpen] = useState(false)
+
+  return (
+    <div className="border-t pt-3">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between text-sm text-gray-600 hover:text-gray-900"
+      >
+        <span className="flex items-center gap-1">
+          <LineChart className="h-4 w-4" />
+          Payoff
+        </span>
+        {open ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+      </button>
+      {open && <div className="mt-2">{children}</div>}
+    </div>
+  )
+}
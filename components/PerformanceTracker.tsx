@@ -3,10 +3,17 @@
 import { useState, useEffect } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
+import MonteCarloPanel from '@/components/MonteCarloPanel'
+import PayoffChart from '@/components/PayoffChart'
+import PayoffToggle from '@/components/PayoffToggle'
 import { TrendingUp, TrendingDown, DollarSign, Percent, Calendar, BarChart3 } from 'lucide-react'
+import { DEFAULT_SYMBOL } from '@/lib/symbols'
+import type { ChainView } from '@/lib/optionChain'
+import type { PayoffLeg } from '@/lib/payoff'
 
 interface Trade {
   id: string
+  symbol?: string // absent on trades logged before multi-ticker support, which were all TSLA
   type: 'call' | 'put'
   shortStrike: number
   longStrike: number
@@ -34,7 +41,49 @@ interface PerformanceMetrics {
   worstTrade: number
 }
 
-export default function PerformanceTracker() {
+// Payoff for an open trade, priced off the live chain for its expiration
+function TradePayoff({ trade }: { trade: Trade }) {
+  const [chain, setChain] = useState<ChainView | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const query = new URLSearchParams({ symbol: trade.symbol || DEFAULT_SYMBOL, expiration: trade.expiration })
+    fetch(`/api/tsla-options/chain?${query.toString()}`)
+      .then(response => response.json())
+      .then(result => result.success ? setChain(result.data) : setError(result.error || 'Failed to fetch option chain'))
+      .catch(() => setError('Network error occurred'))
+  }, [trade.symbol, trade.expiration])
+
+  if (error) return <div className="text-xs text-gray-500">No payoff available: {error}</div>
+  if (!chain) return <div className="text-xs text-gray-500">Loading quotes...</div>
+
+  // IV at the strike, or at the nearest quoted strike when the leg isn't listed
+  const quotes = (trade.type === 'call' ? chain.calls : chain.puts).filter(quote => quote.impliedVolatility > 0)
+  const ivAt = (strike: number) => quotes
+    .slice()
+    .sort((a, b) => Math.abs(a.strike - strike) - Math.abs(b.strike - strike))[0]?.impliedVolatility ?? 0
+
+  // Only the net credit is logged, so it all sits on the short leg
+  const legs: PayoffLeg[] = [
+    { type: trade.type, action: 'sell', quantity: 1, strike: trade.shortStrike, expiration: trade.expiration, price: trade.creditReceived, impliedVolatility: ivAt(trade.shortStrike) },
+    { type: trade.type, action: 'buy', quantity: 1, strike: trade.longStrike, expiration: trade.expiration, price: 0, impliedVolatility: ivAt(trade.longStrike) }
+  ]
+
+  return (
+    <>
+      <PayoffChart legs={legs} currentPrice={chain.currentPrice} />
+      <MonteCarloPanel legs={legs} currentPrice={chain.currentPrice} />
+    </>
+  )
+}
+
+interface PerformanceTrackerProps {
+  symbol: string
+  // Set while demo data is on screen so trades can't be logged against it
+  tradingDisabled?: boolean
+}
+
+export default function PerformanceTracker({ symbol, tradingDisabled = false }: PerformanceTrackerProps) {
   const [trades, setTrades] = useState<Trade[]>([])
   const [showAddForm, setShowAddForm] = useState(false)
   const [newTrade, setNewTrade] = useState({
@@ -64,8 +113,11 @@ export default function PerformanceTracker() {
     localStorage.setItem('tsla-credit-spread-trades', JSON.stringify(trades))
   }, [trades])
 
+  // Only the selected symbol's trades are listed and measured
+  const symbolTrades = trades.filter(trade => (trade.symbol || DEFAULT_SYMBOL) === symbol)
+
   const calculateMetrics = (): PerformanceMetrics => {
-    if (trades.length === 0) {
+    if (symbolTrades.length === 0) {
       return {
         totalTrades: 0,
         winRate: 0,
@@ -80,7 +132,7 @@ export default function PerformanceTracker() {
       }
     }
 
-    const closedTrades = trades.filter(t => t.status !== 'open')
+    const closedTrades = symbolTrades.filter(t => t.status !== 'open')
     const winningTrades = closedTrades.filter(t => (t.realizedPnL || 0) > 0)
     const losingTrades = closedTrades.filter(t => (t.realizedPnL || 0) < 0)
 
@@ -137,6 +189,7 @@ export default function PerformanceTracker() {
 
     const trade: Trade = {
       id: Date.now().toString(),
+      symbol,
       type: newTrade.type,
       shortStrike,
       longStrike,
@@ -189,7 +242,7 @@ export default function PerformanceTracker() {
             Performance Metrics
           </CardTitle>
           <CardDescription>
-            Track your credit spread trading performance
+            Track your {symbol} credit spread trading performance
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -253,7 +306,8 @@ export default function PerformanceTracker() {
             </div>
             <button
               onClick={() => setShowAddForm(!showAddForm)}
-              className="px-3 py-1 text-sm bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+              disabled={tradingDisabled}
+              className="px-3 py-1 text-sm bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
             >
               Add Trade
             </button>
@@ -261,8 +315,14 @@ export default function PerformanceTracker() {
         </CardHeader>
 
         <CardContent>
+          {tradingDisabled && (
+            <div className="p-3 mb-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+              Trade logging is disabled while demo data is shown. It re-enables once live market data returns.
+            </div>
+          )}
+
           {/* Add Trade Form */}
-          {showAddForm && (
+          {showAddForm && !tradingDisabled && (
             <div className="p-4 border rounded-lg mb-4 space-y-3">
               <div className="grid grid-cols-2 gap-3">
                 <div>
@@ -350,12 +410,12 @@ export default function PerformanceTracker() {
 
           {/* Trades List */}
           <div className="space-y-3">
-            {trades.length === 0 ? (
+            {symbolTrades.length === 0 ? (
               <div className="text-center py-8 text-gray-500">
-                No trades recorded. Click "Add Trade" to start tracking.
+                No {symbol} trades recorded. Click &quot;Add Trade&quot; to start tracking.
               </div>
             ) : (
-              trades.slice().reverse().map(trade => (
+              symbolTrades.slice().reverse().map(trade => (
                 <div
                   key={trade.id}
                   className={`p-4 border rounded-lg ${
@@ -427,7 +487,8 @@ export default function PerformanceTracker() {
                                 closeTrade(trade.id, pnl, pnl >= 0 ? 'profit' : 'loss')
                               }
                             }}
-                            className="text-xs px-2 py-1 bg-green-500 text-white rounded hover:bg-green-600"
+                            disabled={tradingDisabled}
+                            className="text-xs px-2 py-1 bg-green-500 text-white rounded hover:bg-green-600 disabled:opacity-50 disabled:cursor-not-allowed"
                           >
                             Close
                           </button>
@@ -435,6 +496,14 @@ export default function PerformanceTracker() {
                       )}
                     </div>
                   </div>
+
+                  {trade.status === 'open' && (
+                    <div className="mt-3">
+                      <PayoffToggle>
+                        <TradePayoff trade={trade} />
+                      </PayoffToggle>
+                    </div>
+                  )}
                 </div>
               ))
             )}
@@ -5,9 +5,11 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge'
 import { Bell, Plus, X, TrendingUp, TrendingDown, AlertTriangle } from 'lucide-react'
 import { useWebSocket } from '@/lib/websocket'
+import { DEFAULT_SYMBOL } from '@/lib/symbols'
 
 interface PriceAlert {
   id: string
+  symbol?: string // absent on alerts created before multi-ticker support, which were all TSLA
   price: number
   condition: 'above' | 'below'
   message: string
@@ -17,11 +19,17 @@ interface PriceAlert {
 }
 
 interface PriceData {
+  symbol: string
   price: number
+  isFallback: boolean // demo price; never triggers alerts
   timestamp: string
 }
 
-export default function PriceAlerts() {
+interface PriceAlertsProps {
+  symbol: string
+}
+
+export default function PriceAlerts({ symbol }: PriceAlertsProps) {
   const [alerts, setAlerts] = useState<PriceAlert[]>([])
   const [newAlertPrice, setNewAlertPrice] = useState('')
   const [newAlertCondition, setNewAlertCondition] = useState<'above' | 'below'>('above')
@@ -50,14 +58,15 @@ export default function PriceAlerts() {
 
   // Check for triggered alerts when price updates
   useEffect(() => {
-    if (!priceData) return
+    if (!priceData || priceData.isFallback) return
 
-    const currentPrice = priceData.price
+    const { price: currentPrice, symbol: priceSymbol } = priceData
     const triggeredAlerts: PriceAlert[] = []
 
     setAlerts(prevAlerts => 
       prevAlerts.map(alert => {
         if (!alert.active || alert.triggeredAt) return alert
+        if ((alert.symbol || DEFAULT_SYMBOL) !== priceSymbol) return alert
 
         const shouldTrigger = 
           (alert.condition === 'above' && currentPrice >= alert.price) ||
@@ -79,12 +88,12 @@ export default function PriceAlerts() {
 
     // Show notifications for triggered alerts
     triggeredAlerts.forEach(alert => {
-      const message = `TSLA ${alert.condition} $${alert.price}: Current price $${currentPrice.toFixed(2)}`
+      const message = `${priceSymbol} ${alert.condition} $${alert.price}: Current price $${currentPrice.toFixed(2)}`
       setNotifications(prev => [...prev, message])
       
       // Request permission and show browser notification
       if ('Notification' in window && Notification.permission === 'granted') {
-        new Notification('TSLA Price Alert', {
+        new Notification(`${priceSymbol} Price Alert`, {
           body: message,
           icon: '/favicon.ico'
         })
@@ -104,15 +113,18 @@ export default function PriceAlerts() {
     }
   }, [])
 
+  const symbolAlerts = alerts.filter(alert => (alert.symbol || DEFAULT_SYMBOL) === symbol)
+
   const addAlert = () => {
     const price = parseFloat(newAlertPrice)
     if (isNaN(price) || price <= 0) return
 
     const newAlert: PriceAlert = {
       id: Date.now().toString(),
+      symbol,
       price,
       condition: newAlertCondition,
-      message: `Alert when TSLA goes ${newAlertCondition} $${price}`,
+      message: `Alert when ${symbol} goes ${newAlertCondition} $${price}`,
       active: true,
       createdAt: new Date().toISOString()
     }
@@ -174,7 +186,7 @@ export default function PriceAlerts() {
                 Price Alerts
               </CardTitle>
               <CardDescription>
-                Get notified when TSLA reaches your target prices
+                Get notified when {symbol} reaches your target prices
               </CardDescription>
             </div>
             <button
@@ -187,11 +199,15 @@ export default function PriceAlerts() {
           </div>
 
           {/* Real-time price display */}
-          {priceData && (
+          {priceData && priceData.symbol === symbol && (
             <div className="flex items-center gap-2 mt-2">
-              <Badge variant={status === 'connected' ? 'success' : 'secondary'}>
-                {status === 'connected' ? 'Live' : status}
-              </Badge>
+              {priceData.isFallback ? (
+                <Badge variant="destructive">Demo</Badge>
+              ) : (
+                <Badge variant={status === 'connected' ? 'success' : 'secondary'}>
+                  {status === 'connected' ? 'Live' : status}
+                </Badge>
+              )}
               <span className="text-lg font-bold">
                 ${priceData.price.toFixed(2)}
               </span>
@@ -249,12 +265,12 @@ export default function PriceAlerts() {
 
           {/* Alerts List */}
           <div className="space-y-3">
-            {alerts.length === 0 ? (
+            {symbolAlerts.length === 0 ? (
               <div className="text-center py-8 text-gray-500">
-                No price alerts set. Click "Add Alert" to create one.
+                No price alerts set. Click &quot;Add Alert&quot; to create one.
               </div>
             ) : (
-              alerts.map(alert => {
+              symbolAlerts.map(alert => {
                 const Icon = alert.condition === 'above' ? TrendingUp : TrendingDown
                 const isTriggered = !!alert.triggeredAt
                 
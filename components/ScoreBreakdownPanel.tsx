@@ -0,0 +1,51 @@
+'use client'
+
+import { useState } from 'react'
+import { SCORE_FACTORS, SCORE_FACTOR_LABELS, type ScoreBreakdown } from '@/lib/ranking'
+import { ChevronDown, ChevronUp, Gauge } from 'lucide-react'
+
+interface ScoreBreakdownPanelProps {
+  score: ScoreBreakdown
+}
+
+// Collapsed "Score" row that expands into each factor's normalized value, weight and points
+export default function ScoreBreakdownPanel({ score }: ScoreBreakdownPanelProps) {
+  const [open, setOpen] = useState(false)
+
+  return (
+    <div className="border-t pt-3">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between text-sm text-gray-600 hover:text-gray-900"
+      >
+        <span className="flex items-center gap-1">
+          <Gauge className="h-4 w-4" />
+          Score
+          <span className="font-medium text-gray-900">{score.total.toFixed(0)}</span>
+          <span className="text-xs text-gray-500">/ 100</span>
+        </span>
+        {open ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+      </button>
+      {open && (
+        <div className="mt-2 space-y-1.5">
+          {SCORE_FACTORS.map(factor => {
+            const { value, weight, points } = score.factors[factor]
+            return (
+              <div key={factor} className={`text-xs ${weight === 0 ? 'text-gray-400' : 'text-gray-600'}`}>
+                <div className="flex justify-between">
+                  <span>{SCORE_FACTOR_LABELS[factor]}</span>
+                  <span>
+                    {(value * 100).toFixed(0)}% × w{weight} = <span className="font-medium">{points.toFixed(1)} pts</span>
+                  </span>
+                </div>
+                <div className="w-full bg-gray-200 rounded-full h-1.5">
+                  <div className="bg-blue-500 h-1.5 rounded-full" style={{ width: `${value * 100}%` }} />
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
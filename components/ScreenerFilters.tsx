@@ -0,0 +1,303 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { SlidersHorizontal } from 'lucide-react'
+import {
+  DEFAULT_SCREENER_PARAMS,
+  EARNINGS_LABELS,
+  EARNINGS_MODES,
+  SCREENER_PRESETS,
+  SORT_KEYS,
+  SORT_LABELS,
+  STRATEGY_IDS,
+  STRATEGY_LABELS,
+  validateScreenerParams,
+  type EarningsMode,
+  type NumericParam,
+  type ScreenerParams,
+  type SpreadSide,
+  type SortKey
+} from '@/lib/screener'
+import {
+  MAX_FACTOR_WEIGHT,
+  RANKING_PRESETS,
+  SCORE_FACTORS,
+  SCORE_FACTOR_LABELS,
+  matchRankingPreset,
+  type RankingPresetId,
+  type ScoreFactor
+} from '@/lib/ranking'
+import type { StrategyId } from '@/lib/types'
+
+export interface ScreenerFilterState {
+  preset: string // key of SCREENER_PRESETS, or 'custom'
+  params: ScreenerParams
+}
+
+export const FILTERS_STORAGE_KEY = 'tsla-screener-filters'
+
+// Restore the last-used preset and parameters, merged over defaults in case fields were added since.
+// Saved filters that no longer validate are dropped so a bad value can't lock the panel out.
+export function loadSavedFilters(): ScreenerFilterState {
+  const fallback = { preset: 'default', params: DEFAULT_SCREENER_PARAMS }
+  const saved = localStorage.getItem(FILTERS_STORAGE_KEY)
+  if (!saved) return fallback
+
+  try {
+    const parsed = JSON.parse(saved)
+    const params: ScreenerParams = { ...DEFAULT_SCREENER_PARAMS, ...parsed.params }
+    if (validateScreenerParams(params).length > 0) return fallback
+    return { preset: parsed.preset || 'default', params }
+  } catch (error) {
+    console.error('Error loading screener filters:', error)
+    return fallback
+  }
+}
+
+interface ScreenerFiltersProps {
+  value: ScreenerFilterState
+  onApply: (value: ScreenerFilterState) => void
+}
+
+const NUMBER_FIELDS: { key: NumericParam; label: string; step: string }[] = [
+  { key: 'minDTE', label: 'Min DTE', step: '1' },
+  { key: 'maxDTE', label: 'Max DTE', step: '1' },
+  { key: 'minCredit', label: 'Min Credit ($)', step: '0.05' },
+  { key: 'minRiskReward', label: 'Min R:R', step: '0.05' },
+  { key: 'minPoP', label: 'Min PoP (%)', step: '1' },
+  { key: 'minIVRank', label: 'Min IV Rank', step: '5' },
+  { key: 'minWidth', label: 'Min Width ($)', step: '0.5' },
+  { key: 'maxWidth', label: 'Max Width ($)', step: '0.5' },
+  { key: 'minLiquidity', label: 'Min Liquidity (0-100)', step: '5' },
+  { key: 'minOpenInterest', label: 'Min Open Interest', step: '10' },
+  { key: 'minVolume', label: 'Min Volume', step: '10' },
+  { key: 'maxBidAskPct', label: 'Max Bid/Ask (% of mid)', step: '5' },
+  { key: 'slippage', label: 'Fill Slippage (0-0.5)', step: '0.05' },
+  { key: 'limit', label: 'Max Results', step: '1' }
+]
+
+// An emptied input becomes NaN, which validation reports, rather than a silent 0
+function parseInput(raw: string): number {
+  return raw.trim() === '' ? NaN : Number(raw)
+}
+
+function inputValue(value: number): number | string {
+  return isNaN(value) ? '' : value
+}
+
+export default function ScreenerFilters({ value, onApply }: ScreenerFiltersProps) {
+  const [open, setOpen] = useState(false)
+  const [draft, setDraft] = useState<ScreenerFilterState>(value)
+  const draftErrors = validateScreenerParams(draft.params)
+
+  // Keep the draft in sync when the applied filters change elsewhere
+  useEffect(() => {
+    setDraft(value)
+  }, [value])
+
+  const selectPreset = (preset: string) => {
+    const selected = SCREENER_PRESETS[preset]
+    // Pricing is a display choice rather than part of a preset, so keep the current one
+    setDraft(selected
+      ? { preset, params: { ...selected.params, pricing: draft.params.pricing, slippage: draft.params.slippage } }
+      : { ...draft, preset })
+  }
+
+  const updateParam = <K extends keyof ScreenerParams>(key: K, paramValue: ScreenerParams[K]) => {
+    setDraft(prev => ({ preset: 'custom', params: { ...prev.params, [key]: paramValue } }))
+  }
+
+  const updateWeight = (factor: ScoreFactor, weight: number) => {
+    updateParam('weights', { ...draft.params.weights, [factor]: weight })
+  }
+
+  const selectRankingPreset = (id: string) => {
+    const preset = RANKING_PRESETS[id as RankingPresetId]
+    if (preset) updateParam('weights', preset.weights)
+  }
+
+  // Keep at least one strategy selected so the request stays valid
+  const toggleStrategy = (id: StrategyId, checked: boolean) => {
+    const strategies = checked
+      ? STRATEGY_IDS.filter(other => other === id || draft.params.strategies.indexOf(other) !== -1)
+      : draft.params.strategies.filter(other => other !== id)
+    if (strategies.length > 0) updateParam('strategies', strategies)
+  }
+
+  return (
+    <div className="border rounded-lg">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between px-4 py-2 text-sm font-medium hover:bg-gray-50 transition-colors"
+      >
+        <span className="flex items-center gap-2">
+          <SlidersHorizontal className="h-4 w-4" />
+          Screener Filters
+        </span>
+        <span className="text-xs text-gray-500">
+          {SCREENER_PRESETS[value.preset]?.label || 'Custom'}
+        </span>
+      </button>
+
+      {open && (
+        <div className="p-4 border-t space-y-3">
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+            <div>
+              <label className="block text-sm font-medium mb-1">Preset</label>
+              <select
+                value={draft.preset}
+                onChange={(e) => selectPreset(e.target.value)}
+                className="w-full px-3 py-2 border rounded-lg text-sm"
+              >
+                {Object.keys(SCREENER_PRESETS).map(key => (
+                  <option key={key} value={key}>{SCREENER_PRESETS[key].label}</option>
+                ))}
+                <option value="custom">Custom</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1">Side</label>
+              <select
+                value={draft.params.side}
+                onChange={(e) => updateParam('side', e.target.value as SpreadSide)}
+                className="w-full px-3 py-2 border rounded-lg text-sm"
+              >
+                <option value="both">Both</option>
+                <option value="call">Calls Only</option>
+                <option value="put">Puts Only</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1">Sort By</label>
+              <select
+                value={draft.params.sort}
+                onChange={(e) => updateParam('sort', e.target.value as SortKey)}
+                className="w-full px-3 py-2 border rounded-lg text-sm"
+              >
+                {SORT_KEYS.map(key => (
+                  <option key={key} value={key}>{SORT_LABELS[key]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1">Spanning Earnings</label>
+              <select
+                value={draft.params.earnings}
+                onChange={(e) => updateParam('earnings', e.target.value as EarningsMode)}
+                className="w-full px-3 py-2 border rounded-lg text-sm"
+              >
+                {EARNINGS_MODES.map(mode => (
+                  <option key={mode} value={mode}>{EARNINGS_LABELS[mode]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {draft.params.sort === 'score' && (
+            <div>
+              <div className="flex items-center justify-between mb-1">
+                <label className="block text-sm font-medium">Ranking Weights (0-{MAX_FACTOR_WEIGHT})</label>
+                <select
+                  value={matchRankingPreset(draft.params.weights) || 'custom'}
+                  onChange={(e) => selectRankingPreset(e.target.value)}
+                  className="px-2 py-1 border rounded-lg text-xs"
+                  aria-label="Ranking preset"
+                >
+                  {(Object.keys(RANKING_PRESETS) as RankingPresetId[]).map(id => (
+                    <option key={id} value={id}>{RANKING_PRESETS[id].label}</option>
+                  ))}
+                  <option value="custom" disabled>Custom</option>
+                </select>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                {SCORE_FACTORS.map(factor => (
+                  <div key={factor}>
+                    <label className="block text-xs text-gray-600 mb-1">{SCORE_FACTOR_LABELS[factor]}</label>
+                    <input
+                      type="number"
+                      min="0"
+                      max={MAX_FACTOR_WEIGHT}
+                      step="1"
+                      value={inputValue(draft.params.weights[factor])}
+                      onChange={(e) => updateWeight(factor, parseInput(e.target.value))}
+                      className="w-full px-3 py-2 border rounded-lg text-sm"
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {NUMBER_FIELDS.map(({ key, label, step }) => (
+              <div key={key}>
+                <label className="block text-sm font-medium mb-1">{label}</label>
+                <input
+                  type="number"
+                  step={step}
+                  value={inputValue(draft.params[key])}
+                  onChange={(e) => updateParam(key, parseInput(e.target.value))}
+                  className="w-full px-3 py-2 border rounded-lg text-sm"
+                />
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-1">Strategies</label>
+            <div className="flex flex-wrap gap-x-4 gap-y-1">
+              {STRATEGY_IDS.map(id => (
+                <label key={id} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={draft.params.strategies.indexOf(id) !== -1}
+                    onChange={(e) => toggleStrategy(id, e.target.checked)}
+                  />
+                  {STRATEGY_LABELS[id]}
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              Iron condors and strangles need both sides; calendars follow the side filter.
+            </p>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={draft.params.minExpectedMoves >= 1}
+              onChange={(e) => updateParam('minExpectedMoves', e.target.checked ? 1 : 0)}
+            />
+            Place short strikes outside 1x expected move
+          </label>
+
+          {draftErrors.length > 0 && (
+            <div className="text-sm text-red-600 space-y-1">
+              {draftErrors.map(paramError => (
+                <div key={paramError.param}>
+                  {paramError.param} {paramError.message}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <button
+              onClick={() => onApply(draft)}
+              disabled={draftErrors.length > 0}
+              className="px-4 py-2 bg-green-500 text-white rounded-lg text-sm hover:bg-green-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Apply
+            </button>
+            <button
+              onClick={() => setDraft(value)}
+              className="px-4 py-2 bg-gray-300 text-gray-700 rounded-lg text-sm hover:bg-gray-400 transition-colors"
+            >
+              Reset
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
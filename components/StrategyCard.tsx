@@ -0,0 +1,221 @@
+'use client'
+
+import { Card, CardContent, CardHeader } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import EventRiskBadge, { formatEvents } from '@/components/EventRiskBadge'
+import LiquidityBadge from '@/components/LiquidityBadge'
+import MonteCarloPanel from '@/components/MonteCarloPanel'
+import NetPricesRow from '@/components/NetPricesRow'
+import PayoffChart from '@/components/PayoffChart'
+import PayoffToggle from '@/components/PayoffToggle'
+import ScoreBreakdownPanel from '@/components/ScoreBreakdownPanel'
+import { formatCurrency, formatPercentage } from '@/lib/utils'
+import { PRICING_LABELS, STRATEGY_LABELS } from '@/lib/screener'
+import type { StrategyId, StrategyRecommendation } from '@/lib/types'
+import { TrendingUp, TrendingDown, ArrowLeftRight, CalendarDays } from 'lucide-react'
+
+interface StrategyCardProps {
+  recommendation: StrategyRecommendation
+  currentPrice: number
+}
+
+const BEARISH: StrategyId[] = ['bear_call', 'bear_put_debit']
+const BULLISH: StrategyId[] = ['bull_put', 'bull_call_debit']
+
+function StrategyBadge({ strategy }: { strategy: StrategyId }) {
+  const label = STRATEGY_LABELS[strategy]
+
+  if (BEARISH.indexOf(strategy) !== -1) {
+    return (
+      <Badge variant="destructive" className="text-xs">
+        <TrendingDown className="h-3 w-3 mr-1" />
+        {label}
+      </Badge>
+    )
+  }
+  if (BULLISH.indexOf(strategy) !== -1) {
+    return (
+      <Badge variant="success" className="text-xs">
+        <TrendingUp className="h-3 w-3 mr-1" />
+        {label}
+      </Badge>
+    )
+  }
+  return (
+    <Badge variant="info" className="text-xs">
+      {strategy === 'calendar' ? <CalendarDays className="h-3 w-3 mr-1" /> : <ArrowLeftRight className="h-3 w-3 mr-1" />}
+      {label}
+    </Badge>
+  )
+}
+
+// Card for any single recommendation; iron condors use IronCondorCard for their wing summary
+export default function StrategyCard({ recommendation: rec, currentPrice }: StrategyCardProps) {
+  const isCredit = rec.netCredit >= 0
+
+  return (
+    <Card className="border-2">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <StrategyBadge strategy={rec.strategy} />
+          <div className="flex items-center gap-1">
+            <EventRiskBadge events={rec.events} />
+            <LiquidityBadge score={rec.liquidityScore} legs={rec.legs} />
+            <Badge variant="outline" title="Calendar days · trading days to expiration">
+              {rec.daysToExpiration}d · {rec.tradingDaysToExpiration}td
+            </Badge>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="space-y-2">
+          {rec.legs.map((leg, index) => (
+            <div key={index} className="flex justify-between text-sm">
+              <span className="text-gray-600">
+                {leg.action === 'sell' ? 'Sell' : 'Buy'} {leg.type === 'call' ? 'Call' : 'Put'}:
+              </span>
+              <span className="font-medium">
+                ${leg.strike} · {leg.expiration}
+              </span>
+            </div>
+          ))}
+          {'width' in rec && (
+            <div className="flex justify-between text-sm">
+              <span className="text-gray-600">Width:</span>
+              <span className="font-medium">{formatCurrency(rec.width)}</span>
+            </div>
+          )}
+        </div>
+
+        <div className="border-t pt-3 space-y-2">
+          <div className="flex justify-between text-sm">
+            <span className="text-gray-600">
+              {isCredit ? 'Credit Received' : 'Debit Paid'} ({PRICING_LABELS[rec.pricing]}):
+            </span>
+            <span className={`font-medium ${isCredit ? 'text-green-600' : 'text-red-600'}`}>
+              {formatCurrency(Math.abs(rec.netCredit))}
+            </span>
+          </div>
+          <NetPricesRow netPrices={rec.netPrices} pricing={rec.pricing} />
+          <div className="flex justify-between text-sm">
+            <span className="text-gray-600">Max Profit:</span>
+            <span className="font-medium text-green-600">
+              {formatCurrency(rec.maxProfit)}
+            </span>
+          </div>
+          <div className="flex justify-between text-sm">
+            <span className="text-gray-600">Max Loss:</span>
+            <span className="font-medium text-red-600">
+              {rec.maxLoss === null ? 'Unlimited' : formatCurrency(rec.maxLoss)}
+            </span>
+          </div>
+          <div className="flex justify-between text-sm">
+            <span className="text-gray-600">{rec.breakevens.length > 1 ? 'Breakevens:' : 'Breakeven:'}</span>
+            <span className="font-medium">
+              {rec.breakevens.map(breakeven => `$${breakeven.toFixed(2)}`).join(' – ')}
+            </span>
+          </div>
+          {rec.events.length > 0 && (
+            <div className="flex justify-between text-sm">
+              <span className="text-gray-600">Events Before Expiry:</span>
+              <span className="font-medium text-orange-600">{formatEvents(rec.events)}</span>
+            </div>
+          )}
+          {rec.strikePlacement && (
+            <div className="flex justify-between text-sm">
+              <span className="text-gray-600">Short Strike Distance:</span>
+              <span className="font-medium">
+                {rec.strikePlacement.expectedMoves.toFixed(2)}x EM · {rec.strikePlacement.standardDeviations.toFixed(2)} SD
+              </span>
+            </div>
+          )}
+        </div>
+
+        <div className="border-t pt-3 space-y-2">
+          <div className="flex justify-between text-sm">
+            <span className="text-gray-600">Prob. of Profit:</span>
+            <span className="font-medium">
+              {formatPercentage(rec.probOfProfit)}
+            </span>
+          </div>
+          <div className="flex justify-between text-sm">
+            <span className="text-gray-600">Prob. Max Profit:</span>
+            <span className="font-medium">
+              {formatPercentage(rec.probMaxProfit)}
+            </span>
+          </div>
+          {rec.maxLoss !== null && (
+            <div className="flex justify-between text-sm">
+              <span className="text-gray-600">Prob. Max Loss:</span>
+              <span className="font-medium text-red-600">
+                {formatPercentage(rec.probMaxLoss)}
+              </span>
+            </div>
+          )}
+          {'probTouch' in rec && (
+            <div className="flex justify-between text-sm">
+              <span className="text-gray-600">Prob. of Touch:</span>
+              <span className="font-medium">
+                {formatPercentage(rec.probTouch)}
+              </span>
+            </div>
+          )}
+          <div className="flex justify-between text-sm">
+            <span className="text-gray-600">Expected Value:</span>
+            <span className={`font-medium ${rec.expectedValue >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+              {formatCurrency(rec.expectedValue)}
+            </span>
+          </div>
+          {rec.maxLoss !== null && (
+            <div className="flex justify-between text-sm">
+              <span className="text-gray-600">Risk/Reward:</span>
+              <span className="font-medium">
+                1:{rec.riskRewardRatio.toFixed(2)}
+              </span>
+            </div>
+          )}
+        </div>
+
+        <div className="border-t pt-3 space-y-2">
+          <div className="flex justify-between text-sm">
+            <span className="text-gray-600">Net Delta:</span>
+            <span className="font-medium">
+              {rec.netGreeks.delta.toFixed(3)}
+            </span>
+          </div>
+          <div className="flex justify-between text-sm">
+            <span className="text-gray-600">Net Theta:</span>
+            <span className={`font-medium ${rec.netGreeks.theta >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+              {formatCurrency(rec.netGreeks.theta)}/day
+            </span>
+          </div>
+        </div>
+
+        {/* Profit/Loss Bar */}
+        {rec.maxLoss !== null && (
+          <div className="mt-3">
+            <div className="flex justify-between text-xs text-gray-500 mb-1">
+              <span>Risk</span>
+              <span>Reward</span>
+            </div>
+            <div className="w-full bg-gray-200 rounded-full h-2">
+              <div
+                className="bg-green-500 h-2 rounded-full"
+                style={{
+                  width: `${(rec.riskRewardRatio / (1 + rec.riskRewardRatio)) * 100}%`
+                }}
+              />
+            </div>
+          </div>
+        )}
+
+        {rec.score && <ScoreBreakdownPanel score={rec.score} />}
+
+        <PayoffToggle>
+          <PayoffChart legs={rec.legs} currentPrice={currentPrice} />
+          <MonteCarloPanel legs={rec.legs} currentPrice={currentPrice} />
+        </PayoffToggle>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,219 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import type { SmilePoint, VolatilitySurface } from '@/lib/volatility'
+import type { StrategyRecommendation } from '@/lib/types'
+import { RefreshCw } from 'lucide-react'
+
+interface VolatilityChartsProps {
+  symbol: string
+  // Short strikes of these recommendations are marked on the smile
+  recommendations: StrategyRecommendation[]
+}
+
+type SmileAxis = 'strike' | 'delta'
+
+interface ShortStrike {
+  type: 'call' | 'put'
+  strike: number
+  delta: number
+}
+
+const CALL_COLOR = '#2563eb'
+const PUT_COLOR = '#dc2626'
+
+// Plot against strike, or against absolute delta (0-100) so calls and puts share the axis
+function toSeries(points: SmilePoint[], axis: SmileAxis) {
+  return points
+    .map(point => ({ x: axis === 'strike' ? point.strike : Math.abs(point.delta) * 100, iv: point.iv * 100 }))
+    .sort((a, b) => a.x - b.x)
+}
+
+function shortStrikes(recommendations: StrategyRecommendation[], expiration: string): ShortStrike[] {
+  const strikes: ShortStrike[] = []
+  recommendations.forEach(rec => rec.legs.forEach(leg => {
+    if (leg.action !== 'sell' || leg.expiration !== expiration) return
+    if (strikes.some(existing => existing.type === leg.type && existing.strike === leg.strike)) return
+    strikes.push({ type: leg.type, strike: leg.strike, delta: leg.greeks.delta })
+  }))
+  return strikes
+}
+
+// IV smile for one expiration and the ATM term structure, with recommended short strikes marked
+export default function VolatilityCharts({ symbol, recommendations }: VolatilityChartsProps) {
+  const [surface, setSurface] = useState<VolatilitySurface | null>(null)
+  const [expiration, setExpiration] = useState('')
+  const [axis, setAxis] = useState<SmileAxis>('strike')
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchSurface = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch(`/api/tsla-options/volatility?symbol=${symbol}`)
+      const result = await response.json()
+
+      if (result.success) {
+        setSurface(result.data)
+        setError(null)
+      } else {
+        setError(result.error || 'Failed to fetch implied volatility')
+      }
+    } catch (err) {
+      setError('Network error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }, [symbol])
+
+  useEffect(() => {
+    setSurface(null)
+    setExpiration('')
+  }, [symbol])
+
+  useEffect(() => {
+    fetchSurface()
+    const interval = setInterval(fetchSurface, 60000)
+    return () => clearInterval(interval)
+  }, [fetchSurface])
+
+  if (!surface) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            {loading && <RefreshCw className="h-5 w-5 animate-spin" />}
+            Volatility Smile
+          </CardTitle>
+          <CardDescription>{loading ? `Loading ${symbol} implied volatility...` : error}</CardDescription>
+        </CardHeader>
+      </Card>
+    )
+  }
+
+  // Default to the top recommendation's expiration so its strikes show up straight away
+  const recommended = recommendations.length > 0 ? recommendations[0].legs[0].expiration : ''
+  const smile = surface.smiles.find(candidate => candidate.expiration === expiration)
+    || surface.smiles.find(candidate => candidate.expiration === recommended)
+    || surface.smiles[0]
+  const marked = smile ? shortStrikes(recommendations, smile.expiration) : []
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span>Volatility Smile &amp; Term Structure</span>
+          <button
+            onClick={fetchSurface}
+            disabled={loading}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+          >
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          </button>
+        </CardTitle>
+        <CardDescription>
+          Dashed lines mark the short strikes of current recommendations on this expiration
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {smile && (
+          <>
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <select
+                value={smile.expiration}
+                onChange={(e) => setExpiration(e.target.value)}
+                className="px-3 py-1.5 border rounded-lg text-sm bg-white"
+                aria-label="Smile expiration"
+              >
+                {surface.smiles.map(candidate => (
+                  <option key={candidate.expiration} value={candidate.expiration}>
+                    {candidate.expiration} ({candidate.daysToExpiration}d)
+                  </option>
+                ))}
+              </select>
+              <div className="inline-flex rounded-lg border overflow-hidden">
+                {(['strike', 'delta'] as SmileAxis[]).map(option => (
+                  <button
+                    key={option}
+                    onClick={() => setAxis(option)}
+                    className={`px-3 py-1 transition-colors ${axis === option ? 'bg-blue-600 text-white' : 'hover:bg-gray-50'}`}
+                  >
+                    By {option === 'strike' ? 'Strike' : 'Delta'}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                  <XAxis
+                    type="number"
+                    dataKey="x"
+                    domain={['dataMin', 'dataMax']}
+                    tick={{ fontSize: 11 }}
+                    label={{ value: axis === 'strike' ? 'Strike' : '|Delta| (%)', position: 'insideBottom', offset: -2, fontSize: 11 }}
+                  />
+                  <YAxis tick={{ fontSize: 11 }} domain={['auto', 'auto']} tickFormatter={(value: number) => `${Math.round(value)}%`} />
+                  <Tooltip
+                    formatter={(value: number) => `${value.toFixed(1)}%`}
+                    labelFormatter={(value: number) => axis === 'strike' ? `Strike ${value}` : `Delta ${value.toFixed(0)}`}
+                  />
+                  <Legend verticalAlign="top" height={24} />
+                  {axis === 'strike' && (
+                    <ReferenceLine x={surface.currentPrice} stroke="#6b7280" label={{ value: 'Spot', fontSize: 10, position: 'top' }} />
+                  )}
+                  {marked.map(short => (
+                    <ReferenceLine
+                      key={`${short.type}-${short.strike}`}
+                      x={axis === 'strike' ? short.strike : Math.abs(short.delta) * 100}
+                      stroke={short.type === 'call' ? CALL_COLOR : PUT_COLOR}
+                      strokeDasharray="4 4"
+                      label={{ value: `${short.strike}${short.type === 'call' ? 'C' : 'P'}`, fontSize: 10, position: 'insideTopRight' }}
+                    />
+                  ))}
+                  <Line data={toSeries(smile.calls, axis)} dataKey="iv" name="Calls" stroke={CALL_COLOR} dot={false} strokeWidth={2} />
+                  <Line data={toSeries(smile.puts, axis)} dataKey="iv" name="Puts" stroke={PUT_COLOR} dot={false} strokeWidth={2} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </>
+        )}
+
+        {surface.termStructure.length > 1 && (
+          <div>
+            <div className="text-sm font-medium mb-1">ATM IV Term Structure</div>
+            <div className="h-48">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={surface.termStructure.map(point => ({ ...point, iv: point.atmIV * 100 }))}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                  <XAxis type="number" dataKey="daysToExpiration" domain={['dataMin', 'dataMax']} tick={{ fontSize: 11 }} tickFormatter={(value: number) => `${value}d`} />
+                  <YAxis tick={{ fontSize: 11 }} domain={['auto', 'auto']} tickFormatter={(value: number) => `${Math.round(value)}%`} />
+                  <Tooltip
+                    formatter={(value: number) => `${value.toFixed(1)}%`}
+                    labelFormatter={(value: number) => `${value} DTE`}
+                  />
+                  {smile && <ReferenceLine x={smile.daysToExpiration} stroke="#9ca3af" strokeDasharray="4 4" />}
+                  <Line type="monotone" dataKey="iv" name="ATM IV" stroke="#9333ea" strokeWidth={2} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
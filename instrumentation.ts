@@ -0,0 +1,8 @@
+// Runs once when the Next.js server starts
+export async function register() {
+  // The recorder writes to disk, so it only runs in the Node.js runtime
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startSnapshotRecorder } = await import('@/lib/snapshotRecorder')
+    startSnapshotRecorder()
+  }
+}
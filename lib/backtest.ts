@@ -0,0 +1,83 @@
+import type { ScreenerParams } from '@/lib/screener'
+import type { StrategyId } from '@/lib/types'
+
+// Backtest settings and results, shared by the backtest runner, /api/backtest and the results page
+
+export interface BacktestConfig {
+  takeProfitPct: number // close at this percentage of max profit; 0 disables
+  stopLossPct: number // close once the loss reaches this percentage of the entry credit or debit; 0 disables
+  maxOpenTrades: number
+  entryIntervalHours: number // minimum time between entries
+  contracts: number // per trade
+  startingCapital: number
+}
+
+export const DEFAULT_BACKTEST_CONFIG: BacktestConfig = {
+  takeProfitPct: 50,
+  stopLossPct: 200,
+  maxOpenTrades: 3,
+  entryIntervalHours: 24,
+  contracts: 1,
+  startingCapital: 10000
+}
+
+export type ExitReason = 'take_profit' | 'stop_loss' | 'expiration' | 'end_of_data'
+
+export interface BacktestLeg {
+  type: 'call' | 'put'
+  action: 'buy' | 'sell'
+  quantity: number
+  strike: number
+  expiration: string // YYYY-MM-DD
+  entryPrice: number
+  exitPrice: number | null
+}
+
+export interface BacktestTrade {
+  id: number
+  strategy: StrategyId
+  legs: BacktestLeg[]
+  expiration: string // nearest leg expiration
+  entryTime: string
+  entrySpot: number
+  entryCredit: number // per share; negative for a debit
+  maxProfit: number
+  maxLoss: number | null
+  exitTime: string | null
+  exitSpot: number | null
+  exitCost: number | null // per share paid to close; negative when closing receives money
+  exitReason: ExitReason | null
+  pnl: number // dollars, for all contracts; marked to market while open
+}
+
+export interface EquityPoint {
+  timestamp: string
+  equity: number
+  realized: number
+  openTrades: number
+}
+
+export interface BacktestStats {
+  trades: number
+  wins: number
+  losses: number
+  winRate: number // 0-100
+  profitFactor: number | null // gross profit / gross loss; null without losing trades
+  totalPnl: number
+  averagePnl: number
+  maxDrawdown: number // dollars, peak to trough
+  maxDrawdownPct: number // 0-100, of the peak
+  finalEquity: number
+}
+
+export interface BacktestResult {
+  symbol: string
+  params: ScreenerParams
+  config: BacktestConfig
+  snapshots: number
+  from: string | null
+  to: string | null
+  trades: BacktestTrade[]
+  equityCurve: EquityPoint[]
+  stats: BacktestStats
+}
@@ -0,0 +1,116 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { DEFAULT_BACKTEST_CONFIG } from '@/lib/backtest'
+import { runBacktest, screenSnapshot } from '@/lib/backtestRunner'
+import { DEFAULT_SCREENER_PARAMS, type ScreenerParams } from '@/lib/screener'
+import type { ChainSnapshot, SnapshotContract } from '@/lib/snapshots'
+import { modelQuote } from '@/lib/testing/quotes'
+
+const MINUTES_PER_YEAR = 365 * 24 * 60
+const FRIDAY_EXPIRATION = Date.UTC(2025, 0, 17) / 1000 // 2025-01-17
+const SPOT = 400
+const IV = 0.5
+
+const params: ScreenerParams = {
+  ...DEFAULT_SCREENER_PARAMS,
+  minDTE: 0,
+  maxDTE: 10,
+  minCredit: 0,
+  minRiskReward: 0,
+  minLiquidity: 0,
+  strategies: ['bear_call', 'bull_put']
+}
+
+// Quotes a few percent either side of Black-Scholes value for strikes around spot
+function quotes(type: 'call' | 'put', minutesToClose: number): SnapshotContract[] {
+  const contracts: SnapshotContract[] = []
+  for (let strike = 380; strike <= 420; strike += 5) {
+    const { bid, ask, mid } = modelQuote({ type, spot: SPOT, strike, timeToExpiry: minutesToClose / MINUTES_PER_YEAR, volatility: IV }, 0.05)
+    contracts.push({ strike, bid, ask, last: mid, iv: IV, openInterest: 1000, volume: 500 })
+  }
+  return contracts
+}
+
+function snapshot(timestamp: string, minutesToClose: number): ChainSnapshot {
+  return {
+    symbol: 'TSLA',
+    timestamp,
+    spot: SPOT,
+    source: 'test',
+    expirations: [{ expirationDate: FRIDAY_EXPIRATION, calls: quotes('call', minutesToClose), puts: quotes('put', minutesToClose) }]
+  }
+}
+
+// 3:30 PM ET, half an hour before the close on expiration day and the day before
+const EXPIRATION_DAY = snapshot('2025-01-17T20:30:00.000Z', 30)
+const DAY_BEFORE = snapshot('2025-01-16T20:30:00.000Z', 24 * 60 + 30)
+
+describe('screenSnapshot', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('times a 0-DTE snapshot from its own timestamp', () => {
+    const { recommendations, funnel } = screenSnapshot(EXPIRATION_DAY, params)
+
+    expect(funnel.expirations).toEqual({ listed: 1, inWindow: 1 })
+    expect(recommendations.length).toBeGreaterThan(0)
+    recommendations.forEach(rec => {
+      expect(rec.expiration).toBe('2025-01-17')
+      expect(rec.daysToExpiration).toBe(0)
+      expect(rec.tradingDaysToExpiration).toBe(0)
+      expect(rec.timeToExpiry * MINUTES_PER_YEAR).toBeCloseTo(30, 6)
+    })
+  })
+
+  it('times a 1-DTE snapshot to the next close', () => {
+    const { recommendations } = screenSnapshot(DAY_BEFORE, params)
+
+    expect(recommendations.length).toBeGreaterThan(0)
+    recommendations.forEach(rec => {
+      expect(rec.daysToExpiration).toBe(1)
+      expect(rec.tradingDaysToExpiration).toBe(1)
+      expect(rec.timeToExpiry * MINUTES_PER_YEAR).toBeCloseTo(24 * 60 + 30, 6)
+    })
+  })
+
+  it('gives the same results whatever the time the backtest runs', () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2026-10-18T18:56:00Z')) // a Sunday evening
+    const sunday = screenSnapshot(EXPIRATION_DAY, params)
+    vi.setSystemTime(new Date('2026-10-20T14:00:00Z')) // a Tuesday morning
+    const tuesday = screenSnapshot(EXPIRATION_DAY, params)
+
+    expect(tuesday).toEqual(sunday)
+  })
+})
+
+describe('runBacktest', () => {
+  it('settles a position at expiration on the first snapshot after the close', () => {
+    // Monday 2025-01-20 is a market holiday, so the next snapshot is Tuesday
+    const result = runBacktest('TSLA', [DAY_BEFORE, snapshot('2025-01-21T15:00:00.000Z', 0)], params, {
+      ...DEFAULT_BACKTEST_CONFIG,
+      maxOpenTrades: 1
+    })
+
+    expect(result.trades).toHaveLength(1)
+    expect(result.trades[0]).toMatchObject({
+      expiration: '2025-01-17',
+      entryTime: DAY_BEFORE.timestamp,
+      exitTime: '2025-01-21T15:00:00.000Z',
+      exitReason: 'expiration'
+    })
+  })
+
+  it('keeps a position open through expiration day before the close', () => {
+    const result = runBacktest('TSLA', [DAY_BEFORE, EXPIRATION_DAY], params, {
+      ...DEFAULT_BACKTEST_CONFIG,
+      maxOpenTrades: 1,
+      takeProfitPct: 0,
+      stopLossPct: 0
+    })
+
+    expect(result.trades).toHaveLength(1)
+    expect(result.trades[0].exitReason).toBe('end_of_data')
+    expect(result.trades[0].legs.every(leg => leg.exitPrice !== null)).toBe(true)
+  })
+})
@@ -0,0 +1,236 @@
+import { calendarDaysToExpiration } from '@/lib/marketCalendar'
+import { getRiskFreeRate } from '@/lib/pricing'
+import type { ScreenerParams } from '@/lib/screener'
+import { toOptionChains, type ChainSnapshot, type SnapshotContract } from '@/lib/snapshots'
+import { runStrategies, type StrategiesRun } from '@/lib/strategies'
+import { SORT_COMPARATORS, fillPrice, formatExpiration } from '@/lib/strategies/common'
+import type {
+  BacktestConfig,
+  BacktestLeg,
+  BacktestResult,
+  BacktestStats,
+  BacktestTrade,
+  EquityPoint,
+  ExitReason
+} from '@/lib/backtest'
+
+// Replays chain snapshots through the screener: enters the top recommendation at its modeled fill,
+// then exits on take-profit, stop-loss or expiration
+
+interface OpenTrade extends BacktestTrade {
+  lastSpot: number // last spot seen on or before expiration, used to settle expired legs
+}
+
+const SHARES_PER_CONTRACT = 100
+
+// Expired once the expiration's close has passed at the snapshot's time
+function isExpired(expiration: string, snapshot: ChainSnapshot): boolean {
+  return calendarDaysToExpiration(expiration, new Date(snapshot.timestamp)) < 0
+}
+
+function findQuote(snapshot: ChainSnapshot, leg: BacktestLeg): SnapshotContract | undefined {
+  const chain = snapshot.expirations.find(candidate => formatExpiration(candidate.expirationDate) === leg.expiration)
+  if (!chain) return undefined
+  return (leg.type === 'call' ? chain.calls : chain.puts).find(contract => contract.strike === leg.strike)
+}
+
+// Per-share price each leg closes at: intrinsic once expired, otherwise the opposite side's modeled fill.
+// Null when a live leg has no quote in this snapshot.
+function closePrices(trade: OpenTrade, snapshot: ChainSnapshot, params: ScreenerParams): number[] | null {
+  const prices: number[] = []
+  for (const leg of trade.legs) {
+    if (isExpired(leg.expiration, snapshot)) {
+      prices.push(leg.type === 'call'
+        ? Math.max(0, trade.lastSpot - leg.strike)
+        : Math.max(0, leg.strike - trade.lastSpot))
+      continue
+    }
+    const quote = findQuote(snapshot, leg)
+    if (!quote || !(quote.bid >= 0) || !(quote.ask > 0)) return null
+    prices.push(fillPrice(quote, leg.action === 'sell' ? 'buy' : 'sell', params.pricing, params.slippage))
+  }
+  return prices
+}
+
+function closeCost(trade: OpenTrade, prices: number[]): number {
+  return trade.legs.reduce((total, leg, index) =>
+    total + (leg.action === 'sell' ? prices[index] : -prices[index]) * leg.quantity, 0)
+}
+
+// Run the screener as of the snapshot's time, so days and time to expiration are what they were then
+export function screenSnapshot(snapshot: ChainSnapshot, params: ScreenerParams): StrategiesRun {
+  const run = runStrategies({
+    chains: toOptionChains(snapshot),
+    currentPrice: snapshot.spot,
+    riskFreeRate: getRiskFreeRate(),
+    params,
+    now: new Date(snapshot.timestamp)
+  })
+  run.recommendations.sort(SORT_COMPARATORS[params.sort])
+  return run
+}
+
+function legSignature(legs: { type: string; action: string; strike: number; expiration: string }[]): string {
+  return legs.map(leg => `${leg.action}:${leg.type}:${leg.strike}:${leg.expiration}`).join('|')
+}
+
+function computeStats(trades: BacktestTrade[], equityCurve: EquityPoint[], startingCapital: number): BacktestStats {
+  const wins = trades.filter(trade => trade.pnl > 0)
+  const losses = trades.filter(trade => trade.pnl <= 0)
+  const grossProfit = wins.reduce((total, trade) => total + trade.pnl, 0)
+  const grossLoss = -losses.reduce((total, trade) => total + trade.pnl, 0)
+  const totalPnl = grossProfit - grossLoss
+
+  let peak = startingCapital
+  let maxDrawdown = 0
+  let maxDrawdownPct = 0
+  equityCurve.forEach(point => {
+    peak = Math.max(peak, point.equity)
+    const drawdown = peak - point.equity
+    if (drawdown > maxDrawdown) {
+      maxDrawdown = drawdown
+      maxDrawdownPct = peak > 0 ? (drawdown / peak) * 100 : 0
+    }
+  })
+
+  return {
+    trades: trades.length,
+    wins: wins.length,
+    losses: losses.length,
+    winRate: trades.length > 0 ? (wins.length / trades.length) * 100 : 0,
+    profitFactor: grossLoss > 0 ? grossProfit / grossLoss : null,
+    totalPnl,
+    averagePnl: trades.length > 0 ? totalPnl / trades.length : 0,
+    maxDrawdown,
+    maxDrawdownPct,
+    finalEquity: startingCapital + totalPnl
+  }
+}
+
+export function runBacktest(
+  symbol: string,
+  snapshots: ChainSnapshot[],
+  params: ScreenerParams,
+  config: BacktestConfig
+): BacktestResult {
+  const ordered = snapshots.slice().sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+  const multiplier = SHARES_PER_CONTRACT * config.contracts
+  const closed: BacktestTrade[] = []
+  const equityCurve: EquityPoint[] = []
+  let open: OpenTrade[] = []
+  let realized = 0
+  let lastEntry = -Infinity
+  let nextId = 1
+
+  const closeTrade = (trade: OpenTrade, snapshot: ChainSnapshot, prices: number[], reason: ExitReason) => {
+    const cost = closeCost(trade, prices)
+    const pnl = (trade.entryCredit - cost) * multiplier
+    realized += pnl
+    const { lastSpot, ...record } = trade
+    closed.push({
+      ...record,
+      legs: trade.legs.map((leg, index) => ({ ...leg, exitPrice: prices[index] })),
+      exitTime: snapshot.timestamp,
+      exitSpot: reason === 'expiration' ? lastSpot : snapshot.spot,
+      exitCost: cost,
+      exitReason: reason,
+      pnl
+    })
+  }
+
+  ordered.forEach((snapshot, index) => {
+    const isLast = index === ordered.length - 1
+
+    // Exits: settle expired positions, then check profit target and stop on the rest
+    open = open.filter(trade => {
+      const expired = isExpired(trade.expiration, snapshot)
+      if (!expired) trade.lastSpot = snapshot.spot
+
+      const prices = closePrices(trade, snapshot, params)
+      if (!prices) return true // no quote this snapshot; keep the previous mark
+
+      const pnlPerShare = trade.entryCredit - closeCost(trade, prices)
+      trade.pnl = pnlPerShare * multiplier
+
+      let reason: ExitReason | null = null
+      if (expired) reason = 'expiration'
+      else if (config.takeProfitPct > 0 && pnlPerShare >= trade.maxProfit * config.takeProfitPct / 100) reason = 'take_profit'
+      else if (config.stopLossPct > 0 && -pnlPerShare >= Math.abs(trade.entryCredit) * config.stopLossPct / 100) reason = 'stop_loss'
+      else if (isLast) reason = 'end_of_data'
+
+      if (!reason) return true
+      closeTrade(trade, snapshot, prices, reason)
+      return false
+    })
+
+    // Entries: the top-ranked recommendation not already held
+    const time = new Date(snapshot.timestamp).getTime()
+    if (!isLast && open.length < config.maxOpenTrades && time - lastEntry >= config.entryIntervalHours * 60 * 60 * 1000) {
+      const { recommendations } = screenSnapshot(snapshot, params)
+      const held = open.map(trade => legSignature(trade.legs))
+
+      const pick = recommendations
+        .map(rec => ({
+          rec,
+          legs: rec.legs.map(leg => ({
+            type: leg.type,
+            action: leg.action,
+            quantity: leg.quantity,
+            strike: leg.strike,
+            expiration: leg.expiration,
+            entryPrice: leg.price,
+            exitPrice: null
+          }))
+        }))
+        .find(candidate => held.indexOf(legSignature(candidate.legs)) === -1)
+
+      if (pick) {
+        open.push({
+          id: nextId++,
+          strategy: pick.rec.strategy,
+          legs: pick.legs,
+          expiration: pick.rec.expiration,
+          entryTime: snapshot.timestamp,
+          entrySpot: snapshot.spot,
+          entryCredit: pick.rec.netCredit,
+          maxProfit: pick.rec.maxProfit,
+          maxLoss: pick.rec.maxLoss,
+          exitTime: null,
+          exitSpot: null,
+          exitCost: null,
+          exitReason: null,
+          pnl: 0,
+          lastSpot: snapshot.spot
+        })
+        lastEntry = time
+      }
+    }
+
+    equityCurve.push({
+      timestamp: snapshot.timestamp,
+      equity: config.startingCapital + realized + open.reduce((total, trade) => total + trade.pnl, 0),
+      realized,
+      openTrades: open.length
+    })
+  })
+
+  // Positions still open had no quote on the final snapshot; report them at their last mark
+  open.forEach(trade => {
+    const { lastSpot, ...record } = trade
+    realized += trade.pnl
+    closed.push({ ...record, exitReason: 'end_of_data', exitSpot: lastSpot })
+  })
+
+  const trades = closed.sort((a, b) => a.id - b.id)
+  return {
+    symbol,
+    params,
+    config,
+    snapshots: ordered.length,
+    from: ordered.length > 0 ? ordered[0].timestamp : null,
+    to: ordered.length > 0 ? ordered[ordered.length - 1].timestamp : null,
+    trades,
+    equityCurve,
+    stats: computeStats(trades, equityCurve, config.startingCapital)
+  }
+}
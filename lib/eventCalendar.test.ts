@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest'
+import {
+  eventsThrough,
+  getStaticEarningsEvents,
+  getStaticEconomicEvents,
+  highImpactEvents,
+  type CalendarEvents
+} from '@/lib/eventCalendar'
+
+// 2026-10-28 is an FOMC decision day; TSLA's static earnings date in October is the 23rd
+const FOMC_DAY_MORNING = new Date('2026-10-28T14:00:00Z') // 10:00 AM ET
+const FOMC_DAY_EVENING = new Date('2026-10-29T02:00:00Z') // 10:00 PM ET, already the 29th in UTC
+
+function calendarFor(now: Date): CalendarEvents {
+  return {
+    economicEvents: getStaticEconomicEvents(now),
+    earningsEvents: getStaticEarningsEvents('TSLA', now),
+    sources: ['static'],
+    usedStatic: true,
+    errors: []
+  }
+}
+
+describe('static events', () => {
+  it('keeps an event dated today for the whole New York day', () => {
+    [FOMC_DAY_MORNING, FOMC_DAY_EVENING].forEach(now => {
+      const fomc = getStaticEconomicEvents(now).filter(event => event.category === 'Federal Reserve')
+      expect(fomc[0].date).toBe('2026-10-28')
+    })
+  })
+
+  it('keeps earnings reported today', () => {
+    const earnings = getStaticEarningsEvents('TSLA', new Date('2026-10-23T15:00:00Z'))
+    expect(earnings[0].date).toBe('2026-10-23')
+  })
+
+  it('drops events from earlier days', () => {
+    const now = new Date('2026-10-29T14:00:00Z')
+    expect(getStaticEconomicEvents(now).every(event => event.date >= '2026-10-29')).toBe(true)
+  })
+
+  it('puts CPI on the 15th and payrolls on the first Friday', () => {
+    const events = getStaticEconomicEvents(new Date('2026-10-19T14:00:00Z'))
+    expect(events.find(event => event.event.indexOf('CPI') !== -1)?.date).toBe('2026-11-15')
+    expect(events.find(event => event.event === 'Non-Farm Payrolls')?.date).toBe('2026-11-06')
+  })
+})
+
+describe('eventsThrough', () => {
+  it('flags a position spanning an event on the same day', () => {
+    const events = highImpactEvents(calendarFor(FOMC_DAY_MORNING))
+    const spanned = eventsThrough(events, '2026-10-30', FOMC_DAY_MORNING)
+    expect(spanned.map(event => event.kind)).toContain('fomc')
+  })
+
+  it('flags same-day earnings for an expiration after them', () => {
+    const now = new Date('2026-10-23T15:00:00Z')
+    const events = highImpactEvents(calendarFor(now))
+    expect(eventsThrough(events, '2026-10-30', now).map(event => event.kind)).toContain('earnings')
+    // After-close earnings on expiration day land once the options have expired
+    expect(eventsThrough(events, '2026-10-23', now).map(event => event.kind)).not.toContain('earnings')
+  })
+})
@@ -0,0 +1,345 @@
+import { apiCache } from '@/lib/cache'
+import { addDays, getEarlyCloses, getMarketHolidays, toEasternTime } from '@/lib/marketCalendar'
+import { toProviderError, type ProviderError } from '@/lib/provenance'
+import { getSymbolProfile } from '@/lib/symbols'
+
+// Economic and earnings events shared by /api/economic-calendar and the options screener's event-risk check
+
+const FMP_API = 'https://financialmodelingprep.com/api/v3'
+const FMP_KEY = process.env.FMP_API_KEY || 'demo'
+
+// Far enough ahead to cover the longest screener window (60 DTE plus the calendar's 35-day lookahead)
+const EVENT_HORIZON_DAYS = 100
+
+export interface EconomicEvent {
+  date: string
+  event: string
+  importance: 'high' | 'medium' | 'low'
+  actual?: string | number
+  forecast?: string | number
+  previous?: string | number
+  currency: string
+  impact: 'bullish' | 'bearish' | 'neutral'
+  description: string
+  category: string
+}
+
+export interface EarningsEvent {
+  date: string
+  symbol: string
+  time: 'bmo' | 'amc' // before market open / after market close
+  eps_estimate?: number
+  eps_actual?: number
+  revenue_estimate?: number
+  revenue_actual?: number
+  importance: 'high' | 'medium' | 'low'
+}
+
+// YYYY-MM-DD for a month index that may run past December into later years
+function monthDate(year: number, monthIndex: number, day: number): string {
+  return new Date(Date.UTC(year, monthIndex, day)).toISOString().split('T')[0]
+}
+
+// Static high-impact economic events for the rest of this year and next. Events dated today
+// (New York) are kept all day; comparing Date objects would drop them from UTC midnight.
+export function getStaticEconomicEvents(now: Date = new Date()): EconomicEvent[] {
+  const events: EconomicEvent[] = []
+  const today = toEasternTime(now).date
+  const currentYear = Number(today.slice(0, 4))
+  
+  // FOMC rate decision dates (second day of each meeting)
+  const fomcDates = [
+    '2024-03-20', '2024-05-01', '2024-06-12', '2024-07-31',
+    '2024-09-18', '2024-11-07', '2024-12-18',
+    '2025-01-29', '2025-03-19', '2025-05-07', '2025-06-18',
+    '2025-07-30', '2025-09-17', '2025-10-29', '2025-12-10',
+    '2026-01-28', '2026-03-18', '2026-04-29', '2026-06-17',
+    '2026-07-29', '2026-09-16', '2026-10-28', '2026-12-09'
+  ]
+  
+  fomcDates.forEach(date => {
+    if (date >= today) {
+      events.push({
+        date,
+        event: 'FOMC Meeting - Interest Rate Decision',
+        importance: 'high',
+        currency: 'USD',
+        impact: 'neutral',
+        description: 'Federal Reserve monetary policy meeting with potential rate changes',
+        category: 'Federal Reserve'
+      })
+    }
+  })
+
+  // CPI Release Dates (typically mid-month); months past December roll into next year
+  for (let month = 1; month <= 24; month++) {
+    const cpiDate = monthDate(currentYear, month - 1, 15)
+    if (cpiDate >= today) {
+      events.push({
+        date: cpiDate,
+        event: 'Consumer Price Index (CPI)',
+        importance: 'high',
+        currency: 'USD',
+        impact: 'neutral',
+        description: 'Monthly inflation data that heavily influences Fed policy',
+        category: 'Economic Data'
+      })
+    }
+  }
+
+  // Non-Farm Payrolls (first Friday of each month)
+  for (let month = 1; month <= 24; month++) {
+    const firstOfMonth = monthDate(currentYear, month - 1, 1)
+    const daysToFirstFriday = (5 - new Date(`${firstOfMonth}T00:00:00Z`).getUTCDay() + 7) % 7
+    const firstFriday = addDays(firstOfMonth, daysToFirstFriday)
+    
+    if (firstFriday >= today) {
+      events.push({
+        date: firstFriday,
+        event: 'Non-Farm Payrolls',
+        importance: 'high',
+        currency: 'USD',
+        impact: 'neutral',
+        description: 'Monthly employment data showing job growth',
+        category: 'Employment'
+      })
+    }
+  }
+
+  return events.sort((a, b) => a.date.localeCompare(b.date))
+}
+
+// NYSE holidays and 1:00 PM early closes from today (New York) through next year
+export function getMarketHoursEvents(now: Date = new Date()): EconomicEvent[] {
+  const today = toEasternTime(now).date
+  const year = Number(today.slice(0, 4))
+  const years = [year, year + 1]
+  const events: EconomicEvent[] = []
+
+  years.forEach(calendarYear => {
+    getMarketHolidays(calendarYear).forEach(holiday => {
+      events.push({
+        date: holiday.date,
+        event: `Market Holiday - ${holiday.name}`,
+        importance: 'medium',
+        currency: 'USD',
+        impact: 'neutral',
+        description: 'U.S. stock and options markets are closed',
+        category: 'Market Hours'
+      })
+    })
+    getEarlyCloses(calendarYear).forEach(halfDay => {
+      events.push({
+        date: halfDay.date,
+        event: `Early Close - ${halfDay.name}`,
+        importance: 'low',
+        currency: 'USD',
+        impact: 'neutral',
+        description: 'Stocks close at 1:00 PM ET; options expiring today stop trading then',
+        category: 'Market Hours'
+      })
+    })
+  })
+
+  return events.filter(event => event.date >= today)
+}
+
+// Approximate quarterly earnings dates for the symbol (none for ETFs), from today in New York
+export function getStaticEarningsEvents(symbol: string, now: Date = new Date()): EarningsEvent[] {
+  const events: EarningsEvent[] = []
+  const today = toEasternTime(now).date
+  const currentYear = Number(today.slice(0, 4))
+  // This year's and next year's, so a report early next year is seen late in this one
+  const years = [currentYear, currentYear + 1]
+
+  years.forEach(year => {
+    getSymbolProfile(symbol).earningsDates.forEach(monthDay => {
+      const date = `${year}-${monthDay}`
+      if (date >= today) {
+        events.push({
+          date,
+          symbol,
+          time: 'amc',
+          importance: 'high'
+        })
+      }
+    })
+  })
+
+  return events
+}
+
+export interface CalendarEvents {
+  economicEvents: EconomicEvent[]
+  earningsEvents: EarningsEvent[]
+  sources: string[] // 'fmp' and/or 'static'
+  usedStatic: boolean
+  errors: ProviderError[]
+}
+
+// Upcoming economic and earnings events for the symbol from FMP, filling gaps with the static schedule.
+// Cached for 4 hours so both routes share one fetch.
+export async function getCalendarEvents(symbol: string): Promise<CalendarEvents> {
+  const cacheKey = `calendar-events:${symbol}`
+  const cached = apiCache.get(cacheKey)
+  if (cached) return cached
+
+  const errors: ProviderError[] = []
+  const today = toEasternTime(new Date()).date
+  const horizon = addDays(today, EVENT_HORIZON_DAYS)
+  let economicEvents: EconomicEvent[] = []
+  let earningsEvents: EarningsEvent[] = []
+
+  // Try to fetch from Financial Modeling Prep
+  if (FMP_KEY === 'demo') {
+    errors.push({ provider: 'fmp', message: 'skipped: no API key configured' })
+  } else {
+    try {
+      // Economic calendar
+      const economicResponse = await fetch(
+        `${FMP_API}/economic_calendar?apikey=${FMP_KEY}`
+      )
+      const economicData = await economicResponse.json()
+      
+      if (!Array.isArray(economicData)) {
+        errors.push({ provider: 'fmp', message: economicData?.['Error Message'] || 'Unexpected economic calendar response' })
+      } else {
+        economicEvents = economicData
+          .filter(event => {
+            // FMP dates look like "2025-01-15 13:30:00"
+            const date = String(event.date).slice(0, 10)
+            return date >= today && date <= horizon
+          })
+          .map(event => ({
+            date: event.date,
+            event: event.event,
+            importance: event.impact === 'High' ? 'high' : event.impact === 'Medium' ? 'medium' : 'low',
+            actual: event.actual,
+            forecast: event.estimate,
+            previous: event.previous,
+            currency: event.currency,
+            impact: 'neutral',
+            description: event.event,
+            category: determineEventCategory(event.event)
+          }))
+      }
+
+      // Earnings for the selected symbol
+      const earningsResponse = await fetch(
+        `${FMP_API}/earning_calendar?symbol=${symbol}&apikey=${FMP_KEY}`
+      )
+      const earningsData = await earningsResponse.json()
+      
+      if (!Array.isArray(earningsData)) {
+        errors.push({ provider: 'fmp', message: earningsData?.['Error Message'] || 'Unexpected earnings calendar response' })
+      } else {
+        earningsEvents = earningsData
+          .filter(event => event.symbol === symbol && String(event.date).slice(0, 10) >= today)
+          .map(event => ({
+            date: event.date,
+            symbol: event.symbol,
+            time: event.time || 'amc',
+            eps_estimate: event.epsEstimated,
+            revenue_estimate: event.revenueEstimated,
+            importance: 'high'
+          }))
+      }
+    } catch (error) {
+      console.error('FMP API error:', error)
+      errors.push(toProviderError('fmp', error))
+    }
+  }
+
+  // If no API data available, use static events
+  const sources: string[] = []
+  let usedStatic = false
+
+  if (economicEvents.length === 0) {
+    economicEvents = getStaticEconomicEvents()
+    usedStatic = true
+  } else {
+    sources.push('fmp')
+  }
+
+  if (earningsEvents.length === 0) {
+    earningsEvents = getStaticEarningsEvents(symbol)
+    usedStatic = usedStatic || earningsEvents.length > 0
+  } else if (sources.indexOf('fmp') === -1) {
+    sources.push('fmp')
+  }
+  if (usedStatic) sources.push('static')
+
+  // Market holidays and half days come from the trading calendar whatever the event source
+  economicEvents = economicEvents
+    .concat(getMarketHoursEvents())
+    .sort((a, b) => a.date.localeCompare(b.date))
+
+  const result = { economicEvents, earningsEvents, sources, usedStatic, errors }
+  apiCache.set(cacheKey, result, 4 * 60 * 60)
+  return result
+}
+
+// A high-impact event as attached to recommendations
+export interface MarketEvent {
+  date: string // YYYY-MM-DD
+  name: string
+  kind: 'fomc' | 'cpi' | 'nfp' | 'earnings'
+  time?: 'bmo' | 'amc' // earnings only
+}
+
+function macroKind(event: EconomicEvent): MarketEvent['kind'] | null {
+  const name = event.event.toLowerCase()
+  if (name.includes('fomc') || (event.category === 'Federal Reserve' && name.includes('rate'))) return 'fomc'
+  if (name.includes('cpi') || name.includes('consumer price')) return 'cpi'
+  if (name.includes('payroll')) return 'nfp'
+  return null
+}
+
+// FOMC, CPI, NFP and the symbol's earnings, in date order
+export function highImpactEvents(calendar: CalendarEvents): MarketEvent[] {
+  const events: MarketEvent[] = []
+
+  calendar.economicEvents.forEach(event => {
+    const kind = macroKind(event)
+    if (kind && event.importance === 'high') {
+      events.push({ date: event.date.split(' ')[0].split('T')[0], name: event.event, kind })
+    }
+  })
+  calendar.earningsEvents.forEach(event => {
+    events.push({ date: event.date, name: `${event.symbol} earnings`, kind: 'earnings', time: event.time })
+  })
+
+  return events.sort((a, b) => a.date.localeCompare(b.date))
+}
+
+// Events from today through an expiration date. Earnings after the close on expiration day
+// land once the options have expired, so they don't count.
+export function eventsThrough(events: MarketEvent[], expiration: string, now: Date = new Date()): MarketEvent[] {
+  const today = toEasternTime(now).date
+  return events.filter(event =>
+    event.date >= today &&
+    (event.date < expiration || (event.date === expiration && !(event.kind === 'earnings' && event.time === 'amc')))
+  )
+}
+
+function determineEventCategory(eventName: string): string {
+  const name = eventName.toLowerCase()
+  
+  if (name.includes('fomc') || name.includes('fed') || name.includes('interest rate')) {
+    return 'Federal Reserve'
+  }
+  if (name.includes('cpi') || name.includes('inflation') || name.includes('ppi')) {
+    return 'Inflation'
+  }
+  if (name.includes('gdp') || name.includes('growth')) {
+    return 'Economic Growth'
+  }
+  if (name.includes('employment') || name.includes('payroll') || name.includes('jobless')) {
+    return 'Employment'
+  }
+  if (name.includes('retail') || name.includes('consumer')) {
+    return 'Consumer Data'
+  }
+  
+  return 'Economic Data'
+}
@@ -0,0 +1,77 @@
+import type { OptionChain, OptionContract, StrategyRecommendation } from '@/lib/types'
+import { formatExpiration, getExpirationTiming } from '@/lib/strategies/common'
+
+// Market-implied expected move per expiration, priced from the at-the-money straddle
+
+export interface ExpectedMove {
+  expiration: string // YYYY-MM-DD, matches recommendation expirations
+  daysToExpiration: number
+  atmStrike: number
+  straddle: number // call mid + put mid, per share
+  move: number // expected move in dollars, taken as the straddle price
+  lower: number
+  upper: number
+  standardDeviation: number // 1SD move in dollars from ATM IV
+}
+
+// Short strike placement, measured from spot to the nearest short strike
+export interface StrikePlacement {
+  expectedMoves: number
+  standardDeviations: number
+}
+
+function midPrice(contract: OptionContract): number {
+  return contract.bid > 0 && contract.ask > 0 ? (contract.bid + contract.ask) / 2 : contract.lastPrice
+}
+
+export function expectedMoveForChain(chain: OptionChain, spot: number, now: Date = new Date()): ExpectedMove | null {
+  // Strike nearest spot that has both a call and a put
+  const atm = chain.calls
+    .filter(call => chain.puts.some(put => put.strike === call.strike))
+    .sort((a, b) => Math.abs(a.strike - spot) - Math.abs(b.strike - spot))[0]
+  if (!atm) return null
+  const put = chain.puts.find(contract => contract.strike === atm.strike)!
+
+  const straddle = midPrice(atm) + midPrice(put)
+  if (!(straddle > 0)) return null
+
+  const { daysToExpiration, timeToExpiry } = getExpirationTiming(chain.expirationDate, now)
+  const atmIV = (atm.impliedVolatility + put.impliedVolatility) / 2
+
+  return {
+    expiration: formatExpiration(chain.expirationDate),
+    daysToExpiration,
+    atmStrike: atm.strike,
+    straddle,
+    move: straddle,
+    lower: spot - straddle,
+    upper: spot + straddle,
+    standardDeviation: spot * atmIV * Math.sqrt(timeToExpiry)
+  }
+}
+
+export function getExpectedMoves(chains: OptionChain[], spot: number, now: Date = new Date()): ExpectedMove[] {
+  return chains
+    .map(chain => expectedMoveForChain(chain, spot, now))
+    .filter((move): move is ExpectedMove => move !== null)
+    .sort((a, b) => a.daysToExpiration - b.daysToExpiration)
+}
+
+// Distance of the recommendation's closest short strike (on its nearest expiration) from spot
+export function strikePlacement(
+  rec: StrategyRecommendation,
+  expectedMove: ExpectedMove | undefined,
+  spot: number
+): StrikePlacement | null {
+  if (!expectedMove) return null
+  const distances = rec.legs
+    .filter(leg => leg.action === 'sell' && leg.expiration === rec.expiration)
+    .map(leg => Math.abs(leg.strike - spot))
+  if (distances.length === 0) return null
+
+  const distance = Math.min(...distances)
+  return {
+    expectedMoves: distance / expectedMove.move,
+    standardDeviations: expectedMove.standardDeviation > 0 ? distance / expectedMove.standardDeviation : 0
+  }
+}
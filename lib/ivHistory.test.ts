@@ -0,0 +1,73 @@
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { computeIVStats, readIVHistory, recordIVSample, type IVSample } from '@/lib/ivHistory'
+
+describe('recordIVSample', () => {
+  const setting = process.env.IV_HISTORY_DIR
+  let dir: string
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'iv-history-'))
+    process.env.IV_HISTORY_DIR = dir
+  })
+
+  afterEach(async () => {
+    if (setting === undefined) delete process.env.IV_HISTORY_DIR
+    else process.env.IV_HISTORY_DIR = setting
+    await fs.rm(dir, { recursive: true, force: true })
+  })
+
+  it('dates an evening reading by its New York session', async () => {
+    await recordIVSample('TSLA', 0.5, new Date('2026-10-15T15:00:00Z')) // Thursday 11:00 AM ET
+    await recordIVSample('TSLA', 0.52, new Date('2026-10-16T14:00:00Z')) // Friday 10:00 AM ET
+    // Friday 9:00 PM ET, already Saturday in UTC
+    const samples = await recordIVSample('TSLA', 0.55, new Date('2026-10-17T01:00:00Z'))
+
+    expect(samples.map(sample => [sample.date, sample.atmIV])).toEqual([
+      ['2026-10-15', 0.5],
+      ['2026-10-16', 0.55]
+    ])
+  })
+
+  it('skips weekends and holidays', async () => {
+    await recordIVSample('TSLA', 0.5, new Date('2026-11-25T15:00:00Z')) // Wednesday
+    await recordIVSample('TSLA', 0.6, new Date('2026-11-26T15:00:00Z')) // Thanksgiving
+    await recordIVSample('TSLA', 0.7, new Date('2026-11-28T15:00:00Z')) // Saturday
+
+    expect((await readIVHistory('TSLA')).map(sample => sample.date)).toEqual(['2026-11-25'])
+  })
+
+  it('drops stored non-session samples on the next write', async () => {
+    await fs.writeFile(path.join(dir, 'TSLA.json'), JSON.stringify({
+      symbol: 'TSLA',
+      samples: [
+        { date: '2026-10-16', atmIV: 0.5, timestamp: '2026-10-16T15:00:00.000Z' },
+        { date: '2026-10-17', atmIV: 0.5, timestamp: '2026-10-17T15:00:00.000Z' }
+      ]
+    }))
+    const samples = await recordIVSample('TSLA', 0.5, new Date('2026-10-19T15:00:00Z'))
+    expect(samples.map(sample => sample.date)).toEqual(['2026-10-16', '2026-10-19'])
+  })
+})
+
+describe('computeIVStats', () => {
+  it('ranks the latest sample within the last 365 days', () => {
+    // Exactly 365 days before the latest sample, so outside the window
+    const samples: IVSample[] = [{ date: '2025-10-19', atmIV: 0.9, timestamp: '' }]
+    for (let day = 1; day <= 10; day++) {
+      const date = `2026-10-${day < 10 ? `0${day}` : day}`
+      samples.push({ date, atmIV: 0.4 + day * 0.01, timestamp: `${date}T15:00:00.000Z` })
+    }
+    samples.push({ date: '2026-10-19', atmIV: 0.45, timestamp: '2026-10-19T15:00:00.000Z' })
+
+    expect(computeIVStats('TSLA', samples)).toMatchObject({
+      current: 0.45,
+      high: expect.closeTo(0.5, 10),
+      low: expect.closeTo(0.41, 10),
+      sampleCount: 11,
+      regime: 'normal'
+    })
+  })
+})
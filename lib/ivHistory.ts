@@ -0,0 +1,166 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { addDays, isTradingDay, toEasternTime } from '@/lib/marketCalendar'
+import { MarketDataError, getChain, getExpirations } from '@/lib/marketData'
+import { toProviderError, type ProviderError } from '@/lib/provenance'
+import { getDaysToExpiration } from '@/lib/strategies/common'
+import type { OptionChain } from '@/lib/types'
+import { isMissingFile } from '@/lib/utils'
+
+// Daily ATM implied volatility per symbol, kept as JSON files on disk, with IV rank and percentile
+
+export interface IVSample {
+  date: string // YYYY-MM-DD session date in New York; one sample per trading day, updated by each fetch
+  atmIV: number // annualized
+  timestamp: string
+}
+
+export type IVRegime = 'low' | 'normal' | 'elevated' | 'unknown'
+
+export interface IVStats {
+  symbol: string
+  current: number | null // latest ATM IV
+  asOf: string | null
+  high: number | null // 52-week range
+  low: number | null
+  ivRank: number | null // 0-100, where current sits between the 52-week low and high
+  ivPercentile: number | null // 0-100, share of days in the window with lower IV
+  regime: IVRegime
+  sampleCount: number
+}
+
+// ATM IV is read from the expiration closest to this many days out
+const TARGET_DTE = 30
+// Rank and percentile are meaningless on a handful of days
+const MIN_SAMPLES_FOR_RANK = 10
+const LOOKBACK_DAYS = 365
+// Keep a little over the lookback so the window is always full
+const MAX_STORED_SAMPLES = 400
+
+export function getIVHistoryDir(): string {
+  return process.env.IV_HISTORY_DIR || path.join(process.cwd(), 'data', 'iv-history')
+}
+
+function historyFile(symbol: string): string {
+  return path.join(getIVHistoryDir(), `${symbol}.json`)
+}
+
+export async function readIVHistory(symbol: string): Promise<IVSample[]> {
+  try {
+    const file = JSON.parse(await fs.readFile(historyFile(symbol), 'utf8'))
+    return Array.isArray(file.samples) ? file.samples : []
+  } catch (error) {
+    if (isMissingFile(error)) return []
+    throw error
+  }
+}
+
+// Store the session's ATM IV under its New York date, replacing any earlier reading from that day.
+// Weekends and holidays aren't sessions, so readings then leave the history unchanged.
+export async function recordIVSample(symbol: string, atmIV: number, timestamp: Date = new Date()): Promise<IVSample[]> {
+  const history = await readIVHistory(symbol)
+  const date = toEasternTime(timestamp).date
+  if (!isTradingDay(date)) return history
+
+  const sample: IVSample = { date, atmIV, timestamp: timestamp.toISOString() }
+  const samples = history
+    // Non-session dates never belong in the window
+    .filter(existing => existing.date !== sample.date && isTradingDay(existing.date))
+    .concat(sample)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .slice(-MAX_STORED_SAMPLES)
+
+  // Write then rename so a concurrent reader never sees a half-written file
+  const file = historyFile(symbol)
+  await fs.mkdir(path.dirname(file), { recursive: true })
+  await fs.writeFile(`${file}.tmp`, JSON.stringify({ symbol, samples }, null, 2))
+  await fs.rename(`${file}.tmp`, file)
+  return samples
+}
+
+// Average call and put IV at the strike nearest spot
+export function atmImpliedVolatility(chain: OptionChain, spot: number): number | null {
+  const nearest = (contracts: OptionChain['calls']) =>
+    contracts
+      .filter(contract => contract.impliedVolatility > 0)
+      .sort((a, b) => Math.abs(a.strike - spot) - Math.abs(b.strike - spot))[0]
+
+  const ivs = [nearest(chain.calls), nearest(chain.puts)]
+    .filter(contract => contract !== undefined)
+    .map(contract => contract.impliedVolatility)
+  return ivs.length > 0 ? ivs.reduce((sum, iv) => sum + iv, 0) / ivs.length : null
+}
+
+// Fetch the ATM IV of the expiration nearest TARGET_DTE
+export async function fetchAtmIV(symbol: string, spot: number): Promise<{ atmIV: number | null; errors: ProviderError[] }> {
+  const expirations = await getExpirations(symbol)
+  const target = expirations.data
+    .filter(expirationDate => getDaysToExpiration(expirationDate) >= 1)
+    .sort((a, b) =>
+      Math.abs(getDaysToExpiration(a) - TARGET_DTE) - Math.abs(getDaysToExpiration(b) - TARGET_DTE)
+    )[0]
+  if (target === undefined) return { atmIV: null, errors: expirations.errors }
+
+  const chain = await getChain(symbol, target)
+  return { atmIV: atmImpliedVolatility(chain.data, spot), errors: [...expirations.errors, ...chain.errors] }
+}
+
+export function ivRegime(ivRank: number | null): IVRegime {
+  if (ivRank === null) return 'unknown'
+  if (ivRank < 25) return 'low'
+  if (ivRank < 50) return 'normal'
+  return 'elevated'
+}
+
+export function computeIVStats(symbol: string, samples: IVSample[]): IVStats {
+  const latest = samples[samples.length - 1]
+  if (!latest) {
+    return {
+      symbol, current: null, asOf: null, high: null, low: null,
+      ivRank: null, ivPercentile: null, regime: 'unknown', sampleCount: 0
+    }
+  }
+
+  const cutoff = addDays(latest.date, -LOOKBACK_DAYS)
+  const window = samples.filter(sample => sample.date > cutoff).map(sample => sample.atmIV)
+  const high = Math.max(...window)
+  const low = Math.min(...window)
+
+  let ivRank: number | null = null
+  let ivPercentile: number | null = null
+  if (window.length >= MIN_SAMPLES_FOR_RANK) {
+    ivRank = high > low ? ((latest.atmIV - low) / (high - low)) * 100 : 50
+    ivPercentile = (window.filter(iv => iv < latest.atmIV).length / window.length) * 100
+  }
+
+  return {
+    symbol,
+    current: latest.atmIV,
+    asOf: latest.timestamp,
+    high,
+    low,
+    ivRank,
+    ivPercentile,
+    regime: ivRegime(ivRank),
+    sampleCount: window.length
+  }
+}
+
+// Record the current ATM IV and return stats over the stored history.
+// Never throws: a failed fetch or write still returns stats from whatever is on disk, with the errors.
+export async function updateIVHistory(symbol: string, spot: number): Promise<{ stats: IVStats; errors: ProviderError[] }> {
+  const errors: ProviderError[] = []
+  let samples: IVSample[]
+
+  try {
+    const { atmIV, errors: fetchErrors } = await fetchAtmIV(symbol, spot)
+    errors.push(...fetchErrors)
+    samples = atmIV !== null ? await recordIVSample(symbol, atmIV) : await readIVHistory(symbol)
+  } catch (error) {
+    console.error(`Error recording ${symbol} ATM IV:`, error)
+    errors.push(...(error instanceof MarketDataError ? error.errors : [toProviderError('iv-history', error)]))
+    samples = await readIVHistory(symbol).catch(() => [])
+  }
+
+  return { stats: computeIVStats(symbol, samples), errors }
+}
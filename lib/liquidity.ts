@@ -0,0 +1,57 @@
+import type { OptionContract } from '@/lib/types'
+
+// Liquidity scoring for option legs and multi-leg positions, 0 (untradeable) to 100
+
+export interface LegLiquidity {
+  score: number // 0-100
+  bidAskPct: number // (ask - bid) / mid, as a percentage; 100 when either side is missing
+  openInterest: number
+  volume: number
+}
+
+export type LiquidityRating = 'high' | 'medium' | 'low'
+
+// A market this wide relative to its mid scores zero on the spread component
+const MAX_BID_ASK_PCT = 50
+// Open interest and volume at which those components saturate
+const FULL_OPEN_INTEREST = 5000
+const FULL_VOLUME = 1000
+
+const WEIGHTS = { bidAsk: 0.5, openInterest: 0.3, volume: 0.2 }
+
+// Log scale so the difference between 10 and 100 contracts counts as much as 500 to 5000
+function logScore(value: number, full: number): number {
+  return Math.min(1, Math.log10(1 + Math.max(0, value)) / Math.log10(1 + full))
+}
+
+export function legLiquidity(contract: OptionContract): LegLiquidity {
+  const openInterest = contract.openInterest || 0
+  const volume = contract.volume || 0
+
+  // A leg without a two-sided market can't be traded at a sensible price regardless of OI
+  if (!(contract.bid > 0) || !(contract.ask > 0) || contract.ask < contract.bid) {
+    return { score: 0, bidAskPct: 100, openInterest, volume }
+  }
+
+  const mid = (contract.bid + contract.ask) / 2
+  const bidAskPct = ((contract.ask - contract.bid) / mid) * 100
+  const bidAskScore = Math.max(0, 1 - bidAskPct / MAX_BID_ASK_PCT)
+
+  const score =
+    WEIGHTS.bidAsk * bidAskScore +
+    WEIGHTS.openInterest * logScore(openInterest, FULL_OPEN_INTEREST) +
+    WEIGHTS.volume * logScore(volume, FULL_VOLUME)
+
+  return { score: score * 100, bidAskPct, openInterest, volume }
+}
+
+// A position is only as liquid as its weakest leg
+export function positionLiquidity(legs: { liquidity: LegLiquidity }[]): number {
+  return legs.reduce((min, leg) => Math.min(min, leg.liquidity.score), 100)
+}
+
+export function liquidityRating(score: number): LiquidityRating {
+  if (score >= 60) return 'high'
+  if (score >= 30) return 'medium'
+  return 'low'
+}
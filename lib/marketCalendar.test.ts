@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest'
+import {
+  calendarDaysToExpiration,
+  easternToDate,
+  expirationClose,
+  getEarlyClose,
+  getHoliday,
+  getMarketSession,
+  getMarketStatus,
+  getTradingHours,
+  isTradingDay,
+  tradingDaysToExpiration
+} from '@/lib/marketCalendar'
+
+describe('holidays', () => {
+  it.each([
+    ['2026-01-01', "New Year's Day"],
+    ['2026-01-19', 'Martin Luther King Jr. Day'],
+    ['2026-02-16', "Presidents' Day"],
+    ['2026-04-03', 'Good Friday'],
+    ['2026-05-25', 'Memorial Day'],
+    ['2026-06-19', 'Juneteenth'],
+    ['2026-07-03', 'Independence Day'], // Saturday the 4th, observed Friday
+    ['2026-09-07', 'Labor Day'],
+    ['2026-11-26', 'Thanksgiving Day'],
+    ['2026-12-25', 'Christmas Day'],
+    ['2022-06-20', 'Juneteenth'], // Sunday the 19th, observed Monday
+    ['2022-12-26', 'Christmas Day'],
+    ['2027-07-05', 'Independence Day'],
+    ['2027-06-18', 'Juneteenth'],
+    ['2027-12-24', 'Christmas Day'] // Saturday the 25th, observed Friday
+  ])('closes on %s for %s', (date, name) => {
+    expect(getHoliday(date)).toBe(name)
+    expect(isTradingDay(date)).toBe(false)
+    expect(getTradingHours(date)).toBeNull()
+  })
+
+  it.each([
+    ['2021-12-31', "Saturday New Year's Day 2022 isn't observed"],
+    ['2027-12-31', "Saturday New Year's Day 2028 isn't observed"],
+    ['2021-06-18', 'Juneteenth before 2022'],
+    ['2026-07-02', 'the day before an observed holiday'],
+    ['2026-11-27', 'the day after Thanksgiving']
+  ])('trades on %s (%s)', date => {
+    expect(getHoliday(date)).toBeNull()
+    expect(isTradingDay(date)).toBe(true)
+  })
+})
+
+describe('half days', () => {
+  it.each([
+    ['2025-07-03', 'Independence Day eve'],
+    ['2025-11-28', 'Day after Thanksgiving'],
+    ['2025-12-24', 'Christmas Eve'],
+    ['2026-11-27', 'Day after Thanksgiving'],
+    ['2026-12-24', 'Christmas Eve']
+  ])('closes at 1:00 PM on %s (%s)', (date, name) => {
+    expect(getEarlyClose(date)).toBe(name)
+    expect(getTradingHours(date)).toMatchObject({ close: 13 * 60, postClose: 17 * 60, earlyClose: true })
+  })
+
+  it.each([
+    ['2026-07-03', 'observed Independence Day'],
+    ['2027-12-24', 'observed Christmas Day'],
+    ['2022-12-24', 'a Saturday']
+  ])('has no half day on %s (%s)', date => {
+    expect(getEarlyClose(date)).toBeNull()
+  })
+
+  it.each([
+    ['2026-11-27T17:30:00Z', 'regular'], // 12:30 PM ET
+    ['2026-11-27T18:30:00Z', 'post'], // 1:30 PM ET
+    ['2026-11-27T21:59:00Z', 'post'], // 4:59 PM ET
+    ['2026-11-27T22:00:00Z', 'closed'] // 5:00 PM ET
+  ])('is in the %s session at %s after Thanksgiving', (now, session) => {
+    expect(getMarketSession(new Date(now))).toBe(session)
+  })
+
+  it('expires half-day options at 1:00 PM', () => {
+    expect(expirationClose('2026-11-27').toISOString()).toBe('2026-11-27T18:00:00.000Z')
+    expect(calendarDaysToExpiration('2026-11-27', new Date('2026-11-27T17:59:00Z'))).toBe(0)
+    expect(calendarDaysToExpiration('2026-11-27', new Date('2026-11-27T18:00:00Z'))).toBe(-1)
+  })
+})
+
+// DST began 2026-03-08 and ends 2026-11-01
+describe('daylight saving transition weeks', () => {
+  it.each([
+    ['2026-03-06', 9 * 60 + 30, '2026-03-06T14:30:00.000Z'],
+    ['2026-03-09', 9 * 60 + 30, '2026-03-09T13:30:00.000Z'],
+    ['2026-10-30', 16 * 60, '2026-10-30T20:00:00.000Z'],
+    ['2026-11-02', 16 * 60, '2026-11-02T21:00:00.000Z']
+  ])('converts %s at minute %i to %s', (date, minutes, iso) => {
+    expect(easternToDate(date, minutes).toISOString()).toBe(iso)
+  })
+
+  it.each([
+    ['2026-03-13', '2026-03-13T20:00:00.000Z'],
+    ['2026-03-06', '2026-03-06T21:00:00.000Z'],
+    ['2026-10-30', '2026-10-30T20:00:00.000Z'],
+    ['2026-11-06', '2026-11-06T21:00:00.000Z']
+  ])('closes %s expirations at %s', (expiration, iso) => {
+    expect(expirationClose(expiration).toISOString()).toBe(iso)
+  })
+
+  it.each([
+    ['2026-03-06T13:45:00Z', 'pre'], // 8:45 AM EST
+    ['2026-03-09T13:45:00Z', 'regular'], // 9:45 AM EDT
+    ['2026-10-30T20:30:00Z', 'post'], // 4:30 PM EDT
+    ['2026-11-02T20:30:00Z', 'regular'] // 3:30 PM EST
+  ])('is in the right session at %s', (now, session) => {
+    expect(getMarketSession(new Date(now))).toBe(session)
+  })
+
+  it('finds the next open across the spring transition', () => {
+    expect(getMarketStatus(new Date('2026-03-07T15:00:00Z'))).toMatchObject({
+      session: 'closed',
+      nextOpen: '2026-03-09T13:30:00.000Z',
+      nextClose: '2026-03-09T20:00:00.000Z'
+    })
+  })
+})
+
+describe('days to expiration', () => {
+  it.each([
+    // Wednesday before Thanksgiving to the Friday after
+    ['2026-11-25T15:00:00Z', '2026-11-27', 2, 1],
+    // Across the observed Independence Day and a weekend
+    ['2026-07-02T15:00:00Z', '2026-07-06', 4, 1],
+    // Across Martin Luther King Jr. Day
+    ['2026-01-16T15:00:00Z', '2026-01-23', 7, 4],
+    // Evening in New York is still the previous day in UTC terms
+    ['2026-10-20T01:00:00Z', '2026-10-23', 4, 4],
+    ['2026-10-23T15:00:00Z', '2026-10-23', 0, 0],
+    ['2026-10-23T20:00:00Z', '2026-10-23', -1, -1]
+  ])('from %s to %s is %i calendar and %i trading days', (now, expiration, calendarDays, tradingDays) => {
+    expect(calendarDaysToExpiration(expiration, new Date(now))).toBe(calendarDays)
+    expect(tradingDaysToExpiration(expiration, new Date(now))).toBe(tradingDays)
+  })
+
+  it('reports the holiday and the next session on Thanksgiving', () => {
+    expect(getMarketStatus(new Date('2026-11-26T15:00:00Z'))).toEqual({
+      session: 'closed',
+      date: '2026-11-26',
+      holiday: 'Thanksgiving Day',
+      earlyClose: null,
+      nextOpen: '2026-11-27T14:30:00.000Z',
+      nextClose: '2026-11-27T18:00:00.000Z'
+    })
+  })
+})
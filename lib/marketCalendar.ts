@@ -0,0 +1,299 @@
+// NYSE trading calendar in New York time: sessions, holidays, half days and expiration closes.
+// Pure date math so the dashboard, the screener and the snapshot recorder agree on what "open" means.
+
+export const MARKET_TIME_ZONE = 'America/New_York'
+
+export type MarketSession = 'pre' | 'regular' | 'post' | 'closed'
+
+export interface MarketCalendarEntry {
+  date: string // YYYY-MM-DD
+  name: string
+}
+
+// Session boundaries in minutes after midnight, New York time
+export interface TradingHours {
+  date: string
+  preOpen: number
+  open: number
+  close: number
+  postClose: number
+  earlyClose: boolean
+}
+
+export interface MarketStatus {
+  session: MarketSession
+  date: string // today in New York
+  holiday: string | null // name of today's holiday, if any
+  earlyClose: string | null // name of today's half day, if any
+  nextOpen: string // ISO timestamp of the next regular-session open
+  nextClose: string // ISO timestamp of the close of the current or next regular session
+}
+
+const PRE_MARKET_OPEN = 4 * 60
+const REGULAR_OPEN = 9 * 60 + 30
+const REGULAR_CLOSE = 16 * 60
+const EARLY_CLOSE = 13 * 60
+const POST_MARKET_CLOSE = 20 * 60
+const EARLY_POST_MARKET_CLOSE = 17 * 60
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+const MS_PER_YEAR = 365 * MS_PER_DAY
+// Juneteenth became an NYSE holiday in 2022
+const JUNETEENTH_FIRST_YEAR = 2022
+
+const easternFormatter = new Intl.DateTimeFormat('en-US', {
+  timeZone: MARKET_TIME_ZONE,
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  second: '2-digit',
+  hour12: false
+})
+
+function pad(value: number): string {
+  return value < 10 ? `0${value}` : String(value)
+}
+
+function toDateString(year: number, month: number, day: number): string {
+  return `${year}-${pad(month)}-${pad(day)}`
+}
+
+function parseDate(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getTime()
+}
+
+export function addDays(date: string, days: number): string {
+  return new Date(parseDate(date) + days * MS_PER_DAY).toISOString().split('T')[0]
+}
+
+// Whole calendar days from one date to another; negative when `to` is earlier
+export function daysBetween(from: string, to: string): number {
+  return Math.round((parseDate(to) - parseDate(from)) / MS_PER_DAY)
+}
+
+// 0 = Sunday ... 6 = Saturday
+function dayOfWeek(date: string): number {
+  return new Date(parseDate(date)).getUTCDay()
+}
+
+// Wall-clock date and time in New York for an instant
+export function toEasternTime(now: Date): { date: string; minutes: number } {
+  const match = easternFormatter.format(now).match(/(\d+)\/(\d+)\/(\d+),?\s+(\d+):(\d+):(\d+)/)
+  if (!match) throw new Error(`Unexpected date format for ${now.toISOString()}`)
+
+  const [, month, day, year, hour, minute, second] = match.map(Number)
+  // Some engines render midnight as hour 24
+  return {
+    date: toDateString(year, month, day),
+    minutes: (hour % 24) * 60 + minute + second / 60
+  }
+}
+
+// The instant a New York wall-clock time occurs. Market hours never fall inside a DST transition,
+// so one correction for the zone offset is exact.
+export function easternToDate(date: string, minutes: number): Date {
+  const guess = parseDate(date) + minutes * 60 * 1000
+  const eastern = toEasternTime(new Date(guess))
+  const offset = parseDate(eastern.date) + eastern.minutes * 60 * 1000 - guess
+  return new Date(guess - offset)
+}
+
+// The nth given weekday of a month (1-12); n = -1 for the last one
+function nthWeekday(year: number, month: number, weekday: number, n: number): string {
+  if (n < 0) {
+    const last = addDays(toDateString(month === 12 ? year + 1 : year, month === 12 ? 1 : month + 1, 1), -1)
+    return addDays(last, -((dayOfWeek(last) - weekday + 7) % 7))
+  }
+  const first = toDateString(year, month, 1)
+  return addDays(first, (weekday - dayOfWeek(first) + 7) % 7 + (n - 1) * 7)
+}
+
+// Western Easter Sunday (anonymous Gregorian algorithm)
+function easterSunday(year: number): string {
+  const a = year % 19
+  const b = Math.floor(year / 100)
+  const c = year % 100
+  const d = Math.floor(b / 4)
+  const e = b % 4
+  const f = Math.floor((b + 8) / 25)
+  const g = Math.floor((b - f + 1) / 3)
+  const h = (19 * a + b - d - g + 15) % 30
+  const i = Math.floor(c / 4)
+  const k = c % 4
+  const l = (32 + 2 * e + 2 * i - h - k) % 7
+  const m = Math.floor((a + 11 * h + 22 * l) / 451)
+  const month = Math.floor((h + l - 7 * m + 114) / 31)
+  const day = ((h + l - 7 * m + 114) % 31) + 1
+  return toDateString(year, month, day)
+}
+
+// Fixed-date holidays move to Friday when on a Saturday and Monday when on a Sunday
+function observed(date: string): string {
+  const weekday = dayOfWeek(date)
+  if (weekday === 6) return addDays(date, -1)
+  if (weekday === 0) return addDays(date, 1)
+  return date
+}
+
+const holidayCache: Record<number, MarketCalendarEntry[]> = {}
+
+// Full-day NYSE closures for a year
+export function getMarketHolidays(year: number): MarketCalendarEntry[] {
+  if (holidayCache[year]) return holidayCache[year]
+
+  const holidays: MarketCalendarEntry[] = []
+  const newYear = toDateString(year, 1, 1)
+  // A Saturday New Year's Day isn't observed, since that Friday closes the previous year
+  if (dayOfWeek(newYear) !== 6) holidays.push({ date: observed(newYear), name: "New Year's Day" })
+
+  holidays.push({ date: nthWeekday(year, 1, 1, 3), name: 'Martin Luther King Jr. Day' })
+  holidays.push({ date: nthWeekday(year, 2, 1, 3), name: "Presidents' Day" })
+  holidays.push({ date: addDays(easterSunday(year), -2), name: 'Good Friday' })
+  holidays.push({ date: nthWeekday(year, 5, 1, -1), name: 'Memorial Day' })
+  if (year >= JUNETEENTH_FIRST_YEAR) {
+    holidays.push({ date: observed(toDateString(year, 6, 19)), name: 'Juneteenth' })
+  }
+  holidays.push({ date: observed(toDateString(year, 7, 4)), name: 'Independence Day' })
+  holidays.push({ date: nthWeekday(year, 9, 1, 1), name: 'Labor Day' })
+  holidays.push({ date: nthWeekday(year, 11, 4, 4), name: 'Thanksgiving Day' })
+  holidays.push({ date: observed(toDateString(year, 12, 25)), name: 'Christmas Day' })
+
+  holidayCache[year] = holidays
+  return holidays
+}
+
+// 1:00 PM closes: the day before Independence Day, the day after Thanksgiving and Christmas Eve
+export function getEarlyCloses(year: number): MarketCalendarEntry[] {
+  const candidates: MarketCalendarEntry[] = [
+    { date: toDateString(year, 7, 3), name: 'Independence Day eve' },
+    { date: addDays(nthWeekday(year, 11, 4, 4), 1), name: 'Day after Thanksgiving' },
+    { date: toDateString(year, 12, 24), name: 'Christmas Eve' }
+  ]
+  return candidates.filter(entry => {
+    const weekday = dayOfWeek(entry.date)
+    return weekday !== 0 && weekday !== 6 && getHoliday(entry.date) === null
+  })
+}
+
+function findEntry(entries: MarketCalendarEntry[], date: string): string | null {
+  const entry = entries.find(candidate => candidate.date === date)
+  return entry ? entry.name : null
+}
+
+export function getHoliday(date: string): string | null {
+  return findEntry(getMarketHolidays(Number(date.slice(0, 4))), date)
+}
+
+export function getEarlyClose(date: string): string | null {
+  return findEntry(getEarlyCloses(Number(date.slice(0, 4))), date)
+}
+
+export function isTradingDay(date: string): boolean {
+  const weekday = dayOfWeek(date)
+  return weekday !== 0 && weekday !== 6 && getHoliday(date) === null
+}
+
+// First trading day strictly after `date`
+export function nextTradingDay(date: string): string {
+  let next = addDays(date, 1)
+  while (!isTradingDay(next)) next = addDays(next, 1)
+  return next
+}
+
+// Session boundaries for a date, or null when the market is closed all day
+export function getTradingHours(date: string): TradingHours | null {
+  if (!isTradingDay(date)) return null
+  const earlyClose = getEarlyClose(date) !== null
+  return {
+    date,
+    preOpen: PRE_MARKET_OPEN,
+    open: REGULAR_OPEN,
+    close: earlyClose ? EARLY_CLOSE : REGULAR_CLOSE,
+    postClose: earlyClose ? EARLY_POST_MARKET_CLOSE : POST_MARKET_CLOSE,
+    earlyClose
+  }
+}
+
+// When options expiring on a date stop trading: the regular close, 1:00 PM on half days
+export function expirationClose(expiration: string): Date {
+  const hours = getTradingHours(expiration)
+  return easternToDate(expiration, hours ? hours.close : REGULAR_CLOSE)
+}
+
+export function getMarketSession(now: Date = new Date()): MarketSession {
+  const eastern = toEasternTime(now)
+  const hours = getTradingHours(eastern.date)
+  if (!hours) return 'closed'
+  if (eastern.minutes < hours.preOpen) return 'closed'
+  if (eastern.minutes < hours.open) return 'pre'
+  if (eastern.minutes < hours.close) return 'regular'
+  if (eastern.minutes < hours.postClose) return 'post'
+  return 'closed'
+}
+
+export function isMarketOpen(now: Date = new Date()): boolean {
+  return getMarketSession(now) === 'regular'
+}
+
+export function getMarketStatus(now: Date = new Date()): MarketStatus {
+  const eastern = toEasternTime(now)
+  const hours = getTradingHours(eastern.date)
+
+  // Today's session counts until its close; after that the next trading day's does
+  const sessionDate = hours && eastern.minutes < hours.close ? eastern.date : nextTradingDay(eastern.date)
+  const sessionHours = getTradingHours(sessionDate) as TradingHours
+  const nextOpen = hours && eastern.minutes < hours.open
+    ? easternToDate(eastern.date, hours.open)
+    : easternToDate(nextTradingDay(eastern.date), REGULAR_OPEN)
+
+  return {
+    session: getMarketSession(now),
+    date: eastern.date,
+    holiday: getHoliday(eastern.date),
+    earlyClose: getEarlyClose(eastern.date),
+    nextOpen: nextOpen.toISOString(),
+    nextClose: easternToDate(sessionDate, sessionHours.close).toISOString()
+  }
+}
+
+// Calendar days from today in New York to an expiration date. Expiration day counts as 0 until
+// the close and -1 after it, so expired chains drop out of any window starting at 0.
+export function calendarDaysToExpiration(expiration: string, now: Date = new Date()): number {
+  const days = daysBetween(toEasternTime(now).date, expiration)
+  if (days === 0 && now.getTime() >= expirationClose(expiration).getTime()) return -1
+  return days
+}
+
+// Trading days after today through the expiration date, counted like calendarDaysToExpiration
+// (0 on expiration day, -1 once it has closed)
+export function tradingDaysToExpiration(expiration: string, now: Date = new Date()): number {
+  const days = calendarDaysToExpiration(expiration, now)
+  if (days <= 0) return days
+
+  let date = toEasternTime(now).date
+  let tradingDays = 0
+  for (let i = 0; i < days; i++) {
+    date = addDays(date, 1)
+    if (isTradingDay(date)) tradingDays++
+  }
+  return tradingDays
+}
+
+// Fractional years from now to the expiration close, for pricing and probabilities; 0 once expired
+export function yearsToExpiration(expiration: string, now: Date = new Date()): number {
+  return Math.max(0, (expirationClose(expiration).getTime() - now.getTime()) / MS_PER_YEAR)
+}
+
+// Minimum poll interval while the market is closed
+const CLOSED_POLL_MS = 5 * 60 * 1000
+
+// Poll at `regularMs` during the regular session, half as often in extended hours and
+// at most every five minutes while closed
+export function pollInterval(regularMs: number, now: Date = new Date()): number {
+  const session = getMarketSession(now)
+  if (session === 'regular') return regularMs
+  if (session === 'closed') return Math.max(regularMs, CLOSED_POLL_MS)
+  return regularMs * 2
+}
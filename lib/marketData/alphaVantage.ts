@@ -0,0 +1,26 @@
+import type { MarketDataProvider } from '@/lib/marketData/types'
+
+const ALPHA_VANTAGE_API = 'https://www.alphavantage.co/query'
+const ALPHA_VANTAGE_KEY = process.env.ALPHA_VANTAGE_API_KEY || 'demo'
+
+// Quotes only; the free tier has no option chains
+export const alphaVantageProvider: MarketDataProvider = {
+  name: 'alphavantage',
+  isConfigured: () => ALPHA_VANTAGE_KEY !== 'demo',
+
+  getQuote: async symbol => {
+    const response = await fetch(`${ALPHA_VANTAGE_API}?function=GLOBAL_QUOTE&symbol=${symbol}&apikey=${ALPHA_VANTAGE_KEY}`)
+    const data = await response.json()
+    const quote = data['Global Quote']
+    if (!quote?.['05. price']) {
+      throw new Error('No price in Alpha Vantage response')
+    }
+
+    return {
+      symbol,
+      price: parseFloat(quote['05. price']),
+      // Global quotes are end-of-day for the latest trading day
+      asOf: quote['07. latest trading day'] ? new Date(quote['07. latest trading day']).toISOString() : new Date().toISOString()
+    }
+  }
+}
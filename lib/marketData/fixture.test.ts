@@ -0,0 +1,39 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { fixtureProvider } from '@/lib/marketData/fixture'
+import type { MarketDataProvider } from '@/lib/marketData/types'
+
+const provider = fixtureProvider as Required<MarketDataProvider>
+
+// fixtures/market-data/TSLA.json is recorded at 2025-01-09 with Friday expirations
+describe('fixtureProvider', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('shifts expirations by whole weeks so they stay on Fridays', async () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2026-10-19T18:56:00Z'))
+    const expirations = await provider.getExpirations('TSLA')
+
+    expect(expirations.length).toBeGreaterThan(0)
+    expirations.forEach(expiration => {
+      const date = new Date(expiration * 1000)
+      expect(date.getUTCDay()).toBe(5)
+      expect(date.getUTCHours()).toBe(0)
+    })
+    // 92.6 weeks after recording, so 2025-01-17 (8 DTE) moves 93 weeks to 2026-10-30 (11 DTE)
+    expect(new Date(expirations[0] * 1000).toISOString()).toBe('2026-10-30T00:00:00.000Z')
+  })
+
+  it('finds every listed expiration on later calls', async () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2026-10-19T18:56:00Z'))
+    const expirations = await provider.getExpirations('TSLA')
+
+    vi.setSystemTime(new Date('2026-10-19T18:56:01.100Z'))
+    for (const expiration of expirations) {
+      const chain = await provider.getChain('TSLA', expiration)
+      expect(chain.expirationDate).toBe(expiration)
+    }
+  })
+})
@@ -0,0 +1,75 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import type { OptionChain } from '@/lib/types'
+import type { MarketDataProvider } from '@/lib/marketData/types'
+
+// Directory of recorded market data, one `<SYMBOL>.json` per underlying
+const FIXTURE_DIR = process.env.MARKET_DATA_FIXTURE_DIR || 'fixtures/market-data'
+
+interface MarketDataFixture {
+  symbol: string
+  // When set, expirations are shifted forward by the whole weeks since recording so the chains keep their DTE
+  recordedAt?: string
+  quote: { price: number }
+  chains: OptionChain[]
+}
+
+const SECONDS_PER_WEEK = 7 * 24 * 60 * 60
+
+// Shift per fixture, fixed for the life of the process so expirations returned by one call
+// are still found by the next
+const shifts: Record<string, number> = {}
+
+// Whole weeks, so expirations keep their weekday and time of day
+function expirationShift(recordedAt: string): number {
+  if (shifts[recordedAt] === undefined) {
+    const elapsed = (Date.now() - new Date(recordedAt).getTime()) / 1000
+    shifts[recordedAt] = Math.max(0, Math.round(elapsed / SECONDS_PER_WEEK)) * SECONDS_PER_WEEK
+  }
+  return shifts[recordedAt]
+}
+
+async function loadFixture(symbol: string): Promise<MarketDataFixture> {
+  const file = path.resolve(process.cwd(), FIXTURE_DIR, `${symbol}.json`)
+  const fixture: MarketDataFixture = JSON.parse(await fs.readFile(file, 'utf8'))
+  if (!fixture.recordedAt) return fixture
+
+  const shift = expirationShift(fixture.recordedAt)
+  return {
+    ...fixture,
+    chains: fixture.chains.map(chain => ({
+      expirationDate: chain.expirationDate + shift,
+      calls: chain.calls.map(contract => ({ ...contract, expiration: contract.expiration + shift })),
+      puts: chain.puts.map(contract => ({ ...contract, expiration: contract.expiration + shift }))
+    }))
+  }
+}
+
+// Offline provider serving recorded quotes and chains from disk
+export const fixtureProvider: MarketDataProvider = {
+  name: 'fixture',
+  isConfigured: () => true,
+
+  getQuote: async symbol => {
+    const fixture = await loadFixture(symbol)
+    return {
+      symbol,
+      price: fixture.quote.price,
+      asOf: new Date().toISOString()
+    }
+  },
+
+  getExpirations: async symbol => {
+    const fixture = await loadFixture(symbol)
+    return fixture.chains.map(chain => chain.expirationDate)
+  },
+
+  getChain: async (symbol, expirationDate) => {
+    const fixture = await loadFixture(symbol)
+    const chain = fixture.chains.find(candidate => candidate.expirationDate === expirationDate)
+    if (!chain) {
+      throw new Error(`No recorded chain for ${symbol} expiring ${expirationDate}`)
+    }
+    return chain
+  }
+}
@@ -0,0 +1,24 @@
+import type { MarketDataProvider } from '@/lib/marketData/types'
+
+const FMP_API = 'https://financialmodelingprep.com/api/v3'
+const FMP_KEY = process.env.FMP_API_KEY || 'demo'
+
+// Financial Modeling Prep: quotes only
+export const fmpProvider: MarketDataProvider = {
+  name: 'fmp',
+  isConfigured: () => FMP_KEY !== 'demo',
+
+  getQuote: async symbol => {
+    const response = await fetch(`${FMP_API}/quote/${symbol}?apikey=${FMP_KEY}`)
+    const data = await response.json()
+    if (!data?.[0]?.price) {
+      throw new Error('No price in FMP response')
+    }
+
+    return {
+      symbol,
+      price: data[0].price,
+      asOf: data[0].timestamp ? new Date(data[0].timestamp * 1000).toISOString() : new Date().toISOString()
+    }
+  }
+}
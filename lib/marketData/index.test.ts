@@ -0,0 +1,26 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { getProviderOrder, getQuote } from '@/lib/marketData'
+
+const setting = process.env.MARKET_DATA_PROVIDERS
+
+describe('getProviderOrder', () => {
+  afterEach(() => {
+    if (setting === undefined) delete process.env.MARKET_DATA_PROVIDERS
+    else process.env.MARKET_DATA_PROVIDERS = setting
+  })
+
+  it('keeps known providers in order and sets unknown names aside', () => {
+    process.env.MARKET_DATA_PROVIDERS = ' Fixture, bogus ,yahoo'
+    const order = getProviderOrder()
+    expect(order.providers.map(provider => provider.name)).toEqual(['fixture', 'yahoo'])
+    expect(order.unknown).toEqual(['bogus'])
+    expect(getProviderOrder()).toBe(order)
+  })
+
+  it('reports unknown providers with the request instead of logging them', async () => {
+    process.env.MARKET_DATA_PROVIDERS = 'bogus,fixture'
+    const result = await getQuote('TSLA')
+    expect(result.source).toBe('fixture')
+    expect(result.errors).toEqual([{ provider: 'bogus', message: 'unknown provider in MARKET_DATA_PROVIDERS, ignored' }])
+  })
+})
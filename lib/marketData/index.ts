@@ -0,0 +1,180 @@
+import { apiCache } from '@/lib/cache'
+import { toProviderError, type ProviderError } from '@/lib/provenance'
+import type { OptionChain } from '@/lib/types'
+import { getDaysToExpiration } from '@/lib/strategies/common'
+import { yahooProvider } from '@/lib/marketData/yahoo'
+import { alphaVantageProvider } from '@/lib/marketData/alphaVantage'
+import { fmpProvider } from '@/lib/marketData/fmp'
+import { polygonProvider } from '@/lib/marketData/polygon'
+import { fixtureProvider } from '@/lib/marketData/fixture'
+import type { MarketDataProvider, ProviderName, ProviderResult, Quote } from '@/lib/marketData/types'
+
+export const MARKET_DATA_PROVIDERS: Record<ProviderName, MarketDataProvider> = {
+  yahoo: yahooProvider,
+  alphavantage: alphaVantageProvider,
+  fmp: fmpProvider,
+  polygon: polygonProvider,
+  fixture: fixtureProvider
+}
+
+const DEFAULT_PROVIDER_ORDER: ProviderName[] = ['yahoo', 'polygon', 'alphavantage', 'fmp']
+
+// Max number of per-expiration chain requests in flight at once
+const CHAIN_FETCH_CONCURRENCY = 3
+
+// Thrown when no provider could answer; carries every provider's failure
+export class MarketDataError extends Error {
+  errors: ProviderError[]
+
+  constructor(message: string, errors: ProviderError[]) {
+    super(message)
+    this.name = 'MarketDataError'
+    this.errors = errors
+    // Keep instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, MarketDataError.prototype)
+  }
+}
+
+export interface ProviderOrder {
+  providers: MarketDataProvider[]
+  unknown: string[] // configured names that match no provider
+}
+
+let parsedOrder: { setting: string; order: ProviderOrder } | null = null
+
+// Provider priority from MARKET_DATA_PROVIDERS (comma-separated, first tried first), e.g. `fixture` for offline work.
+// Parsed once per setting; unknown names are skipped and reported with each request's provider errors.
+export function getProviderOrder(): ProviderOrder {
+  const setting = process.env.MARKET_DATA_PROVIDERS || ''
+  if (parsedOrder && parsedOrder.setting === setting) return parsedOrder.order
+
+  const configured = setting
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(name => name !== '')
+  const names = configured.length > 0 ? configured : DEFAULT_PROVIDER_ORDER
+
+  const order: ProviderOrder = {
+    providers: names.filter(name => name in MARKET_DATA_PROVIDERS).map(name => MARKET_DATA_PROVIDERS[name as ProviderName]),
+    unknown: names.filter(name => !(name in MARKET_DATA_PROVIDERS))
+  }
+  parsedOrder = { setting, order }
+  return order
+}
+
+// Try each configured provider that supports the operation, in priority order, until one succeeds
+async function withFailover<T>(
+  operation: string,
+  supports: (provider: MarketDataProvider) => boolean,
+  task: (provider: MarketDataProvider) => Promise<T>
+): Promise<ProviderResult<T>> {
+  const { providers, unknown } = getProviderOrder()
+  const errors: ProviderError[] = unknown.map(name => ({
+    provider: name,
+    message: 'unknown provider in MARKET_DATA_PROVIDERS, ignored'
+  }))
+
+  for (const provider of providers) {
+    if (!supports(provider)) continue
+    if (!provider.isConfigured()) {
+      errors.push({ provider: provider.name, message: `${operation} skipped: no API key configured` })
+      continue
+    }
+
+    try {
+      return { data: await task(provider), source: provider.name, errors }
+    } catch (error) {
+      const providerError = toProviderError(provider.name, error)
+      errors.push({ ...providerError, message: `${operation} failed: ${providerError.message}` })
+    }
+  }
+
+  throw new MarketDataError(`No provider could supply ${operation}`, errors)
+}
+
+export function getQuote(symbol: string): Promise<ProviderResult<Quote>> {
+  return withFailover(`quote ${symbol}`, () => true, provider => provider.getQuote(symbol))
+}
+
+export function getExpirations(symbol: string): Promise<ProviderResult<number[]>> {
+  return withFailover(
+    `expirations ${symbol}`,
+    provider => !!provider.getExpirations,
+    provider => provider.getExpirations!(symbol)
+  )
+}
+
+// Fetch the chain for a single expiration, cached per symbol and expiration date
+export async function getChain(symbol: string, expirationDate: number): Promise<ProviderResult<OptionChain>> {
+  const cacheKey = `options-chain-${symbol}-${expirationDate}`
+  const cachedChain = apiCache.get(cacheKey)
+  if (cachedChain) return cachedChain
+
+  const result = await withFailover(
+    `chain ${symbol} ${expirationDate}`,
+    provider => !!provider.getChain,
+    provider => provider.getChain!(symbol, expirationDate)
+  )
+  apiCache.set(cacheKey, result, 30)
+  return result
+}
+
+// Run an async task over items with at most `limit` tasks in flight
+async function mapWithConcurrency<T, R>(items: T[], limit: number, task: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length)
+  let nextIndex = 0
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++
+      results[index] = await task(items[index])
+    }
+  }
+
+  const workers = []
+  for (let i = 0; i < Math.min(limit, items.length); i++) {
+    workers.push(worker())
+  }
+  await Promise.all(workers)
+
+  return results
+}
+
+export interface ChainsResult {
+  chains: OptionChain[]
+  listed: number // unexpired expirations listed, inside the window or not
+  sources: ProviderName[] // every provider that supplied part of the data
+  errors: ProviderError[]
+}
+
+// Every listed chain whose expiration falls inside the DTE window; expirations that fail to load are skipped
+export async function getChainsInWindow(symbol: string, minDTE: number, maxDTE: number): Promise<ChainsResult> {
+  const expirations = await getExpirations(symbol)
+  const sources: ProviderName[] = [expirations.source]
+  const errors: ProviderError[] = [...expirations.errors]
+
+  const targetExpirations = expirations.data.filter(expirationDate => {
+    const dte = getDaysToExpiration(expirationDate)
+    return dte >= minDTE && dte <= maxDTE
+  })
+
+  const results = await mapWithConcurrency(targetExpirations, CHAIN_FETCH_CONCURRENCY, expirationDate =>
+    getChain(symbol, expirationDate).catch(error => {
+      errors.push(...(error instanceof MarketDataError ? error.errors : [toProviderError('unknown', error)]))
+      return null
+    })
+  )
+
+  const chains: OptionChain[] = []
+  results.forEach(result => {
+    if (!result) return
+    chains.push(result.data)
+    errors.push(...result.errors)
+    if (sources.indexOf(result.source) === -1) sources.push(result.source)
+  })
+
+  const listed = expirations.data.filter(expirationDate => getDaysToExpiration(expirationDate) >= 0).length
+  return { chains, listed, sources, errors }
+}
+
+export type { MarketDataProvider, ProviderName, ProviderResult, Quote } from '@/lib/marketData/types'
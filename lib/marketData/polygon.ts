@@ -0,0 +1,98 @@
+import type { OptionChain, OptionContract } from '@/lib/types'
+import type { MarketDataProvider } from '@/lib/marketData/types'
+
+const POLYGON_API = 'https://api.polygon.io'
+const POLYGON_KEY = process.env.POLYGON_API_KEY || 'demo'
+
+// Polygon's results per page for contract and snapshot listings
+const PAGE_LIMIT = 250
+
+// Polygon dates are YYYY-MM-DD; chains are keyed by the 4pm ET close as unix seconds like Yahoo's
+function toTimestamp(date: string): number {
+  return Math.floor(new Date(`${date}T20:00:00Z`).getTime() / 1000)
+}
+
+function toDate(timestamp: number): string {
+  return new Date(timestamp * 1000).toISOString().split('T')[0]
+}
+
+// Follow `next_url` pagination until the listing is exhausted
+async function fetchAllPages(url: string): Promise<any[]> {
+  const results: any[] = []
+  let next: string | null = url
+
+  while (next) {
+    const response: Response = await fetch(`${next}${next.indexOf('?') === -1 ? '?' : '&'}apiKey=${POLYGON_KEY}`)
+    const data = await response.json()
+    if (data.status === 'ERROR' || !Array.isArray(data.results)) {
+      throw new Error(data.error || data.message || 'Unexpected Polygon response')
+    }
+    results.push(...data.results)
+    next = data.next_url || null
+  }
+
+  return results
+}
+
+export const polygonProvider: MarketDataProvider = {
+  name: 'polygon',
+  isConfigured: () => POLYGON_KEY !== 'demo',
+
+  getQuote: async symbol => {
+    const response = await fetch(`${POLYGON_API}/v2/aggs/ticker/${symbol}/prev?apiKey=${POLYGON_KEY}`)
+    const data = await response.json()
+    const bar = data.results?.[0]
+    if (!bar?.c) {
+      throw new Error('No price in Polygon response')
+    }
+
+    // Previous session close; the real-time snapshot needs a paid plan
+    return {
+      symbol,
+      price: bar.c,
+      asOf: new Date(bar.t).toISOString()
+    }
+  },
+
+  getExpirations: async symbol => {
+    const contracts = await fetchAllPages(
+      `${POLYGON_API}/v3/reference/options/contracts?underlying_ticker=${symbol}&expired=false&limit=${PAGE_LIMIT}`
+    )
+    const dates = Array.from(new Set(contracts.map(contract => contract.expiration_date as string)))
+    return dates.sort().map(toTimestamp)
+  },
+
+  getChain: async (symbol, expirationDate) => {
+    const snapshots = await fetchAllPages(
+      `${POLYGON_API}/v3/snapshot/options/${symbol}?expiration_date=${toDate(expirationDate)}&limit=${PAGE_LIMIT}`
+    )
+    const underlyingPrice = snapshots[0]?.underlying_asset?.price
+
+    const chain: OptionChain = { expirationDate, calls: [], puts: [] }
+    snapshots.forEach(snapshot => {
+      const type = snapshot.details?.contract_type
+      const strike = snapshot.details?.strike_price
+      if ((type !== 'call' && type !== 'put') || !strike) return
+
+      const contract: OptionContract = {
+        contractSymbol: snapshot.details.ticker,
+        strike,
+        expiration: expirationDate,
+        bid: snapshot.last_quote?.bid ?? 0,
+        ask: snapshot.last_quote?.ask ?? 0,
+        lastPrice: snapshot.day?.close ?? 0,
+        volume: snapshot.day?.volume ?? 0,
+        openInterest: snapshot.open_interest ?? 0,
+        impliedVolatility: snapshot.implied_volatility ?? 0,
+        inTheMoney: underlyingPrice !== undefined && (type === 'call' ? strike < underlyingPrice : strike > underlyingPrice)
+      }
+      if (type === 'call') {
+        chain.calls.push(contract)
+      } else {
+        chain.puts.push(contract)
+      }
+    })
+
+    return chain
+  }
+}
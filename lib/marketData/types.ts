@@ -0,0 +1,28 @@
+import type { ProviderError } from '@/lib/provenance'
+import type { OptionChain } from '@/lib/types'
+
+export type ProviderName = 'yahoo' | 'alphavantage' | 'fmp' | 'polygon' | 'fixture'
+
+export interface Quote {
+  symbol: string
+  price: number
+  asOf: string // ISO timestamp of the price
+}
+
+// One source of market data. Chain methods are optional because several free APIs only serve quotes.
+export interface MarketDataProvider {
+  name: ProviderName
+  // False when a required API key is missing, so the provider is skipped without a request
+  isConfigured: () => boolean
+  getQuote: (symbol: string) => Promise<Quote>
+  // Expiration dates as unix timestamps (seconds)
+  getExpirations?: (symbol: string) => Promise<number[]>
+  getChain?: (symbol: string, expirationDate: number) => Promise<OptionChain>
+}
+
+// Data from the provider that answered, plus the errors of any tried before it
+export interface ProviderResult<T> {
+  data: T
+  source: ProviderName
+  errors: ProviderError[]
+}
@@ -0,0 +1,66 @@
+import { apiCache } from '@/lib/cache'
+import type { OptionChain } from '@/lib/types'
+import type { MarketDataProvider } from '@/lib/marketData/types'
+
+const YAHOO_FINANCE_API = 'https://query1.finance.yahoo.com/v7/finance/options'
+const YAHOO_QUOTE_API = 'https://query1.finance.yahoo.com/v8/finance/chart'
+
+function toChain(raw: any, expirationDate: number): OptionChain {
+  return {
+    expirationDate: raw.expirationDate ?? expirationDate,
+    calls: raw.calls || [],
+    puts: raw.puts || []
+  }
+}
+
+// Free, keyless quotes and full option chains
+export const yahooProvider: MarketDataProvider = {
+  name: 'yahoo',
+  isConfigured: () => true,
+
+  getQuote: async symbol => {
+    const response = await fetch(`${YAHOO_QUOTE_API}/${symbol}`)
+    const data = await response.json()
+    const meta = data.chart?.result?.[0]?.meta
+    if (!meta?.regularMarketPrice) {
+      throw new Error('No price in Yahoo Finance response')
+    }
+
+    return {
+      symbol,
+      price: meta.regularMarketPrice,
+      asOf: meta.regularMarketTime ? new Date(meta.regularMarketTime * 1000).toISOString() : new Date().toISOString()
+    }
+  },
+
+  getExpirations: async symbol => {
+    const response = await fetch(`${YAHOO_FINANCE_API}/${symbol}`)
+    const data = await response.json()
+    const result = data.optionChain?.result?.[0]
+    if (!result) {
+      throw new Error('No options data in Yahoo Finance response')
+    }
+
+    // The default request already carries the nearest chain, so keep it instead of fetching it twice
+    const nearestChain = result.options?.[0]
+    if (nearestChain?.expirationDate) {
+      apiCache.set(`yahoo-chain-${symbol}-${nearestChain.expirationDate}`, toChain(nearestChain, nearestChain.expirationDate), 30)
+    }
+
+    return result.expirationDates || []
+  },
+
+  getChain: async (symbol, expirationDate) => {
+    const primed = apiCache.get(`yahoo-chain-${symbol}-${expirationDate}`)
+    if (primed) return primed
+
+    const response = await fetch(`${YAHOO_FINANCE_API}/${symbol}?date=${expirationDate}`)
+    const data = await response.json()
+    const chain = data.optionChain?.result?.[0]?.options?.[0]
+    if (!chain) {
+      throw new Error(`No chain for ${expirationDate} in Yahoo Finance response`)
+    }
+
+    return toChain(chain, expirationDate)
+  }
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_SIMULATION_OPTIONS, simulatePnL, type SimulationOptions } from '@/lib/monteCarlo'
+import type { PayoffLeg } from '@/lib/payoff'
+
+const NOW = Date.parse('2025-01-10T15:00:00Z') // Friday 10:00 AM ET, a week before expiration
+const SPOT = 400
+const RATE = 0.045
+
+// 380/370 bull put for a 2.50 credit
+const BULL_PUT: PayoffLeg[] = [
+  { type: 'put', action: 'sell', quantity: 1, strike: 380, expiration: '2025-01-17', price: 4, impliedVolatility: 0.55 },
+  { type: 'put', action: 'buy', quantity: 1, strike: 370, expiration: '2025-01-17', price: 1.5, impliedVolatility: 0.58 }
+]
+
+const options: SimulationOptions = { ...DEFAULT_SIMULATION_OPTIONS, paths: 2000, seed: 42 }
+
+function simulate(overrides: Partial<SimulationOptions> = {}) {
+  return simulatePnL(BULL_PUT, SPOT, { ...options, ...overrides }, RATE, NOW)
+}
+
+describe('simulatePnL', () => {
+  it('reproduces a run from its seed', () => {
+    expect(simulate()).toEqual(simulate())
+    expect(simulate({ fatTails: true, jumpIntensity: 4, jumpMean: -0.05, jumpVolatility: 0.1 })).toEqual(
+      simulate({ fatTails: true, jumpIntensity: 4, jumpMean: -0.05, jumpVolatility: 0.1 })
+    )
+    expect(simulate({ seed: 43 }).mean).not.toBe(simulate().mean)
+  })
+
+  it('puts each CVaR at or below its percentile', () => {
+    [{}, { fatTails: true }, { jumpIntensity: 10, jumpMean: -0.1, jumpVolatility: 0.05 }].forEach(overrides => {
+      const result = simulate(overrides)
+      expect(result.cvar95).toBeLessThanOrEqual(result.percentiles.p5)
+      expect(result.cvar99).toBeLessThanOrEqual(result.percentiles.p1)
+      expect(result.cvar99).toBeLessThanOrEqual(result.cvar95)
+    })
+  })
+
+  it('counts every path in the histogram', () => {
+    const result = simulate({ paths: 1234 })
+    expect(result.paths).toBe(1234)
+    expect(result.histogram.reduce((total, bin) => total + bin.count, 0)).toBe(1234)
+  })
+
+  it('bounds the P&L by the spread', () => {
+    const result = simulate()
+    expect(result.maxProfit).toBeCloseTo(2.5, 6)
+    expect(result.percentiles.p99).toBeLessThanOrEqual(2.5 + 1e-9)
+    expect(result.percentiles.p1).toBeGreaterThanOrEqual(-7.5 - 1e-9)
+  })
+
+  it('ignores the jump size when the jump intensity is zero', () => {
+    expect(DEFAULT_SIMULATION_OPTIONS.jumpIntensity).toBe(0)
+    expect(simulate({ jumpIntensity: 0, jumpMean: -0.2, jumpVolatility: 0.3 })).toEqual(simulate())
+  })
+})
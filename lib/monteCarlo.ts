@@ -0,0 +1,216 @@
+import { DEFAULT_RISK_FREE_RATE } from '@/lib/pricing'
+import {
+  entryCredit,
+  legExpirationTimes,
+  payoffCurves,
+  positionValueAt,
+  yearsRemaining,
+  type PayoffLeg
+} from '@/lib/payoff'
+
+// Monte Carlo P&L distribution for a position: daily price paths from IV out to its nearest expiration,
+// optionally with fat-tailed shocks and lognormal jumps
+
+export interface SimulationOptions {
+  paths: number
+  seed: number // same seed, same paths
+  fatTails: boolean // Student-t shocks (4 degrees of freedom, scaled to unit variance) instead of normal
+  jumpIntensity: number // expected jumps per year; 0 disables
+  jumpMean: number // mean log jump size, e.g. -0.05
+  jumpVolatility: number // standard deviation of the log jump size
+  profitTargetPct: number // share of max profit that counts as hitting the target
+}
+
+// Options holding a single number
+export type NumericSimulationOption = {
+  [K in keyof SimulationOptions]: SimulationOptions[K] extends number ? K : never
+}[keyof SimulationOptions]
+
+export const DEFAULT_SIMULATION_OPTIONS: Omit<SimulationOptions, 'seed'> = {
+  paths: 2000,
+  fatTails: false,
+  jumpIntensity: 0,
+  jumpMean: -0.05,
+  jumpVolatility: 0.1,
+  profitTargetPct: 50
+}
+
+export interface HistogramBin {
+  from: number
+  to: number
+  count: number
+}
+
+export interface SimulationResult {
+  paths: number
+  seed: number
+  horizonDays: number // to the nearest expiration
+  volatility: number // average leg IV driving the paths
+  mean: number // per share
+  standardDeviation: number
+  probOfProfit: number // 0-100
+  percentiles: Record<'p1' | 'p5' | 'p10' | 'p25' | 'p50' | 'p75' | 'p90' | 'p95' | 'p99', number>
+  cvar95: number // average P&L of the worst 5% of paths
+  cvar99: number // average P&L of the worst 1%
+  maxProfit: number
+  profitTarget: number | null // null when the position has no profit to target
+  probProfitTarget: number | null // 0-100, marked at each simulated day through expiration
+  histogram: HistogramBin[]
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+const STUDENT_T_DOF = 4
+const HISTOGRAM_BINS = 30
+const MIN_VOLATILITY = 0.0001
+
+// Mulberry32: small, fast and good enough for simulation; seeded so runs are reproducible
+export function createRng(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function normal(rng: () => number): number {
+  // Box-Muller; 1 - rng() keeps the log argument above zero
+  return Math.sqrt(-2 * Math.log(1 - rng())) * Math.cos(2 * Math.PI * rng())
+}
+
+function studentT(rng: () => number): number {
+  let chiSquared = 0
+  for (let i = 0; i < STUDENT_T_DOF; i++) {
+    const z = normal(rng)
+    chiSquared += z * z
+  }
+  return (normal(rng) / Math.sqrt(chiSquared / STUDENT_T_DOF)) * Math.sqrt((STUDENT_T_DOF - 2) / STUDENT_T_DOF)
+}
+
+function poisson(rng: () => number, lambda: number): number {
+  const limit = Math.exp(-lambda)
+  let count = 0
+  let product = rng()
+  while (product > limit) {
+    count++
+    product *= rng()
+  }
+  return count
+}
+
+function histogram(sorted: number[]): HistogramBin[] {
+  const min = sorted[0]
+  const max = sorted[sorted.length - 1]
+  if (max - min < 1e-9) return [{ from: min, to: max, count: sorted.length }]
+
+  const width = (max - min) / HISTOGRAM_BINS
+  const bins: HistogramBin[] = []
+  for (let i = 0; i < HISTOGRAM_BINS; i++) {
+    bins.push({ from: min + i * width, to: min + (i + 1) * width, count: 0 })
+  }
+  sorted.forEach(value => {
+    bins[Math.min(HISTOGRAM_BINS - 1, Math.floor((value - min) / width))].count++
+  })
+  return bins
+}
+
+export function simulatePnL(
+  legs: PayoffLeg[],
+  spot: number,
+  options: SimulationOptions,
+  riskFreeRate: number = DEFAULT_RISK_FREE_RATE,
+  now: number = Date.now()
+): SimulationResult {
+  const rng = createRng(options.seed)
+  const credit = entryCredit(legs)
+  const expirationTimes = legExpirationTimes(legs)
+  const expiry = Math.min(...expirationTimes)
+
+  const horizonDays = Math.max(0, (expiry - now) / MS_PER_DAY)
+  const steps = Math.max(1, Math.ceil(horizonDays))
+  const dt = horizonDays / steps / 365
+
+  // Each leg's years to expiration at every step, worked out once for all paths; the last entry
+  // settles just past the nearest expiration, so those legs count at intrinsic
+  const remainingYears: number[][] = []
+  for (let step = 1; step < steps; step++) {
+    remainingYears[step] = yearsRemaining(expirationTimes, now + step * dt * 365 * MS_PER_DAY)
+  }
+  const atExpiry = yearsRemaining(expirationTimes, expiry + 1)
+  const volatility = Math.max(MIN_VOLATILITY, legs.reduce((total, leg) => total + leg.impliedVolatility, 0) / legs.length)
+
+  // Risk-neutral drift, compensated for the jumps' expected size
+  const jumpCompensation = options.jumpIntensity * (Math.exp(options.jumpMean + 0.5 * options.jumpVolatility * options.jumpVolatility) - 1)
+  const drift = (riskFreeRate - 0.5 * volatility * volatility - jumpCompensation) * dt
+  const diffusion = volatility * Math.sqrt(dt)
+
+  const maxProfit = Math.max(...payoffCurves(legs, { spot, daysForward: 0, riskFreeRate, now }).points.map(point => point.expiry))
+  const profitTarget = maxProfit > 0 ? maxProfit * options.profitTargetPct / 100 : null
+
+  const outcomes: number[] = []
+  let targetHits = 0
+
+  for (let path = 0; path < options.paths; path++) {
+    let price = spot
+    let hit = false
+
+    for (let step = 1; step <= steps; step++) {
+      let logReturn = drift + diffusion * (options.fatTails ? studentT(rng) : normal(rng))
+      if (options.jumpIntensity > 0) {
+        const jumps = poisson(rng, options.jumpIntensity * dt)
+        for (let i = 0; i < jumps; i++) {
+          logReturn += options.jumpMean + options.jumpVolatility * normal(rng)
+        }
+      }
+      price *= Math.exp(logReturn)
+
+      if (!hit && profitTarget !== null && step < steps) {
+        hit = credit + positionValueAt(legs, remainingYears[step], price, riskFreeRate) >= profitTarget
+      }
+    }
+
+    const pnl = credit + positionValueAt(legs, atExpiry, price, riskFreeRate)
+    if (profitTarget !== null && pnl >= profitTarget) hit = true
+    if (hit) targetHits++
+    outcomes.push(pnl)
+  }
+
+  const sorted = outcomes.sort((a, b) => a - b)
+  const count = sorted.length
+  const mean = sorted.reduce((total, value) => total + value, 0) / count
+  const variance = sorted.reduce((total, value) => total + (value - mean) * (value - mean), 0) / count
+  const percentile = (p: number) => sorted[Math.min(count - 1, Math.floor((p / 100) * count))]
+  const tailMean = (share: number) => {
+    const tail = sorted.slice(0, Math.max(1, Math.ceil(share * count)))
+    return tail.reduce((total, value) => total + value, 0) / tail.length
+  }
+
+  return {
+    paths: count,
+    seed: options.seed,
+    horizonDays,
+    volatility,
+    mean,
+    standardDeviation: Math.sqrt(variance),
+    probOfProfit: (sorted.filter(value => value > 0).length / count) * 100,
+    percentiles: {
+      p1: percentile(1),
+      p5: percentile(5),
+      p10: percentile(10),
+      p25: percentile(25),
+      p50: percentile(50),
+      p75: percentile(75),
+      p90: percentile(90),
+      p95: percentile(95),
+      p99: percentile(99)
+    },
+    cvar95: tailMean(0.05),
+    cvar99: tailMean(0.01),
+    maxProfit,
+    profitTarget,
+    probProfitTarget: profitTarget === null ? null : (targetHits / count) * 100,
+    histogram: histogram(sorted)
+  }
+}
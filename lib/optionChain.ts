@@ -0,0 +1,70 @@
+import { blackScholes } from '@/lib/pricing'
+import { formatExpiration, getExpirationTiming } from '@/lib/strategies/common'
+import type { OptionChain, OptionContract } from '@/lib/types'
+
+// Normalized single-expiration chain for the chain viewer and custom spread builder
+
+export interface ChainQuote extends OptionContract {
+  mid: number // bid/ask midpoint, or the last price without a two-sided market
+  delta: number
+}
+
+export interface ChainView {
+  symbol: string
+  currentPrice: number
+  expiration: string // YYYY-MM-DD
+  expirationDate: number // unix seconds
+  daysToExpiration: number // calendar days
+  tradingDaysToExpiration: number
+  riskFreeRate: number // the server's configured rate, so custom spreads price like recommendations
+  expirations: string[] // every listed expiration, for the picker
+  calls: ChainQuote[]
+  puts: ChainQuote[]
+}
+
+export function toChainQuote(
+  contract: OptionContract,
+  type: 'call' | 'put',
+  spot: number,
+  timeToExpiry: number, // years
+  riskFreeRate: number
+): ChainQuote {
+  return {
+    ...contract,
+    // Providers disagree on ITM flags for stale quotes, so judge against the current spot
+    inTheMoney: type === 'call' ? contract.strike < spot : contract.strike > spot,
+    mid: contract.bid > 0 && contract.ask > 0 ? (contract.bid + contract.ask) / 2 : contract.lastPrice,
+    delta: blackScholes({
+      type,
+      spot,
+      strike: contract.strike,
+      timeToExpiry,
+      volatility: contract.impliedVolatility,
+      riskFreeRate
+    }).delta
+  }
+}
+
+export function normalizeChain(
+  symbol: string,
+  chain: OptionChain,
+  spot: number,
+  riskFreeRate: number,
+  expirations: number[]
+): ChainView {
+  const { daysToExpiration, tradingDaysToExpiration, timeToExpiry } = getExpirationTiming(chain.expirationDate)
+  const byStrike = (a: ChainQuote, b: ChainQuote) => a.strike - b.strike
+
+  return {
+    symbol,
+    currentPrice: spot,
+    expiration: formatExpiration(chain.expirationDate),
+    expirationDate: chain.expirationDate,
+    daysToExpiration,
+    tradingDaysToExpiration,
+    riskFreeRate,
+    expirations: expirations.map(formatExpiration),
+    calls: chain.calls.map(contract => toChainQuote(contract, 'call', spot, timeToExpiry, riskFreeRate)).sort(byStrike),
+    puts: chain.puts.map(contract => toChainQuote(contract, 'put', spot, timeToExpiry, riskFreeRate)).sort(byStrike)
+  }
+}
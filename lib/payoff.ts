@@ -0,0 +1,137 @@
+import { expirationClose } from '@/lib/marketCalendar'
+import { DEFAULT_RISK_FREE_RATE, blackScholes } from '@/lib/pricing'
+import type { OptionLeg } from '@/lib/types'
+
+// P&L curves across underlying prices: at expiration, today, and N days from now (Black-Scholes at each leg's IV)
+
+export type PayoffLeg = Pick<OptionLeg, 'type' | 'action' | 'quantity' | 'strike' | 'expiration' | 'price' | 'impliedVolatility'>
+
+export interface PayoffPoint {
+  price: number
+  expiry: number // per share, at the nearest leg expiration
+  today: number
+  future: number // T+N
+}
+
+export interface PayoffCurves {
+  points: PayoffPoint[]
+  breakevens: number[] // where the expiration curve crosses zero
+  strikes: number[]
+  expiration: string // nearest leg expiration, YYYY-MM-DD
+  daysToExpiration: number // fractional days from now to that expiration
+  daysForward: number // N, capped at daysToExpiration
+  standardDeviation: number // 1SD move to expiration, from the legs' average IV
+}
+
+export interface PayoffOptions {
+  spot: number
+  daysForward: number
+  riskFreeRate?: number
+  now?: number // ms, defaults to Date.now()
+  steps?: number
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+const MS_PER_YEAR = MS_PER_DAY * 365
+const DEFAULT_STEPS = 120
+
+// Legs expire at the close on their expiration date (4:00 PM ET, 1:00 PM on half days)
+export function expirationTime(expiration: string): number {
+  return expirationClose(expiration).getTime()
+}
+
+// Each leg's expiration instant in ms, in leg order. Resolving the calendar is slow, so callers
+// valuing a position many times look these up once.
+export function legExpirationTimes(legs: PayoffLeg[]): number[] {
+  return legs.map(leg => expirationTime(leg.expiration))
+}
+
+// Years from `time` to each expiration instant; negative once expired
+export function yearsRemaining(expirationTimes: number[], time: number): number[] {
+  return expirationTimes.map(expiration => (expiration - time) / MS_PER_YEAR)
+}
+
+// Per-share value of the position given each leg's years to expiration: expired legs at intrinsic,
+// live legs at Black-Scholes
+export function positionValueAt(legs: PayoffLeg[], remainingYears: number[], price: number, riskFreeRate: number): number {
+  return legs.reduce((total, leg, index) => {
+    const remaining = remainingYears[index]
+    const value = remaining <= 0
+      ? Math.max(0, leg.type === 'call' ? price - leg.strike : leg.strike - price)
+      : blackScholes({
+        type: leg.type,
+        spot: price,
+        strike: leg.strike,
+        timeToExpiry: remaining,
+        volatility: leg.impliedVolatility,
+        riskFreeRate
+      }).price
+    return total + (leg.action === 'buy' ? value : -value) * leg.quantity
+  }, 0)
+}
+
+// Net credit per share at the legs' entry prices; negative for a debit
+export function entryCredit(legs: PayoffLeg[]): number {
+  return legs.reduce((total, leg) => total + (leg.action === 'sell' ? leg.price : -leg.price) * leg.quantity, 0)
+}
+
+// Fractional days from `now` to the position's nearest expiration
+export function daysToNearestExpiration(legs: PayoffLeg[], now: number = Date.now()): number {
+  const nearest = Math.min(...legs.map(leg => expirationTime(leg.expiration)))
+  return Math.max(0, (nearest - now) / MS_PER_DAY)
+}
+
+export function payoffCurves(legs: PayoffLeg[], options: PayoffOptions): PayoffCurves {
+  const { spot } = options
+  const riskFreeRate = options.riskFreeRate ?? DEFAULT_RISK_FREE_RATE
+  const now = options.now ?? Date.now()
+  const steps = options.steps ?? DEFAULT_STEPS
+
+  const credit = entryCredit(legs)
+  const expirationTimes = legExpirationTimes(legs)
+  const pnlAt = (price: number, remainingYears: number[]) => credit + positionValueAt(legs, remainingYears, price, riskFreeRate)
+
+  const expiration = legs.map(leg => leg.expiration).sort()[0]
+  const expiry = Math.min(...expirationTimes)
+  const daysToExpiration = Math.max(0, (expiry - now) / MS_PER_DAY)
+  const daysForward = Math.min(Math.max(0, options.daysForward), daysToExpiration)
+  const future = now + daysForward * MS_PER_DAY
+  // Settle just after the nearest expiration so those legs count at intrinsic
+  const atExpiry = yearsRemaining(expirationTimes, expiry + 1)
+  const atNow = yearsRemaining(expirationTimes, now)
+  const atFuture = yearsRemaining(expirationTimes, future)
+
+  const averageIV = legs.reduce((total, leg) => total + leg.impliedVolatility, 0) / legs.length
+  const standardDeviation = spot * averageIV * Math.sqrt(daysToExpiration / 365)
+
+  // Cover every strike and at least 2.5 SD either side of spot, with a little padding
+  const strikes = legs.map(leg => leg.strike).filter((strike, index, all) => all.indexOf(strike) === index).sort((a, b) => a - b)
+  const low = Math.min(strikes[0], spot - 2.5 * standardDeviation)
+  const high = Math.max(strikes[strikes.length - 1], spot + 2.5 * standardDeviation)
+  const padding = Math.max((high - low) * 0.1, spot * 0.02)
+  const from = Math.max(0.01, low - padding)
+  const step = (high + padding - from) / steps
+
+  const points: PayoffPoint[] = []
+  for (let i = 0; i <= steps; i++) {
+    const price = from + i * step
+    points.push({
+      price,
+      expiry: pnlAt(price, atExpiry),
+      today: pnlAt(price, atNow),
+      future: pnlAt(price, atFuture)
+    })
+  }
+
+  // Interpolate zero crossings of the expiration curve
+  const breakevens: number[] = []
+  for (let i = 1; i < points.length; i++) {
+    const previous = points[i - 1]
+    const current = points[i]
+    if ((previous.expiry < 0) !== (current.expiry < 0)) {
+      breakevens.push(previous.price + (current.price - previous.price) * (-previous.expiry / (current.expiry - previous.expiry)))
+    }
+  }
+
+  return { points, breakevens, strikes, expiration, daysToExpiration, daysForward, standardDeviation }
+}
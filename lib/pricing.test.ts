@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest'
+import { blackScholes, netGreeks, normalCdf } from '@/lib/pricing'
+
+const inputs = { spot: 100, strike: 100, timeToExpiry: 1, volatility: 0.2, riskFreeRate: 0.05 }
+
+describe('normalCdf', () => {
+  it('matches known values', () => {
+    expect(normalCdf(0)).toBeCloseTo(0.5, 7)
+    expect(normalCdf(1.96)).toBeCloseTo(0.975, 4)
+    expect(normalCdf(-1)).toBeCloseTo(0.158655, 5)
+  })
+})
+
+describe('blackScholes', () => {
+  it('prices the textbook at-the-money call and put', () => {
+    expect(blackScholes({ ...inputs, type: 'call' }).price).toBeCloseTo(10.4506, 3)
+    expect(blackScholes({ ...inputs, type: 'put' }).price).toBeCloseTo(5.5735, 3)
+  })
+
+  it('satisfies put-call parity', () => {
+    const call = blackScholes({ ...inputs, strike: 110, type: 'call' })
+    const put = blackScholes({ ...inputs, strike: 110, type: 'put' })
+    expect(call.price - put.price).toBeCloseTo(100 - 110 * Math.exp(-0.05), 6)
+    expect(call.delta - put.delta).toBeCloseTo(1, 6)
+    expect(call.gamma).toBeCloseTo(put.gamma, 10)
+    expect(call.vega).toBeCloseTo(put.vega, 10)
+  })
+
+  it('loses value each day', () => {
+    expect(blackScholes({ ...inputs, type: 'call' }).theta).toBeLessThan(0)
+  })
+
+  it('stays finite at expiration and zero volatility', () => {
+    const expiring = blackScholes({ ...inputs, timeToExpiry: 0, volatility: 0, strike: 90, type: 'call' })
+    expect(expiring.price).toBeCloseTo(10, 4)
+    expect(expiring.delta).toBeCloseTo(1, 6)
+  })
+})
+
+describe('netGreeks', () => {
+  it('weights each leg by its signed quantity', () => {
+    const short = blackScholes({ ...inputs, strike: 100, type: 'put' })
+    const long = blackScholes({ ...inputs, strike: 95, type: 'put' })
+    const net = netGreeks([{ greeks: short, quantity: -1 }, { greeks: long, quantity: 1 }])
+    expect(net.price).toBeCloseTo(long.price - short.price, 10)
+    expect(net.delta).toBeGreaterThan(0)
+  })
+})
@@ -0,0 +1,109 @@
+// Black-Scholes pricing and Greeks for European options
+
+export type OptionType = 'call' | 'put'
+
+export interface Greeks {
+  price: number
+  delta: number
+  gamma: number
+  theta: number // per calendar day
+  vega: number // per 1 vol point (1%)
+  rho: number // per 1% change in rates
+}
+
+export interface PricingInputs {
+  type: OptionType
+  spot: number
+  strike: number
+  timeToExpiry: number // in years
+  volatility: number // annualized, e.g. 0.45
+  riskFreeRate?: number
+  dividendYield?: number
+}
+
+export interface GreeksLeg {
+  greeks: Greeks
+  quantity: number // positive for long, negative for short
+}
+
+export const DEFAULT_RISK_FREE_RATE = 0.045
+
+// Smallest time and vol used in the formulas so expiring or zero-IV contracts don't divide by zero
+const MIN_TIME_TO_EXPIRY = 1 / (365 * 24 * 60)
+const MIN_VOLATILITY = 0.0001
+
+// Risk-free rate from RISK_FREE_RATE (decimal, e.g. 0.045), falling back to the default
+export function getRiskFreeRate(): number {
+  const rate = parseFloat(process.env.RISK_FREE_RATE || '')
+  return isNaN(rate) ? DEFAULT_RISK_FREE_RATE : rate
+}
+
+// Standard normal probability density
+export function normalPdf(x: number): number {
+  return Math.exp(-0.5 * x * x) / Math.sqrt(2 * Math.PI)
+}
+
+// Standard normal cumulative distribution (Abramowitz & Stegun 7.1.26, |error| < 7.5e-8)
+export function normalCdf(x: number): number {
+  const t = 1 / (1 + 0.2316419 * Math.abs(x))
+  const poly = t * (0.319381530 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))))
+  const tail = normalPdf(x) * poly
+  return x >= 0 ? 1 - tail : tail
+}
+
+export function blackScholes(inputs: PricingInputs): Greeks {
+  const { type, spot, strike } = inputs
+  const t = Math.max(inputs.timeToExpiry, MIN_TIME_TO_EXPIRY)
+  const sigma = Math.max(inputs.volatility, MIN_VOLATILITY)
+  const r = inputs.riskFreeRate ?? DEFAULT_RISK_FREE_RATE
+  const q = inputs.dividendYield ?? 0
+
+  const sqrtT = Math.sqrt(t)
+  const d1 = (Math.log(spot / strike) + (r - q + 0.5 * sigma * sigma) * t) / (sigma * sqrtT)
+  const d2 = d1 - sigma * sqrtT
+
+  const discountR = Math.exp(-r * t)
+  const discountQ = Math.exp(-q * t)
+  const pdfD1 = normalPdf(d1)
+
+  // Gamma and vega are the same for calls and puts
+  const gamma = (discountQ * pdfD1) / (spot * sigma * sqrtT)
+  const vega = (spot * discountQ * pdfD1 * sqrtT) / 100
+  const decay = -(spot * discountQ * pdfD1 * sigma) / (2 * sqrtT)
+
+  if (type === 'call') {
+    const nd1 = normalCdf(d1)
+    const nd2 = normalCdf(d2)
+    return {
+      price: spot * discountQ * nd1 - strike * discountR * nd2,
+      delta: discountQ * nd1,
+      gamma,
+      theta: (decay - r * strike * discountR * nd2 + q * spot * discountQ * nd1) / 365,
+      vega,
+      rho: (strike * t * discountR * nd2) / 100
+    }
+  }
+
+  const nNegD1 = normalCdf(-d1)
+  const nNegD2 = normalCdf(-d2)
+  return {
+    price: strike * discountR * nNegD2 - spot * discountQ * nNegD1,
+    delta: -discountQ * nNegD1,
+    gamma,
+    theta: (decay + r * strike * discountR * nNegD2 - q * spot * discountQ * nNegD1) / 365,
+    vega,
+    rho: -(strike * t * discountR * nNegD2) / 100
+  }
+}
+
+// Sum leg Greeks weighted by signed quantity
+export function netGreeks(legs: GreeksLeg[]): Greeks {
+  return legs.reduce<Greeks>((net, { greeks, quantity }) => ({
+    price: net.price + greeks.price * quantity,
+    delta: net.delta + greeks.delta * quantity,
+    gamma: net.gamma + greeks.gamma * quantity,
+    theta: net.theta + greeks.theta * quantity,
+    vega: net.vega + greeks.vega * quantity,
+    rho: net.rho + greeks.rho * quantity
+  }), { price: 0, delta: 0, gamma: 0, theta: 0, vega: 0, rho: 0 })
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest'
+import { normalCdf } from '@/lib/pricing'
+import {
+  expectedValue,
+  payoffStatistics,
+  probAbove,
+  probBelow,
+  probTouch,
+  spreadProbabilities
+} from '@/lib/probability'
+
+const inputs = { spot: 100, timeToExpiry: 1, volatility: 0.2, riskFreeRate: 0.05 }
+// With r = sigma^2 / 2 the log price has no drift
+const driftless = { ...inputs, riskFreeRate: 0.02 }
+
+describe('probAbove', () => {
+  it('is N(d2)', () => {
+    expect(probAbove(100, inputs)).toBeCloseTo(normalCdf(0.15), 10)
+    expect(probAbove(110, inputs)).toBeCloseTo(normalCdf((Math.log(100 / 110) + 0.03) / 0.2), 10)
+  })
+
+  it('is one minus probBelow and even at the median', () => {
+    [80, 100, 125].forEach(level => {
+      expect(probAbove(level, inputs) + probBelow(level, inputs)).toBeCloseTo(1, 12)
+    })
+    expect(probAbove(100 * Math.exp(0.03), inputs)).toBeCloseTo(0.5, 7)
+  })
+
+  it('handles a level of zero and an expired position', () => {
+    expect(probAbove(0, inputs)).toBe(1)
+    expect(probAbove(99, { ...inputs, timeToExpiry: 0 })).toBeCloseTo(1, 6)
+    expect(probAbove(101, { ...inputs, timeToExpiry: 0 })).toBeCloseTo(0, 6)
+  })
+})
+
+describe('probTouch', () => {
+  it('doubles the finishing probability without drift', () => {
+    expect(probTouch(115, driftless)).toBeCloseTo(2 * probAbove(115, driftless), 10)
+    expect(probTouch(85, driftless)).toBeCloseTo(2 * probBelow(85, driftless), 10)
+  })
+
+  it('is at least the finishing probability and certain at spot', () => {
+    expect(probTouch(115, inputs)).toBeGreaterThanOrEqual(probAbove(115, inputs))
+    expect(probTouch(85, inputs)).toBeGreaterThanOrEqual(probBelow(85, inputs))
+    expect(probTouch(100, inputs)).toBe(1)
+  })
+})
+
+describe('spreadProbabilities', () => {
+  // 95/90 bull put for 1.50
+  const bullPut = spreadProbabilities({ ...inputs, bias: 'bullish', shortStrike: 95, longStrike: 90, breakeven: 93.5 })
+
+  it('orders max profit, profit and max loss', () => {
+    expect(bullPut.probMaxProfit).toBeCloseTo(probAbove(95, inputs) * 100, 10)
+    expect(bullPut.probOfProfit).toBeCloseTo(probAbove(93.5, inputs) * 100, 10)
+    expect(bullPut.probMaxLoss).toBeCloseTo(probBelow(90, inputs) * 100, 10)
+    expect(bullPut.probMaxProfit).toBeLessThan(bullPut.probOfProfit)
+    expect(bullPut.probOfProfit + bullPut.probMaxLoss).toBeLessThan(100)
+  })
+
+  it('mirrors for a bearish spread', () => {
+    const bearCall = spreadProbabilities({ ...inputs, bias: 'bearish', shortStrike: 105, longStrike: 110, breakeven: 106.5 })
+    expect(bearCall.probOfProfit).toBeCloseTo(probBelow(106.5, inputs) * 100, 10)
+    expect(bearCall.probMaxLoss).toBeCloseTo(probAbove(110, inputs) * 100, 10)
+  })
+})
+
+describe('expectedValue', () => {
+  it('weights max profit, max loss and the midpoint between them', () => {
+    const probabilities = { probOfProfit: 70, probMaxProfit: 60, probMaxLoss: 20, probTouch: 50 }
+    expect(expectedValue(probabilities, 1.5, 3.5)).toBeCloseTo(0.6 * 1.5 - 0.2 * 3.5 + 0.2 * -1, 10)
+  })
+})
+
+describe('payoffStatistics', () => {
+  it('agrees with the closed form for a vertical', () => {
+    const payoff = (price: number) => 1.5 - Math.min(5, Math.max(0, 95 - price))
+    const statistics = payoffStatistics(payoff, inputs, 1.5, 3.5)
+    const closedForm = spreadProbabilities({ ...inputs, bias: 'bullish', shortStrike: 95, longStrike: 90, breakeven: 93.5 })
+
+    expect(statistics.probOfProfit).toBeCloseTo(closedForm.probOfProfit, 0)
+    expect(statistics.probMaxProfit).toBeCloseTo(closedForm.probMaxProfit, 0)
+    expect(statistics.probMaxLoss).toBeCloseTo(closedForm.probMaxLoss, 0)
+  })
+
+  it('integrates a constant payoff exactly', () => {
+    expect(payoffStatistics(() => 2, inputs, 2, null)).toEqual({
+      expectedValue: expect.closeTo(2, 10),
+      probOfProfit: expect.closeTo(100, 10),
+      probMaxProfit: expect.closeTo(100, 10),
+      probMaxLoss: 0
+    })
+  })
+})
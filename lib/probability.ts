@@ -0,0 +1,142 @@
+import { DEFAULT_RISK_FREE_RATE, normalCdf, normalPdf } from '@/lib/pricing'
+
+// Lognormal (risk-neutral) price probabilities for vertical spreads and arbitrary payoffs
+
+export interface ProbabilityInputs {
+  spot: number
+  timeToExpiry: number // in years
+  volatility: number // annualized
+  riskFreeRate?: number
+}
+
+export interface SpreadProbabilityInputs extends ProbabilityInputs {
+  bias: 'bullish' | 'bearish'
+  shortStrike: number
+  longStrike: number
+  breakeven: number
+}
+
+// All probabilities are percentages (0-100) to match probOfProfit
+export interface SpreadProbabilities {
+  probOfProfit: number
+  probMaxProfit: number
+  probMaxLoss: number
+  probTouch: number
+}
+
+const MIN_TIME_TO_EXPIRY = 1 / (365 * 24 * 60)
+const MIN_VOLATILITY = 0.0001
+
+function normalizeInputs({ timeToExpiry, volatility, riskFreeRate }: ProbabilityInputs) {
+  const t = Math.max(timeToExpiry, MIN_TIME_TO_EXPIRY)
+  const sigma = Math.max(volatility, MIN_VOLATILITY)
+  const r = riskFreeRate ?? DEFAULT_RISK_FREE_RATE
+  return { t, sigma, drift: r - 0.5 * sigma * sigma }
+}
+
+// Probability that the price finishes above `level` at expiration, N(d2)
+export function probAbove(level: number, inputs: ProbabilityInputs): number {
+  if (level <= 0) return 1
+  const { t, sigma, drift } = normalizeInputs(inputs)
+  const d2 = (Math.log(inputs.spot / level) + drift * t) / (sigma * Math.sqrt(t))
+  return normalCdf(d2)
+}
+
+export function probBelow(level: number, inputs: ProbabilityInputs): number {
+  return 1 - probAbove(level, inputs)
+}
+
+// Probability that the price trades at `level` at any time before expiration.
+// Uses the first-passage distribution of Brownian motion with drift (reflection principle).
+export function probTouch(level: number, inputs: ProbabilityInputs): number {
+  if (level <= 0) return 0
+  if (level === inputs.spot) return 1
+
+  const { t, sigma, drift } = normalizeInputs(inputs)
+  const sqrtT = sigma * Math.sqrt(t)
+  // Measure distance in the direction of the barrier so one formula covers both sides
+  const distance = Math.abs(Math.log(level / inputs.spot))
+  const mu = level > inputs.spot ? drift : -drift
+
+  const probability =
+    normalCdf((-distance + mu * t) / sqrtT) +
+    Math.exp((2 * mu * distance) / (sigma * sigma)) * normalCdf((-distance - mu * t) / sqrtT)
+
+  return Math.min(Math.max(probability, 0), 1)
+}
+
+export function spreadProbabilities(inputs: SpreadProbabilityInputs): SpreadProbabilities {
+  const { bias, shortStrike, longStrike, breakeven } = inputs
+
+  // Bearish spreads profit below their strikes, bullish spreads above them.
+  // Max profit sits beyond the short strike and max loss beyond the long strike for credit and debit spreads alike.
+  const probProfitSide = bias === 'bearish' ? probBelow : probAbove
+  const probLossSide = bias === 'bearish' ? probAbove : probBelow
+
+  return {
+    probOfProfit: probProfitSide(breakeven, inputs) * 100,
+    probMaxProfit: probProfitSide(shortStrike, inputs) * 100,
+    probMaxLoss: probLossSide(longStrike, inputs) * 100,
+    probTouch: probTouch(shortStrike, inputs) * 100
+  }
+}
+
+// Expected P&L per share at expiration. Between the strikes the payoff is linear,
+// so that region contributes its midpoint value.
+export function expectedValue(probabilities: SpreadProbabilities, maxProfit: number, maxLoss: number): number {
+  const pMaxProfit = probabilities.probMaxProfit / 100
+  const pMaxLoss = probabilities.probMaxLoss / 100
+  const pBetween = Math.max(0, 1 - pMaxProfit - pMaxLoss)
+
+  return pMaxProfit * maxProfit - pMaxLoss * maxLoss + pBetween * (maxProfit - maxLoss) / 2
+}
+
+export interface PayoffStatistics {
+  expectedValue: number
+  probOfProfit: number // 0-100
+  probMaxProfit: number // 0-100
+  probMaxLoss: number // 0-100, 0 when maxLoss is null
+}
+
+// Number of integration points across +/-6 standard deviations
+const PAYOFF_INTEGRATION_STEPS = 600
+
+// Integrate a payoff at expiration over the lognormal price distribution.
+// Used for positions whose payoff isn't a simple vertical (strangles, calendars).
+export function payoffStatistics(
+  payoff: (price: number) => number,
+  inputs: ProbabilityInputs,
+  maxProfit: number,
+  maxLoss: number | null
+): PayoffStatistics {
+  const { t, sigma, drift } = normalizeInputs(inputs)
+  const sqrtT = sigma * Math.sqrt(t)
+  const step = 12 / PAYOFF_INTEGRATION_STEPS
+  // Treat anything within a cent of the extremes as reaching them
+  const tolerance = 0.01
+
+  let expected = 0
+  let profit = 0
+  let atMaxProfit = 0
+  let atMaxLoss = 0
+  let totalWeight = 0
+
+  for (let i = 0; i <= PAYOFF_INTEGRATION_STEPS; i++) {
+    const z = -6 + i * step
+    const weight = normalPdf(z) * step
+    const value = payoff(inputs.spot * Math.exp(drift * t + sqrtT * z))
+
+    totalWeight += weight
+    expected += value * weight
+    if (value > 0) profit += weight
+    if (value >= maxProfit - tolerance) atMaxProfit += weight
+    if (maxLoss !== null && value <= -maxLoss + tolerance) atMaxLoss += weight
+  }
+
+  return {
+    expectedValue: expected / totalWeight,
+    probOfProfit: (profit / totalWeight) * 100,
+    probMaxProfit: (atMaxProfit / totalWeight) * 100,
+    probMaxLoss: (atMaxLoss / totalWeight) * 100
+  }
+}
@@ -0,0 +1,26 @@
+// Where a response's data came from and how fresh it is, attached to every API response
+
+export interface ProviderError {
+  provider: string
+  message: string
+}
+
+export interface Provenance {
+  source: string // provider(s) that supplied the data, or 'demo' / 'static' for built-in data
+  asOf: string // ISO timestamp of the underlying data
+  isFallback: boolean // built-in demo or static data rather than a live provider
+  isStale: boolean // asOf is older than the route's freshness limit
+  errors: ProviderError[] // providers that failed or were skipped along the way
+}
+
+export type ProvenanceFields = Omit<Provenance, 'isStale'>
+
+// Staleness is judged at response time so cached data ages correctly
+export function withFreshness(fields: ProvenanceFields, maxAgeSeconds: number): Provenance {
+  const age = (Date.now() - new Date(fields.asOf).getTime()) / 1000
+  return { ...fields, isStale: age > maxAgeSeconds }
+}
+
+export function toProviderError(provider: string, error: unknown): ProviderError {
+  return { provider, message: error instanceof Error ? error.message : String(error) }
+}
@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_RANKING_WEIGHTS,
+  RANKING_PRESETS,
+  SCORE_FACTORS,
+  factorValues,
+  formatWeights,
+  matchRankingPreset,
+  parseWeights,
+  scoreRecommendation,
+  type RankingWeights
+} from '@/lib/ranking'
+import { buildVerticalSpread } from '@/lib/strategies/verticals'
+import type { OptionContract, VerticalSpreadRecommendation } from '@/lib/types'
+
+function contract(strike: number, bid: number, ask: number): OptionContract {
+  return {
+    contractSymbol: `TSLA-put-${strike}`,
+    strike,
+    expiration: Date.UTC(2025, 0, 17) / 1000,
+    bid,
+    ask,
+    lastPrice: (bid + ask) / 2,
+    volume: 500,
+    openInterest: 1000,
+    impliedVolatility: 0.5,
+    inTheMoney: false
+  }
+}
+
+const built = buildVerticalSpread('bull_put', contract(380, 2.5, 2.6), contract(375, 1.3, 1.4), {
+  currentPrice: 400,
+  riskFreeRate: 0.045,
+  pricing: 'natural',
+  slippage: 0.25,
+  now: new Date('2025-01-10T15:00:00Z')
+}) as VerticalSpreadRecommendation
+
+// 1.10 credit on a 5-wide spread, with factor inputs pinned to round numbers
+const rec: VerticalSpreadRecommendation = {
+  ...built,
+  expectedValue: 0.39, // 10% of the 3.90 at risk
+  probOfProfit: 70,
+  liquidityScore: 80,
+  strikePlacement: { expectedMoves: 0.75, standardDeviations: 0.6 },
+  events: [{ date: '2025-01-15', name: 'CPI', kind: 'cpi' }]
+}
+
+function only(factor: string): RankingWeights {
+  const weights = {} as RankingWeights
+  SCORE_FACTORS.forEach(key => { weights[key] = key === factor ? 1 : 0 })
+  return weights
+}
+
+describe('factorValues', () => {
+  it('normalizes each factor to 0-1', () => {
+    const values = factorValues(rec)
+    expect(values.expectedValue).toBeCloseTo(0.75, 10)
+    expect(values.probOfProfit).toBeCloseTo(0.7, 10)
+    expect(values.creditToWidth).toBeCloseTo((1.1 / 5) / 0.5, 10)
+    expect(values.liquidity).toBeCloseTo(0.8, 10)
+    expect(values.expectedMove).toBeCloseTo(0.5, 10)
+    expect(values.eventRisk).toBeCloseTo(0.8, 10)
+  })
+
+  it('clamps stacked event penalties and missing placements to 0', () => {
+    const values = factorValues({
+      ...rec,
+      strikePlacement: null,
+      events: [
+        { date: '2025-01-14', name: 'TSLA earnings', kind: 'earnings' },
+        { date: '2025-01-15', name: 'FOMC', kind: 'fomc' },
+        { date: '2025-01-16', name: 'CPI', kind: 'cpi' }
+      ]
+    })
+    expect(values.eventRisk).toBe(0)
+    expect(values.expectedMove).toBe(0)
+  })
+
+  it('measures unbounded-loss positions against their credit', () => {
+    const values = factorValues({ ...rec, maxLoss: null, maxProfit: 2, expectedValue: -0.2 })
+    expect(values.creditToWidth).toBe(0)
+    expect(values.expectedValue).toBeCloseTo(0.25, 10)
+  })
+})
+
+describe('scoreRecommendation', () => {
+  it('sums weighted factor points to the total', () => {
+    const score = scoreRecommendation(rec, DEFAULT_RANKING_WEIGHTS)
+    const points = SCORE_FACTORS.reduce((total, factor) => total + score.factors[factor].points, 0)
+    expect(score.total).toBeCloseTo(points, 10)
+    expect(score.total).toBeGreaterThan(0)
+    expect(score.total).toBeLessThan(100)
+  })
+
+  it('depends only on the ratios between weights', () => {
+    const doubled = {} as RankingWeights
+    SCORE_FACTORS.forEach(factor => { doubled[factor] = DEFAULT_RANKING_WEIGHTS[factor] * 2 })
+    expect(scoreRecommendation(rec, doubled).total).toBeCloseTo(scoreRecommendation(rec, DEFAULT_RANKING_WEIGHTS).total, 10)
+  })
+
+  it('scores a single weighted factor as its value out of 100', () => {
+    expect(scoreRecommendation(rec, only('probOfProfit')).total).toBeCloseTo(70, 10)
+    expect(scoreRecommendation(rec, only('eventRisk')).total).toBeCloseTo(80, 10)
+  })
+
+  it('ranks a wider cushion higher under the conservative preset', () => {
+    const further = { ...rec, strikePlacement: { expectedMoves: 1.5, standardDeviations: 1.2 } }
+    const conservative = RANKING_PRESETS.conservative.weights
+    expect(scoreRecommendation(further, conservative).total).toBeGreaterThan(scoreRecommendation(rec, conservative).total)
+  })
+})
+
+describe('weights', () => {
+  it('round-trips every preset and matches it back', () => {
+    Object.keys(RANKING_PRESETS).forEach(id => {
+      const { weights } = RANKING_PRESETS[id as keyof typeof RANKING_PRESETS]
+      expect(parseWeights(formatWeights(weights))).toEqual({ ok: true, weights })
+      expect(matchRankingPreset(weights)).toBe(id)
+    })
+    expect(matchRankingPreset(only('liquidity'))).toBeNull()
+  })
+
+  it('gives omitted factors a weight of 0', () => {
+    expect(parseWeights(' liquidity : 4 ,')).toEqual({ ok: true, weights: { ...only('liquidity'), liquidity: 4 } })
+  })
+
+  it('rejects unknown factors, out-of-range weights and all-zero weights', () => {
+    expect(parseWeights('speed:3')).toMatchObject({ ok: false, message: expect.stringContaining('unknown factor "speed"') })
+    expect(parseWeights('liquidity:11')).toEqual({ ok: false, message: 'weight for liquidity must be between 0 and 10, got "11"' })
+    expect(parseWeights('liquidity')).toEqual({ ok: false, message: 'weight for liquidity must be between 0 and 10, got ""' })
+    expect(parseWeights('liquidity:0')).toEqual({ ok: false, message: 'at least one factor needs a weight above 0' })
+  })
+})
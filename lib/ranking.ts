@@ -0,0 +1,156 @@
+import type { MarketEvent } from '@/lib/eventCalendar'
+import type { StrategyRecommendation } from '@/lib/types'
+
+// Weighted scoring model that ranks recommendations on several factors at once, 0 (worst) to 100
+
+export type ScoreFactor =
+  | 'expectedValue'
+  | 'probOfProfit'
+  | 'creditToWidth'
+  | 'liquidity'
+  | 'expectedMove'
+  | 'eventRisk'
+
+// Relative importance of each factor, 0-10; only the ratios between weights matter
+export type RankingWeights = Record<ScoreFactor, number>
+
+export interface FactorScore {
+  value: number // the factor normalized to 0-1
+  weight: number
+  points: number // contribution to the total, 0-100 across all factors
+}
+
+export interface ScoreBreakdown {
+  total: number // 0-100
+  factors: Record<ScoreFactor, FactorScore>
+}
+
+export type RankingPresetId = 'conservative' | 'balanced' | 'aggressive'
+
+export const SCORE_FACTORS: ScoreFactor[] = [
+  'expectedValue',
+  'probOfProfit',
+  'creditToWidth',
+  'liquidity',
+  'expectedMove',
+  'eventRisk'
+]
+
+export const SCORE_FACTOR_LABELS: Record<ScoreFactor, string> = {
+  expectedValue: 'Expected Value',
+  probOfProfit: 'Prob. of Profit',
+  creditToWidth: 'Credit / Width',
+  liquidity: 'Liquidity',
+  expectedMove: 'Outside Expected Move',
+  eventRisk: 'Event Risk'
+}
+
+export const MAX_FACTOR_WEIGHT = 10
+
+export const RANKING_PRESETS: Record<RankingPresetId, { label: string; weights: RankingWeights }> = {
+  conservative: {
+    label: 'Conservative',
+    weights: { expectedValue: 2, probOfProfit: 5, creditToWidth: 1, liquidity: 3, expectedMove: 4, eventRisk: 4 }
+  },
+  balanced: {
+    label: 'Balanced',
+    weights: { expectedValue: 3, probOfProfit: 3, creditToWidth: 3, liquidity: 2, expectedMove: 2, eventRisk: 2 }
+  },
+  aggressive: {
+    label: 'Aggressive',
+    weights: { expectedValue: 4, probOfProfit: 1, creditToWidth: 5, liquidity: 1, expectedMove: 0, eventRisk: 1 }
+  }
+}
+
+export const DEFAULT_RANKING_WEIGHTS = RANKING_PRESETS.balanced.weights
+
+// Expected value as a fraction of the amount at risk that maps to 0 and 1 (+/-20%)
+const EV_RANGE = 0.2
+// Credit of half the width or more scores full marks
+const FULL_CREDIT_TO_WIDTH = 0.5
+// Short strikes this many expected moves from spot score full marks
+const FULL_EXPECTED_MOVES = 1.5
+// Score lost per event before expiration
+const EVENT_PENALTIES: Record<MarketEvent['kind'], number> = {
+  earnings: 0.6,
+  fomc: 0.25,
+  cpi: 0.2,
+  nfp: 0.15
+}
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value))
+}
+
+// Each factor on a 0-1 scale where higher is better
+export function factorValues(rec: StrategyRecommendation): Record<ScoreFactor, number> {
+  // Positions with unbounded loss are measured against their credit instead
+  const atRisk = rec.maxLoss ?? rec.maxProfit
+  const eventPenalty = rec.events.reduce((total, event) => total + EVENT_PENALTIES[event.kind], 0)
+
+  return {
+    expectedValue: atRisk > 0 ? clamp01(0.5 + rec.expectedValue / atRisk / (2 * EV_RANGE)) : 0,
+    probOfProfit: clamp01(rec.probOfProfit / 100),
+    // Max profit over the full risk range is credit/width for credit spreads and condors
+    creditToWidth: rec.maxLoss === null
+      ? 0
+      : clamp01(rec.maxProfit / (rec.maxProfit + rec.maxLoss) / FULL_CREDIT_TO_WIDTH),
+    liquidity: clamp01(rec.liquidityScore / 100),
+    expectedMove: rec.strikePlacement ? clamp01(rec.strikePlacement.expectedMoves / FULL_EXPECTED_MOVES) : 0,
+    eventRisk: clamp01(1 - eventPenalty)
+  }
+}
+
+export function scoreRecommendation(rec: StrategyRecommendation, weights: RankingWeights): ScoreBreakdown {
+  const values = factorValues(rec)
+  const totalWeight = SCORE_FACTORS.reduce((total, factor) => total + weights[factor], 0)
+
+  const factors = {} as Record<ScoreFactor, FactorScore>
+  let total = 0
+  SCORE_FACTORS.forEach(factor => {
+    const points = totalWeight > 0 ? (values[factor] * weights[factor] / totalWeight) * 100 : 0
+    factors[factor] = { value: values[factor], weight: weights[factor], points }
+    total += points
+  })
+
+  return { total, factors }
+}
+
+// Preset whose weights match exactly, if any
+export function matchRankingPreset(weights: RankingWeights): RankingPresetId | null {
+  const ids = Object.keys(RANKING_PRESETS) as RankingPresetId[]
+  return ids.find(id => SCORE_FACTORS.every(factor => RANKING_PRESETS[id].weights[factor] === weights[factor])) || null
+}
+
+// Weights as `factor:weight` pairs, the format of the `weights` query parameter
+export function formatWeights(weights: RankingWeights): string {
+  return SCORE_FACTORS.map(factor => `${factor}:${weights[factor]}`).join(',')
+}
+
+export type WeightsParseResult =
+  | { ok: true; weights: RankingWeights }
+  | { ok: false; message: string }
+
+// Parse `factor:weight` pairs; factors left out get a weight of 0
+export function parseWeights(raw: string): WeightsParseResult {
+  const weights = {} as RankingWeights
+  SCORE_FACTORS.forEach(factor => { weights[factor] = 0 })
+
+  const pairs = raw.split(',').map(pair => pair.trim()).filter(pair => pair !== '')
+  for (const pair of pairs) {
+    const [factor, value] = pair.split(':').map(part => part.trim())
+    if (SCORE_FACTORS.indexOf(factor as ScoreFactor) === -1) {
+      return { ok: false, message: `unknown factor "${factor}"; expected any of ${SCORE_FACTORS.join(', ')}` }
+    }
+    const weight = Number(value)
+    if (value === undefined || value === '' || !isFinite(weight) || weight < 0 || weight > MAX_FACTOR_WEIGHT) {
+      return { ok: false, message: `weight for ${factor} must be between 0 and ${MAX_FACTOR_WEIGHT}, got "${value ?? ''}"` }
+    }
+    weights[factor as ScoreFactor] = weight
+  }
+
+  if (SCORE_FACTORS.every(factor => weights[factor] === 0)) {
+    return { ok: false, message: 'at least one factor needs a weight above 0' }
+  }
+  return { ok: true, weights }
+}
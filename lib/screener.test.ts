@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_SCREENER_PARAMS,
+  SCREENER_PRESETS,
+  parseScreenerParams,
+  toQueryString,
+  validateScreenerParams
+} from '@/lib/screener'
+
+function parse(query: string) {
+  return parseScreenerParams(new URLSearchParams(query))
+}
+
+describe('parseScreenerParams', () => {
+  it('falls back to defaults for omitted and blank params', () => {
+    expect(parse('')).toEqual({ ok: true, params: DEFAULT_SCREENER_PARAMS })
+    expect(parse('minCredit=&limit= ')).toEqual({ ok: true, params: DEFAULT_SCREENER_PARAMS })
+  })
+
+  it('reads numbers and choices', () => {
+    const result = parse('minDTE=1&maxDTE=14&minPoP=70.5&side=put&pricing=mid&sort=credit&earnings=exclude')
+    expect(result.ok).toBe(true)
+    if (!result.ok) return
+    expect(result.params).toMatchObject({
+      minDTE: 1,
+      maxDTE: 14,
+      minPoP: 70.5,
+      side: 'put',
+      pricing: 'mid',
+      sort: 'credit',
+      earnings: 'exclude'
+    })
+  })
+
+  it('reports every invalid param with a message', () => {
+    const result = parse('minCredit=abc&limit=2.5&minPoP=120&side=up&strategies=bear_call,strangle&weights=speed:3')
+    expect(result).toEqual({
+      ok: false,
+      errors: [
+        { param: 'minCredit', message: 'must be a number, got "abc"' },
+        { param: 'minPoP', message: 'must be between 0 and 100, got 120' },
+        { param: 'limit', message: 'must be a whole number, got 2.5' },
+        { param: 'side', message: 'must be one of call, put, both, got "up"' },
+        {
+          param: 'strategies',
+          message: expect.stringContaining('unknown strategies strangle')
+        },
+        { param: 'weights', message: expect.stringContaining('unknown factor "speed"') }
+      ]
+    })
+  })
+
+  it('rejects inverted ranges', () => {
+    expect(parse('minDTE=10&maxDTE=5')).toEqual({
+      ok: false,
+      errors: [{ param: 'minDTE', message: 'must not exceed maxDTE (10 > 5)' }]
+    })
+    expect(parse('minWidth=6&maxWidth=5').ok).toBe(false)
+  })
+
+  it('rejects an empty strategies list', () => {
+    expect(parse('strategies=,')).toEqual({
+      ok: false,
+      errors: [{ param: 'strategies', message: 'must list at least one strategy' }]
+    })
+  })
+})
+
+describe('validateScreenerParams', () => {
+  it('accepts every preset', () => {
+    Object.keys(SCREENER_PRESETS).forEach(id => {
+      expect(validateScreenerParams(SCREENER_PRESETS[id].params)).toEqual([])
+    })
+  })
+
+  it('flags an emptied numeric field', () => {
+    expect(validateScreenerParams({ ...DEFAULT_SCREENER_PARAMS, minCredit: NaN })).toEqual([
+      { param: 'minCredit', message: 'must be a number' }
+    ])
+  })
+
+  it('flags the null an emptied field is saved as', () => {
+    const saved = JSON.parse(JSON.stringify({ ...DEFAULT_SCREENER_PARAMS, limit: NaN }))
+    expect(validateScreenerParams(saved)).toEqual([{ param: 'limit', message: 'must be a number' }])
+  })
+
+  it('flags an emptied ranking weight', () => {
+    const weights = { ...DEFAULT_SCREENER_PARAMS.weights, liquidity: NaN }
+    expect(validateScreenerParams({ ...DEFAULT_SCREENER_PARAMS, weights })).toEqual([
+      { param: 'weights', message: 'weight for liquidity must be between 0 and 10, got "NaN"' }
+    ])
+  })
+})
+
+describe('toQueryString', () => {
+  it('round-trips every preset through the parser', () => {
+    Object.keys(SCREENER_PRESETS).forEach(id => {
+      const params = SCREENER_PRESETS[id].params
+      expect(parse(toQueryString(params))).toEqual({ ok: true, params })
+    })
+  })
+
+  it('serializes keys in a fixed order', () => {
+    const reordered = { ...DEFAULT_SCREENER_PARAMS }
+    delete (reordered as Partial<typeof reordered>).minDTE
+    expect(toQueryString({ ...reordered, minDTE: 5 })).toBe(toQueryString(DEFAULT_SCREENER_PARAMS))
+  })
+})
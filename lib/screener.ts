@@ -0,0 +1,280 @@
+import { DEFAULT_RANKING_WEIGHTS, RANKING_PRESETS, formatWeights, parseWeights, type RankingWeights } from '@/lib/ranking'
+import type { StrategyId } from '@/lib/types'
+
+// Screener parameters shared by /api/tsla-options and the recommendations filter panel
+
+export type SpreadSide = 'call' | 'put' | 'both'
+export type SortKey = 'score' | 'riskReward' | 'probOfProfit' | 'credit' | 'expectedValue'
+// Which price each leg is assumed to fill at: bid/ask, mid, or mid less slippage
+export type PricingMode = 'natural' | 'mid' | 'fill'
+// How positions whose expiration spans the symbol's earnings are treated
+export type EarningsMode = 'include' | 'exclude' | 'penalize'
+
+export interface ScreenerParams {
+  minDTE: number
+  maxDTE: number
+  minCredit: number
+  minRiskReward: number
+  minPoP: number // 0-100
+  minIVRank: number // 0-100 52-week IV rank the underlying must be at; 0 disables
+  minExpectedMoves: number // short strikes at least this many expected moves from spot; 0 disables
+  minWidth: number
+  maxWidth: number
+  minLiquidity: number // 0-100 position liquidity score
+  minOpenInterest: number // per leg
+  minVolume: number // per leg
+  maxBidAskPct: number // per leg, bid/ask width as a percentage of mid
+  pricing: PricingMode
+  slippage: number // 0-0.5, fraction of each leg's bid/ask width conceded from mid in 'fill' mode
+  earnings: EarningsMode // 'penalize' ranks earnings-spanning positions after all others
+  side: SpreadSide // restricts strategies to those using only calls or only puts
+  strategies: StrategyId[]
+  limit: number // per strategy
+  sort: SortKey
+  weights: RankingWeights // factor weights for the 'score' sort
+}
+
+export interface ParamError {
+  param: keyof ScreenerParams | 'symbol'
+  message: string
+}
+
+// Parameters holding a single number
+export type NumericParam = { [K in keyof ScreenerParams]: ScreenerParams[K] extends number ? K : never }[keyof ScreenerParams]
+// Parameters holding one value from a fixed list
+type ChoiceParam = 'side' | 'pricing' | 'earnings' | 'sort'
+
+interface NumberRange {
+  min: number
+  max: number
+  integer?: boolean
+}
+
+export type ParseResult =
+  | { ok: true; params: ScreenerParams }
+  | { ok: false; errors: ParamError[] }
+
+export const DEFAULT_SCREENER_PARAMS: ScreenerParams = {
+  minDTE: 5,
+  maxDTE: 10,
+  minCredit: 0.15,
+  minRiskReward: 0.25,
+  minPoP: 0,
+  minIVRank: 0,
+  minExpectedMoves: 0,
+  minWidth: 0,
+  maxWidth: 10,
+  minLiquidity: 20,
+  minOpenInterest: 0,
+  minVolume: 0,
+  maxBidAskPct: 100,
+  pricing: 'natural',
+  slippage: 0.25,
+  earnings: 'include',
+  side: 'both',
+  strategies: ['bear_call', 'bull_put', 'iron_condor'],
+  limit: 10,
+  sort: 'score',
+  weights: DEFAULT_RANKING_WEIGHTS
+}
+
+export const SPREAD_SIDES: SpreadSide[] = ['call', 'put', 'both']
+export const SORT_KEYS: SortKey[] = ['score', 'riskReward', 'probOfProfit', 'credit', 'expectedValue']
+export const PRICING_MODES: PricingMode[] = ['natural', 'mid', 'fill']
+export const EARNINGS_MODES: EarningsMode[] = ['include', 'exclude', 'penalize']
+
+export const STRATEGY_IDS: StrategyId[] = [
+  'bear_call',
+  'bull_put',
+  'iron_condor',
+  'bull_call_debit',
+  'bear_put_debit',
+  'short_strangle',
+  'calendar'
+]
+
+export const STRATEGY_LABELS: Record<StrategyId, string> = {
+  bear_call: 'Bear Call',
+  bull_put: 'Bull Put',
+  iron_condor: 'Iron Condor',
+  bull_call_debit: 'Bull Call Debit',
+  bear_put_debit: 'Bear Put Debit',
+  short_strangle: 'Short Strangle',
+  calendar: 'Calendar'
+}
+
+export const SORT_LABELS: Record<SortKey, string> = {
+  score: 'Score',
+  riskReward: 'Risk/Reward',
+  probOfProfit: 'Prob. of Profit',
+  credit: 'Credit',
+  expectedValue: 'Expected Value'
+}
+
+export const PRICING_LABELS: Record<PricingMode, string> = {
+  natural: 'Natural',
+  mid: 'Mid',
+  fill: 'Expected Fill'
+}
+
+export const EARNINGS_LABELS: Record<EarningsMode, string> = {
+  include: 'Include',
+  exclude: 'Exclude',
+  penalize: 'Rank Last'
+}
+
+export const SCREENER_PRESETS: Record<string, { label: string; params: ScreenerParams }> = {
+  default: {
+    label: 'Default (7-DTE)',
+    params: DEFAULT_SCREENER_PARAMS
+  },
+  conservative: {
+    label: 'Conservative',
+    params: { ...DEFAULT_SCREENER_PARAMS, minPoP: 75, minRiskReward: 0.15, minExpectedMoves: 1, earnings: 'exclude', minLiquidity: 40, minOpenInterest: 100, maxBidAskPct: 25, weights: RANKING_PRESETS.conservative.weights }
+  },
+  aggressive: {
+    label: 'Aggressive',
+    params: { ...DEFAULT_SCREENER_PARAMS, minDTE: 1, maxDTE: 7, minCredit: 0.5, minRiskReward: 0.4, weights: RANKING_PRESETS.aggressive.weights }
+  },
+  weekly: {
+    label: 'Next two weeks',
+    params: { ...DEFAULT_SCREENER_PARAMS, minDTE: 1, maxDTE: 14, limit: 20, sort: 'expectedValue' }
+  }
+}
+
+const MAX_DTE = 60
+const MAX_LIMIT = 50
+
+// Allowed range of every numeric parameter, in the order errors are reported
+export const NUMBER_RANGES: Record<NumericParam, NumberRange> = {
+  minDTE: { min: 0, max: MAX_DTE, integer: true },
+  maxDTE: { min: 0, max: MAX_DTE, integer: true },
+  minCredit: { min: 0, max: 100 },
+  minRiskReward: { min: 0, max: 100 },
+  minPoP: { min: 0, max: 100 },
+  minIVRank: { min: 0, max: 100 },
+  minExpectedMoves: { min: 0, max: 5 },
+  minWidth: { min: 0, max: 500 },
+  maxWidth: { min: 0, max: 500 },
+  minLiquidity: { min: 0, max: 100 },
+  minOpenInterest: { min: 0, max: 1000000, integer: true },
+  minVolume: { min: 0, max: 1000000, integer: true },
+  maxBidAskPct: { min: 0, max: 200 },
+  slippage: { min: 0, max: 0.5 },
+  limit: { min: 1, max: MAX_LIMIT, integer: true }
+}
+
+const NUMERIC_PARAMS = Object.keys(NUMBER_RANGES) as NumericParam[]
+
+const CHOICES: { [K in ChoiceParam]: ScreenerParams[K][] } = {
+  side: SPREAD_SIDES,
+  pricing: PRICING_MODES,
+  earnings: EARNINGS_MODES,
+  sort: SORT_KEYS
+}
+
+// Why a numeric parameter's value is out of range, or null when it's valid
+export function numberError(param: NumericParam, value: number): string | null {
+  const { min, max, integer } = NUMBER_RANGES[param]
+  // Number.isFinite also rejects null, which is what NaN becomes in saved JSON
+  if (!Number.isFinite(value)) return 'must be a number'
+  if (integer && !Number.isInteger(value)) return `must be a whole number, got ${value}`
+  if (value < min || value > max) return `must be between ${min} and ${max}, got ${value}`
+  return null
+}
+
+function crossFieldErrors(params: ScreenerParams): ParamError[] {
+  const errors: ParamError[] = []
+  if (params.minDTE > params.maxDTE) {
+    errors.push({ param: 'minDTE', message: `must not exceed maxDTE (${params.minDTE} > ${params.maxDTE})` })
+  }
+  if (params.minWidth > params.maxWidth) {
+    errors.push({ param: 'minWidth', message: `must not exceed maxWidth (${params.minWidth} > ${params.maxWidth})` })
+  }
+  return errors
+}
+
+// Check already-typed params, e.g. the filter panel's state before it's saved or sent
+export function validateScreenerParams(params: ScreenerParams): ParamError[] {
+  const errors: ParamError[] = []
+  NUMERIC_PARAMS.forEach(param => {
+    const message = numberError(param, params[param])
+    if (message !== null) errors.push({ param, message })
+  })
+  const weights = parseWeights(formatWeights(params.weights))
+  if (!weights.ok) errors.push({ param: 'weights', message: weights.message })
+  return errors.length > 0 ? errors : crossFieldErrors(params)
+}
+
+// Parse and validate query parameters, falling back to defaults for anything omitted
+export function parseScreenerParams(searchParams: URLSearchParams): ParseResult {
+  const errors: ParamError[] = []
+  const params: ScreenerParams = { ...DEFAULT_SCREENER_PARAMS }
+
+  NUMERIC_PARAMS.forEach(param => {
+    const raw = searchParams.get(param)
+    if (raw === null || raw.trim() === '') return
+
+    const value = Number(raw)
+    const message = isFinite(value) ? numberError(param, value) : `must be a number, got "${raw}"`
+    if (message !== null) {
+      errors.push({ param, message })
+    } else {
+      params[param] = value
+    }
+  })
+
+  const readChoice = <K extends ChoiceParam>(param: K) => {
+    const raw = searchParams.get(param)
+    if (raw === null) return
+    const choice = CHOICES[param].find(candidate => candidate === raw)
+    if (choice !== undefined) {
+      params[param] = choice
+    } else {
+      errors.push({ param, message: `must be one of ${CHOICES[param].join(', ')}, got "${raw}"` })
+    }
+  }
+
+  readChoice('side')
+  readChoice('pricing')
+  readChoice('earnings')
+  readChoice('sort')
+
+  const strategies = searchParams.get('strategies')
+  if (strategies !== null) {
+    const ids = strategies.split(',').map(id => id.trim()).filter(id => id !== '')
+    const unknown = ids.filter(id => STRATEGY_IDS.indexOf(id as StrategyId) === -1)
+    if (ids.length === 0) {
+      errors.push({ param: 'strategies', message: 'must list at least one strategy' })
+    } else if (unknown.length > 0) {
+      errors.push({ param: 'strategies', message: `unknown strategies ${unknown.join(', ')}; expected any of ${STRATEGY_IDS.join(', ')}` })
+    } else {
+      params.strategies = ids as StrategyId[]
+    }
+  }
+
+  const weights = searchParams.get('weights')
+  if (weights !== null) {
+    const parsed = parseWeights(weights)
+    if (parsed.ok) {
+      params.weights = parsed.weights
+    } else {
+      errors.push({ param: 'weights', message: parsed.message })
+    }
+  }
+
+  errors.push(...crossFieldErrors(params))
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, params }
+}
+
+// Serialize params in a fixed key order so equal params share a cache key
+export function toQueryString(params: ScreenerParams): string {
+  const keys = Object.keys(DEFAULT_SCREENER_PARAMS) as (keyof ScreenerParams)[]
+  return keys.map(key => {
+    const value = params[key]
+    const serialized = key === 'weights'
+      ? formatWeights(value as RankingWeights)
+      : Array.isArray(value) ? value.join(',') : String(value)
+    return `${key}=${encodeURIComponent(serialized)}`
+  }).join('&')
+}
@@ -0,0 +1,45 @@
+import { isMarketOpen } from '@/lib/marketCalendar'
+import { compactSnapshots, recordSnapshot } from '@/lib/snapshots'
+import { DEFAULT_SYMBOL } from '@/lib/symbols'
+
+// Background loop that records chain snapshots during regular trading hours.
+// Started once per server process from instrumentation.ts when SNAPSHOT_INTERVAL_MINUTES is set.
+
+let timer: ReturnType<typeof setInterval> | null = null
+let running = false
+
+function getRecorderSymbols(): string[] {
+  return (process.env.SNAPSHOT_SYMBOLS || DEFAULT_SYMBOL)
+    .split(',')
+    .map(symbol => symbol.trim().toUpperCase())
+    .filter(symbol => symbol !== '')
+}
+
+async function tick() {
+  // Skip a tick rather than overlap a slow one
+  if (running || !isMarketOpen()) return
+  running = true
+
+  try {
+    for (const symbol of getRecorderSymbols()) {
+      try {
+        const { snapshot } = await recordSnapshot(symbol)
+        console.log(`Recorded ${symbol} chain snapshot (${snapshot.expirations.length} expirations)`)
+        await compactSnapshots(symbol)
+      } catch (error) {
+        console.error(`Error recording ${symbol} chain snapshot:`, error)
+      }
+    }
+  } finally {
+    running = false
+  }
+}
+
+export function startSnapshotRecorder(): void {
+  const intervalMinutes = Number(process.env.SNAPSHOT_INTERVAL_MINUTES || 0)
+  if (!(intervalMinutes > 0) || timer) return
+
+  console.log(`Snapshot recorder started: ${getRecorderSymbols().join(', ')} every ${intervalMinutes} minutes`)
+  timer = setInterval(tick, intervalMinutes * 60 * 1000)
+  tick()
+}
@@ -0,0 +1,135 @@
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import {
+  SnapshotCsvError,
+  compactSnapshots,
+  loadSnapshots,
+  snapshotsFromCsv,
+  toOptionChains,
+  type ChainSnapshot
+} from '@/lib/snapshots'
+
+const CSV = [
+  'Timestamp,Spot,Expiration,Type,Strike,Bid,Ask,IV,Open_Interest',
+  '2025-01-10T15:00:00Z,400,2025-01-24,call,410,3.1,3.3,0.5,120',
+  '2025-01-10T15:00:00Z,400,2025-01-17,put,390,2.0,2.2,0.52,80',
+  '2025-01-10T15:00:00Z,400,2025-01-17,call,405,4.4,4.6,0.5,',
+  '2025-01-10T15:00:00Z,400,2025-01-17,call,400,6.9,7.1,0.5,300',
+  '',
+  '2025-01-10T16:00:00.000Z,402,2025-01-17,call,400,7.9,8.1,0.5,300'
+].join('\r\n')
+
+function importError(csv: string): SnapshotCsvError {
+  try {
+    snapshotsFromCsv(csv, 'TSLA')
+  } catch (error) {
+    if (error instanceof SnapshotCsvError) return error
+    throw error
+  }
+  throw new Error('expected the import to fail')
+}
+
+describe('snapshotsFromCsv', () => {
+  it('groups rows into snapshots by timestamp, expiration and type', () => {
+    const snapshots = snapshotsFromCsv(CSV, 'TSLA')
+
+    expect(snapshots.map(snapshot => snapshot.timestamp)).toEqual(['2025-01-10T15:00:00.000Z', '2025-01-10T16:00:00.000Z'])
+    expect(snapshots.map(snapshot => snapshot.spot)).toEqual([400, 402])
+    expect(snapshots[0]).toMatchObject({ symbol: 'TSLA', source: 'csv' })
+
+    const [front, back] = snapshots[0].expirations
+    expect(front.expirationDate).toBe(Date.UTC(2025, 0, 17) / 1000)
+    expect(back.expirationDate).toBe(Date.UTC(2025, 0, 24) / 1000)
+    expect(front.calls.map(contract => contract.strike)).toEqual([400, 405])
+    expect(front.puts.map(contract => contract.strike)).toEqual([390])
+  })
+
+  it('fills optional columns', () => {
+    const [snapshot] = snapshotsFromCsv(CSV, 'TSLA')
+    expect(snapshot.expirations[0].calls[1]).toEqual({
+      strike: 405,
+      bid: 4.4,
+      ask: 4.6,
+      last: 4.5,
+      iv: 0.5,
+      openInterest: 0,
+      volume: 0
+    })
+  })
+
+  it('reports missing columns and bad cells with their line', () => {
+    expect(importError('timestamp,spot,strike\n').message).toBe('line 1: missing columns expiration, type, bid, ask, iv')
+
+    const header = CSV.split('\r\n')[0]
+    const cases: [string, string][] = [
+      ['2025-01-10T15:00:00Z,400,2025-01-17,call,abc,1,1.2,0.5,', 'strike must be a number, got "abc"'],
+      ['2025-01-10T15:00:00Z,400,01/17/2025,call,400,1,1.2,0.5,', 'expiration must be YYYY-MM-DD, got "01/17/2025"'],
+      ['2025-01-10T15:00:00Z,400,2025-01-17,straddle,400,1,1.2,0.5,', 'type must be call or put, got "straddle"'],
+      ['yesterday,400,2025-01-17,call,400,1,1.2,0.5,', 'timestamp must be an ISO date or timestamp, got "yesterday"']
+    ]
+    cases.forEach(([row, message]) => {
+      const error = importError(`${header}\n2025-01-10T15:00:00Z,400,2025-01-17,call,395,1,1.2,0.5,\n${row}`)
+      expect(error.line).toBe(3)
+      expect(error.message).toBe(`line 3: ${message}`)
+    })
+  })
+})
+
+describe('toOptionChains', () => {
+  it('marks moneyness against the snapshot spot', () => {
+    const [chain] = toOptionChains(snapshotsFromCsv(CSV, 'TSLA')[0])
+    expect(chain.calls.map(contract => contract.inTheMoney)).toEqual([false, false])
+    expect(chain.puts[0]).toMatchObject({ strike: 390, inTheMoney: false, lastPrice: 2.1, impliedVolatility: 0.52 })
+    expect(chain.calls[0].contractSymbol).toBe(`TSLA-${chain.expirationDate}-C400`)
+  })
+})
+
+describe('compactSnapshots', () => {
+  const settings = { dir: process.env.SNAPSHOT_DIR, interval: process.env.SNAPSHOT_COMPACT_INTERVAL_MINUTES }
+  let dir: string
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'snapshots-'))
+    process.env.SNAPSHOT_DIR = dir
+  })
+
+  afterEach(async () => {
+    const restore = (key: string, value?: string) => {
+      if (value === undefined) delete process.env[key]
+      else process.env[key] = value
+    }
+    restore('SNAPSHOT_DIR', settings.dir)
+    restore('SNAPSHOT_COMPACT_INTERVAL_MINUTES', settings.interval)
+    await fs.rm(dir, { recursive: true, force: true })
+  })
+
+  async function write(date: string, timestamp: string) {
+    const snapshot: ChainSnapshot = { symbol: 'TSLA', timestamp, spot: 400, source: 'test', expirations: [] }
+    await fs.mkdir(path.join(dir, 'TSLA', date), { recursive: true })
+    await fs.writeFile(path.join(dir, 'TSLA', date, `${timestamp.replace(/[:.]/g, '-')}.json`), JSON.stringify(snapshot))
+  }
+
+  it('keeps one snapshot per minute when the interval is set to 0', async () => {
+    process.env.SNAPSHOT_COMPACT_INTERVAL_MINUTES = '0'
+    await write('2025-01-10', '2025-01-10T15:00:00.000Z')
+    await write('2025-01-10', '2025-01-10T15:00:30.000Z')
+    await write('2025-01-10', '2025-01-10T15:01:00.000Z')
+
+    expect(await compactSnapshots('TSLA', new Date('2025-01-15T15:00:00Z'))).toBe(1)
+    const day = JSON.parse(await fs.readFile(path.join(dir, 'TSLA', '2025-01-10.json'), 'utf8'))
+    expect(day.snapshots.map((snapshot: ChainSnapshot) => snapshot.timestamp)).toEqual([
+      '2025-01-10T15:00:00.000Z',
+      '2025-01-10T15:01:00.000Z'
+    ])
+  })
+
+  it('finds evening snapshots under their New York session date', async () => {
+    // Friday 8:00 PM ET, already Saturday in UTC
+    await write('2025-01-10', '2025-01-11T01:00:00.000Z')
+
+    const snapshots = await loadSnapshots('TSLA', new Date('2025-01-11T00:30:00Z'), new Date('2025-01-11T02:00:00Z'))
+    expect(snapshots.map(snapshot => snapshot.timestamp)).toEqual(['2025-01-11T01:00:00.000Z'])
+  })
+})
@@ -0,0 +1,367 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { addDays, toEasternTime } from '@/lib/marketCalendar'
+import { getChainsInWindow, getQuote } from '@/lib/marketData'
+import type { ProviderError } from '@/lib/provenance'
+import type { OptionChain, OptionContract } from '@/lib/types'
+import { isMissingFile } from '@/lib/utils'
+
+// Normalized option chain snapshots on disk, for backtests, replay and other history-based analyses.
+// Layout: <dir>/<SYMBOL>/<YYYY-MM-DD>/<timestamp>.json while recent, compacted into <dir>/<SYMBOL>/<YYYY-MM-DD>.json,
+// where the date is the New York session date.
+
+export interface SnapshotContract {
+  strike: number
+  bid: number
+  ask: number
+  last: number
+  iv: number
+  openInterest: number
+  volume: number
+}
+
+export interface SnapshotExpiration {
+  expirationDate: number // unix seconds, as in OptionChain
+  calls: SnapshotContract[]
+  puts: SnapshotContract[]
+}
+
+export interface ChainSnapshot {
+  symbol: string
+  timestamp: string
+  spot: number
+  source: string
+  expirations: SnapshotExpiration[]
+}
+
+export interface SnapshotSummary {
+  symbol: string
+  timestamp: string
+  spot: number
+  expirations: number
+  contracts: number
+  compacted: boolean
+}
+
+interface CompactedDay {
+  symbol: string
+  date: string
+  snapshots: ChainSnapshot[]
+}
+
+// Expirations recorded per snapshot
+const SNAPSHOT_MAX_DTE = 60
+
+export function getSnapshotDir(): string {
+  return process.env.SNAPSHOT_DIR || path.join(process.cwd(), 'data', 'snapshots')
+}
+
+// Days kept at full resolution before compaction, and the spacing compaction thins them to.
+// The spacing is at least a minute so a setting of 0 can't divide the day into NaN buckets.
+function getCompactionSettings() {
+  const afterDays = Number(process.env.SNAPSHOT_COMPACT_AFTER_DAYS || 2)
+  const intervalMinutes = Number(process.env.SNAPSHOT_COMPACT_INTERVAL_MINUTES || 60)
+  return {
+    afterDays: isNaN(afterDays) ? 2 : Math.max(0, afterDays),
+    intervalMinutes: isNaN(intervalMinutes) ? 60 : Math.max(1, intervalMinutes)
+  }
+}
+
+// Snapshot days are New York session dates, so an evening snapshot isn't filed under the next UTC day
+function sessionDate(time: Date): string {
+  return toEasternTime(time).date
+}
+
+function symbolDir(symbol: string): string {
+  return path.join(getSnapshotDir(), symbol)
+}
+
+function toSnapshotContract(contract: OptionContract): SnapshotContract {
+  return {
+    strike: contract.strike,
+    bid: contract.bid,
+    ask: contract.ask,
+    last: contract.lastPrice,
+    iv: contract.impliedVolatility,
+    openInterest: contract.openInterest,
+    volume: contract.volume
+  }
+}
+
+// Rebuild full OptionChains from a snapshot so strategies can run against it
+export function toOptionChains(snapshot: ChainSnapshot): OptionChain[] {
+  return snapshot.expirations.map(expiration => {
+    const toContract = (type: 'call' | 'put') => (contract: SnapshotContract): OptionContract => ({
+      contractSymbol: `${snapshot.symbol}-${expiration.expirationDate}-${type === 'call' ? 'C' : 'P'}${contract.strike}`,
+      strike: contract.strike,
+      expiration: expiration.expirationDate,
+      bid: contract.bid,
+      ask: contract.ask,
+      lastPrice: contract.last,
+      volume: contract.volume,
+      openInterest: contract.openInterest,
+      impliedVolatility: contract.iv,
+      inTheMoney: type === 'call' ? contract.strike < snapshot.spot : contract.strike > snapshot.spot
+    })
+    return {
+      expirationDate: expiration.expirationDate,
+      calls: expiration.calls.map(toContract('call')),
+      puts: expiration.puts.map(toContract('put'))
+    }
+  })
+}
+
+async function writeJson(file: string, data: unknown): Promise<void> {
+  // Write then rename so a concurrent reader never sees a half-written file
+  await fs.mkdir(path.dirname(file), { recursive: true })
+  await fs.writeFile(`${file}.tmp`, JSON.stringify(data))
+  await fs.rename(`${file}.tmp`, file)
+}
+
+async function readDir(dir: string): Promise<string[]> {
+  try {
+    return await fs.readdir(dir)
+  } catch (error: unknown) {
+    if (isMissingFile(error)) return []
+    throw error
+  }
+}
+
+// Fetch the quote and every chain out to SNAPSHOT_MAX_DTE and save them
+export async function recordSnapshot(symbol: string): Promise<{ snapshot: ChainSnapshot; errors: ProviderError[] }> {
+  const quote = await getQuote(symbol)
+  const { chains, sources, errors } = await getChainsInWindow(symbol, 0, SNAPSHOT_MAX_DTE)
+  if (chains.length === 0) {
+    throw new Error(`No option chains available to snapshot for ${symbol}`)
+  }
+
+  const timestamp = new Date().toISOString()
+  const snapshot: ChainSnapshot = {
+    symbol,
+    timestamp,
+    spot: quote.data.price,
+    source: [quote.source, ...sources.filter(source => source !== quote.source)].join(', '),
+    expirations: chains
+      .map(chain => ({
+        expirationDate: chain.expirationDate,
+        calls: chain.calls.map(toSnapshotContract),
+        puts: chain.puts.map(toSnapshotContract)
+      }))
+      .sort((a, b) => a.expirationDate - b.expirationDate)
+  }
+
+  const date = sessionDate(new Date(timestamp))
+  await writeJson(path.join(symbolDir(symbol), date, `${timestamp.replace(/[:.]/g, '-')}.json`), snapshot)
+  return { snapshot, errors: [...quote.errors, ...errors] }
+}
+
+// Every snapshot recorded on one day, compacted or not, oldest first
+async function readDay(symbol: string, date: string): Promise<{ snapshots: ChainSnapshot[]; compacted: boolean }> {
+  const dir = symbolDir(symbol)
+  const files = (await readDir(path.join(dir, date))).filter(file => file.endsWith('.json'))
+  if (files.length > 0) {
+    const snapshots = await Promise.all(files.map(async file =>
+      JSON.parse(await fs.readFile(path.join(dir, date, file), 'utf8')) as ChainSnapshot
+    ))
+    return { snapshots: snapshots.sort((a, b) => a.timestamp.localeCompare(b.timestamp)), compacted: false }
+  }
+
+  try {
+    const day: CompactedDay = JSON.parse(await fs.readFile(path.join(dir, `${date}.json`), 'utf8'))
+    return { snapshots: day.snapshots, compacted: true }
+  } catch (error: unknown) {
+    if (isMissingFile(error)) return { snapshots: [], compacted: false }
+    throw error
+  }
+}
+
+// Recorded days, oldest first
+async function listDays(symbol: string): Promise<string[]> {
+  const days = (await readDir(symbolDir(symbol)))
+    .map(entry => entry.replace(/\.json$/, ''))
+    .filter(entry => /^\d{4}-\d{2}-\d{2}$/.test(entry))
+  return days.filter((day, index) => days.indexOf(day) === index).sort()
+}
+
+// Snapshots between two instants (inclusive), reading only the days that overlap them
+export async function loadSnapshots(symbol: string, from?: Date, to?: Date): Promise<ChainSnapshot[]> {
+  const fromDay = from ? sessionDate(from) : ''
+  const toDay = to ? sessionDate(to) : '9999-12-31'
+  const snapshots: ChainSnapshot[] = []
+
+  for (const day of await listDays(symbol)) {
+    if (day < fromDay || day > toDay) continue
+    const { snapshots: daySnapshots } = await readDay(symbol, day)
+    snapshots.push(...daySnapshots.filter(snapshot => {
+      const time = new Date(snapshot.timestamp).getTime()
+      return (!from || time >= from.getTime()) && (!to || time <= to.getTime())
+    }))
+  }
+  return snapshots
+}
+
+export async function listSnapshots(symbol: string, from?: Date, to?: Date): Promise<SnapshotSummary[]> {
+  const fromDay = from ? sessionDate(from) : ''
+  const toDay = to ? sessionDate(to) : '9999-12-31'
+  const summaries: SnapshotSummary[] = []
+
+  for (const day of await listDays(symbol)) {
+    if (day < fromDay || day > toDay) continue
+    const { snapshots, compacted } = await readDay(symbol, day)
+    snapshots.forEach(snapshot => {
+      const time = new Date(snapshot.timestamp).getTime()
+      if ((from && time < from.getTime()) || (to && time > to.getTime())) return
+      summaries.push({
+        symbol,
+        timestamp: snapshot.timestamp,
+        spot: snapshot.spot,
+        expirations: snapshot.expirations.length,
+        contracts: snapshot.expirations.reduce((total, expiration) =>
+          total + expiration.calls.length + expiration.puts.length, 0),
+        compacted
+      })
+    })
+  }
+  return summaries
+}
+
+// Latest snapshot at or before `at`
+export async function getSnapshotAt(symbol: string, at: Date): Promise<ChainSnapshot | null> {
+  const atDay = sessionDate(at)
+  const days = (await listDays(symbol)).filter(day => day <= atDay).reverse()
+
+  for (const day of days) {
+    const { snapshots } = await readDay(symbol, day)
+    const match = snapshots.filter(snapshot => new Date(snapshot.timestamp).getTime() <= at.getTime()).pop()
+    if (match) return match
+  }
+  return null
+}
+
+// Fold full-resolution days older than the retention window into one file per day,
+// keeping the first snapshot in each compaction interval
+export async function compactSnapshots(symbol: string, now: Date = new Date()): Promise<number> {
+  const { afterDays, intervalMinutes } = getCompactionSettings()
+  const cutoff = addDays(sessionDate(now), -afterDays)
+  const dir = symbolDir(symbol)
+  let compactedDays = 0
+
+  for (const day of await listDays(symbol)) {
+    if (day >= cutoff) continue
+    const files = (await readDir(path.join(dir, day))).filter(file => file.endsWith('.json'))
+    if (files.length === 0) continue
+
+    const { snapshots } = await readDay(symbol, day)
+    const existing = await fs.readFile(path.join(dir, `${day}.json`), 'utf8')
+      .then(contents => (JSON.parse(contents) as CompactedDay).snapshots)
+      .catch(() => [] as ChainSnapshot[])
+
+    const buckets: Record<number, ChainSnapshot> = {}
+    existing.concat(snapshots)
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+      .forEach(snapshot => {
+        const bucket = Math.floor(new Date(snapshot.timestamp).getTime() / (intervalMinutes * 60 * 1000))
+        if (!buckets[bucket]) buckets[bucket] = snapshot
+      })
+    const kept = Object.keys(buckets).map(Number).sort((a, b) => a - b).map(bucket => buckets[bucket])
+
+    await writeJson(path.join(dir, `${day}.json`), { symbol, date: day, snapshots: kept })
+    await Promise.all(files.map(file => fs.unlink(path.join(dir, day, file))))
+    await fs.rmdir(path.join(dir, day)).catch(() => undefined)
+    compactedDays++
+  }
+  return compactedDays
+}
+
+// Thrown for malformed chain CSV imports; `line` is 1-based
+export class SnapshotCsvError extends Error {
+  line: number
+
+  constructor(message: string, line: number) {
+    super(`line ${line}: ${message}`)
+    this.name = 'SnapshotCsvError'
+    this.line = line
+    // Keep instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, SnapshotCsvError.prototype)
+  }
+}
+
+const CSV_REQUIRED_COLUMNS = ['timestamp', 'spot', 'expiration', 'type', 'strike', 'bid', 'ask', 'iv']
+
+// Build snapshots from a historical chain CSV with one row per contract per timestamp.
+// Columns (header required, any order): timestamp, spot, expiration (YYYY-MM-DD), type (call/put),
+// strike, bid, ask, iv, and optionally last, open_interest, volume.
+export function snapshotsFromCsv(csv: string, symbol: string): ChainSnapshot[] {
+  const lines = csv.split(/\r?\n/)
+  const header = lines[0].split(',').map(column => column.trim().toLowerCase())
+  const missing = CSV_REQUIRED_COLUMNS.filter(column => header.indexOf(column) === -1)
+  if (missing.length > 0) {
+    throw new SnapshotCsvError(`missing columns ${missing.join(', ')}`, 1)
+  }
+
+  const snapshots: Record<string, ChainSnapshot> = {}
+
+  lines.slice(1).forEach((line, index) => {
+    if (line.trim() === '') return
+    const lineNumber = index + 2
+    const cells = line.split(',').map(cell => cell.trim())
+    const cell = (column: string) => header.indexOf(column) === -1 ? '' : cells[header.indexOf(column)] || ''
+    const number = (column: string, required: boolean = true) => {
+      const raw = cell(column)
+      if (raw === '' && !required) return 0
+      const value = Number(raw)
+      if (raw === '' || !isFinite(value)) {
+        throw new SnapshotCsvError(`${column} must be a number, got "${raw}"`, lineNumber)
+      }
+      return value
+    }
+
+    const time = new Date(cell('timestamp'))
+    if (isNaN(time.getTime())) {
+      throw new SnapshotCsvError(`timestamp must be an ISO date or timestamp, got "${cell('timestamp')}"`, lineNumber)
+    }
+    const expiration = new Date(`${cell('expiration')}T00:00:00Z`)
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(cell('expiration')) || isNaN(expiration.getTime())) {
+      throw new SnapshotCsvError(`expiration must be YYYY-MM-DD, got "${cell('expiration')}"`, lineNumber)
+    }
+    const type = cell('type').toLowerCase()
+    if (type !== 'call' && type !== 'put') {
+      throw new SnapshotCsvError(`type must be call or put, got "${cell('type')}"`, lineNumber)
+    }
+
+    const timestamp = time.toISOString()
+    if (!snapshots[timestamp]) {
+      snapshots[timestamp] = { symbol, timestamp, spot: number('spot'), source: 'csv', expirations: [] }
+    }
+    const snapshot = snapshots[timestamp]
+    const expirationDate = Math.floor(expiration.getTime() / 1000)
+    let chain = snapshot.expirations.find(candidate => candidate.expirationDate === expirationDate)
+    if (!chain) {
+      chain = { expirationDate, calls: [], puts: [] }
+      snapshot.expirations.push(chain)
+    }
+
+    const bid = number('bid')
+    const ask = number('ask')
+    const contracts = type === 'call' ? chain.calls : chain.puts
+    contracts.push({
+      strike: number('strike'),
+      bid,
+      ask,
+      last: number('last', false) || (bid + ask) / 2,
+      iv: number('iv'),
+      openInterest: number('open_interest', false),
+      volume: number('volume', false)
+    })
+  })
+
+  return Object.keys(snapshots).sort().map(timestamp => {
+    const snapshot = snapshots[timestamp]
+    snapshot.expirations.sort((a, b) => a.expirationDate - b.expirationDate)
+    snapshot.expirations.forEach(chain => {
+      chain.calls.sort((a, b) => a.strike - b.strike)
+      chain.puts.sort((a, b) => a.strike - b.strike)
+    })
+    return snapshot
+  })
+}
@@ -0,0 +1,11 @@
+import type { VerticalSpreadRecommendation } from '@/lib/types'
+import type { Strategy } from '@/lib/strategies/types'
+import { verticalCandidates } from '@/lib/strategies/verticals'
+
+// Bear call credit spread: sell an OTM call, buy a higher call
+export const bearCall: Strategy<VerticalSpreadRecommendation> = {
+  id: 'bear_call',
+  side: 'call',
+  buildCandidates: context => verticalCandidates(context, 'bear_call'),
+  filters: ['minCredit', 'minRiskReward', 'minPoP']
+}
@@ -0,0 +1,11 @@
+import type { VerticalSpreadRecommendation } from '@/lib/types'
+import type { Strategy } from '@/lib/strategies/types'
+import { verticalCandidates } from '@/lib/strategies/verticals'
+
+// Bull put credit spread: sell an OTM put, buy a lower put
+export const bullPut: Strategy<VerticalSpreadRecommendation> = {
+  id: 'bull_put',
+  side: 'put',
+  buildCandidates: context => verticalCandidates(context, 'bull_put'),
+  filters: ['minCredit', 'minRiskReward', 'minPoP']
+}
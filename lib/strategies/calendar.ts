@@ -0,0 +1,146 @@
+import { positionLiquidity } from '@/lib/liquidity'
+import { blackScholes } from '@/lib/pricing'
+import { payoffStatistics } from '@/lib/probability'
+import type { CalendarRecommendation, OptionChain } from '@/lib/types'
+import {
+  buildLeg,
+  formatExpiration,
+  getDaysToExpiration,
+  getExpirationTiming,
+  legsNetCredit,
+  legsNetGreeks,
+  legsNetPrices
+} from '@/lib/strategies/common'
+import type { Strategy } from '@/lib/strategies/types'
+
+// Back month must expire this many days after the front month
+const MIN_EXPIRATION_GAP_DAYS = 7
+const MAX_EXPIRATION_GAP_DAYS = 35
+// Strikes within this fraction of spot, calls at or above spot and puts below
+const STRIKE_RANGE = 0.05
+// Price grid used to locate the peak and breakevens at front expiration
+const PAYOFF_GRID_POINTS = 200
+
+// Sell the front-month option and buy the back month at the same strike
+export const calendar: Strategy<CalendarRecommendation> = {
+  id: 'calendar',
+  side: 'either',
+  lookaheadDays: MAX_EXPIRATION_GAP_DAYS,
+  buildCandidates: context => {
+    const { currentPrice, riskFreeRate, params, now } = context
+    const calendars: CalendarRecommendation[] = []
+    let unpriceable = 0
+    const optionTypes: ('call' | 'put')[] = params.side === 'both' ? ['call', 'put'] : [params.side]
+
+    context.chains.forEach(front => {
+      const frontTiming = getExpirationTiming(front.expirationDate, now)
+      const frontDTE = frontTiming.daysToExpiration
+
+      // Nearest back month inside the allowed gap
+      const back = context.allChains
+        .filter(chain => {
+          const gap = getDaysToExpiration(chain.expirationDate, now) - frontDTE
+          return gap >= MIN_EXPIRATION_GAP_DAYS && gap <= MAX_EXPIRATION_GAP_DAYS
+        })
+        .sort((a, b) => a.expirationDate - b.expirationDate)[0] as OptionChain | undefined
+      if (!back) return
+
+      const backTiming = getExpirationTiming(back.expirationDate, now)
+      const remainingYears = backTiming.timeToExpiry - frontTiming.timeToExpiry
+
+      optionTypes.forEach(type => {
+        const frontContracts = (type === 'call' ? front.calls : front.puts).filter(contract =>
+          type === 'call'
+            ? contract.strike >= currentPrice && contract.strike <= currentPrice * (1 + STRIKE_RANGE)
+            : contract.strike < currentPrice && contract.strike >= currentPrice * (1 - STRIKE_RANGE)
+        )
+        const backContracts = type === 'call' ? back.calls : back.puts
+
+        frontContracts.forEach(frontContract => {
+          const backContract = backContracts.find(contract => contract.strike === frontContract.strike)
+          if (!backContract || frontContract.bid <= 0) return
+
+          const legs = [
+            buildLeg(frontContract, type, 'sell', context),
+            buildLeg(backContract, type, 'buy', context)
+          ]
+
+          const debit = -legsNetCredit(legs)
+          if (debit <= 0) {
+            unpriceable++
+            return
+          }
+
+          const strike = frontContract.strike
+          // P&L at front expiration: back month still has time value, front month is worth intrinsic
+          const payoff = (price: number) => {
+            const backValue = blackScholes({
+              type,
+              spot: price,
+              strike,
+              timeToExpiry: remainingYears,
+              volatility: backContract.impliedVolatility,
+              riskFreeRate
+            }).price
+            const frontIntrinsic = type === 'call' ? Math.max(0, price - strike) : Math.max(0, strike - price)
+            return backValue - frontIntrinsic - debit
+          }
+
+          let maxProfit = -Infinity
+          const breakevens: number[] = []
+          let previous: { price: number; value: number } | null = null
+          for (let i = 0; i <= PAYOFF_GRID_POINTS; i++) {
+            const price = strike * (0.5 + i / PAYOFF_GRID_POINTS)
+            const value = payoff(price)
+            maxProfit = Math.max(maxProfit, value)
+            if (previous && (previous.value < 0) !== (value < 0)) {
+              // Linear interpolation between grid points
+              breakevens.push(previous.price + (price - previous.price) * (-previous.value / (value - previous.value)))
+            }
+            previous = { price, value }
+          }
+          if (maxProfit <= 0) {
+            unpriceable++
+            return
+          }
+
+          const statistics = payoffStatistics(payoff, {
+            spot: currentPrice,
+            timeToExpiry: frontTiming.timeToExpiry,
+            volatility: frontContract.impliedVolatility,
+            riskFreeRate
+          }, maxProfit, debit)
+
+          calendars.push({
+            strategy: 'calendar',
+            legs,
+            expiration: formatExpiration(front.expirationDate),
+            daysToExpiration: frontDTE,
+            tradingDaysToExpiration: frontTiming.tradingDaysToExpiration,
+            timeToExpiry: frontTiming.timeToExpiry,
+            netCredit: -debit,
+            maxProfit,
+            maxLoss: debit,
+            breakevens,
+            ...statistics,
+            riskRewardRatio: maxProfit / debit,
+            pricing: context.pricing,
+            netPrices: legsNetPrices(legs, context.slippage),
+            netGreeks: legsNetGreeks(legs),
+            liquidityScore: positionLiquidity(legs),
+            strikePlacement: null,
+            events: [],
+            score: null,
+            optionType: type,
+            strike,
+            backExpiration: formatExpiration(back.expirationDate),
+            backDaysToExpiration: backTiming.daysToExpiration
+          })
+        })
+      })
+    })
+
+    return { candidates: calendars, dropped: { unpriceable } }
+  },
+  filters: ['minRiskReward', 'minPoP']
+}
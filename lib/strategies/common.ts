@@ -0,0 +1,111 @@
+import { legLiquidity } from '@/lib/liquidity'
+import { calendarDaysToExpiration, tradingDaysToExpiration, yearsToExpiration } from '@/lib/marketCalendar'
+import { blackScholes, netGreeks, type Greeks } from '@/lib/pricing'
+import type { PricingMode, SortKey } from '@/lib/screener'
+import type { NetPrices, OptionContract, OptionLeg, StrategyRecommendation } from '@/lib/types'
+import type { PricingContext } from '@/lib/strategies/types'
+
+// Calendar days from today (New York) to expiration; -1 once expiration day's close has passed
+export function getDaysToExpiration(expirationTimestamp: number, now: Date = new Date()): number {
+  return calendarDaysToExpiration(formatExpiration(expirationTimestamp), now)
+}
+
+export function formatExpiration(expirationTimestamp: number): string {
+  return new Date(expirationTimestamp * 1000).toISOString().split('T')[0]
+}
+
+export interface ExpirationTiming {
+  daysToExpiration: number // calendar days
+  tradingDaysToExpiration: number
+  timeToExpiry: number // years to the 4:00 PM ET close on expiration day
+}
+
+// Both day counts for display and filtering, plus the precise time Black-Scholes and the probabilities use
+export function getExpirationTiming(expirationTimestamp: number, now: Date = new Date()): ExpirationTiming {
+  const expiration = formatExpiration(expirationTimestamp)
+  return {
+    daysToExpiration: calendarDaysToExpiration(expiration, now),
+    tradingDaysToExpiration: tradingDaysToExpiration(expiration, now),
+    timeToExpiry: yearsToExpiration(expiration, now)
+  }
+}
+
+// Per-share price a leg is assumed to fill at. Natural sells at the bid and buys at the ask;
+// 'fill' starts from mid and concedes `slippage` of the bid/ask width.
+export function fillPrice(
+  quote: { bid: number; ask: number },
+  action: 'buy' | 'sell',
+  pricing: PricingMode,
+  slippage: number
+): number {
+  if (pricing === 'natural') return action === 'sell' ? quote.bid : quote.ask
+
+  const mid = (quote.bid + quote.ask) / 2
+  if (pricing === 'mid') return mid
+
+  const concession = slippage * (quote.ask - quote.bid)
+  return action === 'sell' ? mid - concession : mid + concession
+}
+
+// Price a single contract as a position leg at the context's pricing mode
+export function buildLeg(
+  contract: OptionContract,
+  type: 'call' | 'put',
+  action: 'buy' | 'sell',
+  context: PricingContext
+): OptionLeg {
+  const { daysToExpiration, timeToExpiry } = getExpirationTiming(contract.expiration, context.now)
+
+  return {
+    type,
+    action,
+    quantity: 1,
+    strike: contract.strike,
+    expiration: formatExpiration(contract.expiration),
+    daysToExpiration,
+    price: fillPrice(contract, action, context.pricing, context.slippage),
+    bid: contract.bid,
+    ask: contract.ask,
+    impliedVolatility: contract.impliedVolatility,
+    greeks: blackScholes({
+      type,
+      spot: context.currentPrice,
+      strike: contract.strike,
+      timeToExpiry,
+      volatility: contract.impliedVolatility,
+      riskFreeRate: context.riskFreeRate
+    }),
+    liquidity: legLiquidity(contract)
+  }
+}
+
+// Net credit per share for legs at their assigned prices; negative for a debit
+export function legsNetCredit(legs: OptionLeg[]): number {
+  return legs.reduce((total, leg) => total + (leg.action === 'sell' ? leg.price : -leg.price) * leg.quantity, 0)
+}
+
+// Net credit at every pricing mode, from each leg's quote
+export function legsNetPrices(legs: OptionLeg[], slippage: number): NetPrices {
+  const at = (pricing: PricingMode) => legs.reduce((total, leg) => {
+    const price = fillPrice(leg, leg.action, pricing, slippage)
+    return total + (leg.action === 'sell' ? price : -price) * leg.quantity
+  }, 0)
+
+  return { natural: at('natural'), mid: at('mid'), fill: at('fill') }
+}
+
+// Net Greeks for the position as held (sold legs count negative)
+export function legsNetGreeks(legs: OptionLeg[]): Greeks {
+  return netGreeks(legs.map(leg => ({
+    greeks: leg.greeks,
+    quantity: leg.action === 'sell' ? -leg.quantity : leg.quantity
+  })))
+}
+
+export const SORT_COMPARATORS: Record<SortKey, (a: StrategyRecommendation, b: StrategyRecommendation) => number> = {
+  score: (a, b) => (b.score?.total ?? 0) - (a.score?.total ?? 0),
+  riskReward: (a, b) => b.riskRewardRatio - a.riskRewardRatio,
+  probOfProfit: (a, b) => b.probOfProfit - a.probOfProfit,
+  credit: (a, b) => b.netCredit - a.netCredit,
+  expectedValue: (a, b) => b.expectedValue - a.expectedValue
+}
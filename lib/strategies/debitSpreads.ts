@@ -0,0 +1,23 @@
+import type { VerticalSpreadRecommendation } from '@/lib/types'
+import type { FilterId } from '@/lib/strategies/filters'
+import type { Strategy } from '@/lib/strategies/types'
+import { verticalCandidates } from '@/lib/strategies/verticals'
+
+// Debit spreads pay premium up front, so the credit minimum doesn't apply
+const DEBIT_FILTERS: FilterId[] = ['minRiskReward', 'minPoP']
+
+// Bull call debit spread: buy a near-the-money call, sell a higher call
+export const bullCallDebit: Strategy<VerticalSpreadRecommendation> = {
+  id: 'bull_call_debit',
+  side: 'call',
+  buildCandidates: context => verticalCandidates(context, 'bull_call_debit'),
+  filters: DEBIT_FILTERS
+}
+
+// Bear put debit spread: buy a near-the-money put, sell a lower put
+export const bearPutDebit: Strategy<VerticalSpreadRecommendation> = {
+  id: 'bear_put_debit',
+  side: 'put',
+  buildCandidates: context => verticalCandidates(context, 'bear_put_debit'),
+  filters: DEBIT_FILTERS
+}
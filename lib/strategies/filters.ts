@@ -0,0 +1,158 @@
+import type { ScreenerParams } from '@/lib/screener'
+import type { StrategyId, StrategyRecommendation } from '@/lib/types'
+
+// Screener filters applied to built candidates. Each check returns why a candidate fails, or null when it passes,
+// so runs can report how many candidates every filter cut and why near-misses were rejected.
+
+export type FilterId =
+  | 'liquidity'
+  | 'expectedMove'
+  | 'earnings'
+  | 'minCredit'
+  | 'minRiskReward'
+  | 'minPoP'
+
+export interface CandidateFilter {
+  id: FilterId
+  check: (rec: StrategyRecommendation, params: ScreenerParams) => string | null
+}
+
+export const FILTER_LABELS: Record<FilterId, string> = {
+  liquidity: 'Liquidity',
+  expectedMove: 'Expected Move',
+  earnings: 'Spans Earnings',
+  minCredit: 'Min Credit',
+  minRiskReward: 'Min R:R',
+  minPoP: 'Min PoP'
+}
+
+// Candidates a builder drops before the filters run: a wider credit spread whose long leg costs no less than
+// a narrower one's (no more credit, strictly more risk), or quotes that give no positive profit and loss range
+export type DropStage = 'pruned' | 'unpriceable'
+
+export const DROP_LABELS: Record<DropStage, string> = {
+  pruned: 'Dominated',
+  unpriceable: 'Unpriceable'
+}
+
+// Liquidity minimums: the position score plus per-leg open interest, volume and market width
+const liquidity: CandidateFilter = {
+  id: 'liquidity',
+  check: (rec, params) => {
+    if (rec.liquidityScore < params.minLiquidity) {
+      return `liquidity score ${Math.round(rec.liquidityScore)} is below ${params.minLiquidity}`
+    }
+    for (const leg of rec.legs) {
+      const name = `$${leg.strike} ${leg.type}`
+      if (leg.liquidity.openInterest < params.minOpenInterest) {
+        return `${name} open interest ${leg.liquidity.openInterest} is below ${params.minOpenInterest}`
+      }
+      if (leg.liquidity.volume < params.minVolume) {
+        return `${name} volume ${leg.liquidity.volume} is below ${params.minVolume}`
+      }
+      if (leg.liquidity.bidAskPct > params.maxBidAskPct) {
+        return `${name} bid/ask is ${leg.liquidity.bidAskPct.toFixed(0)}% of mid, above ${params.maxBidAskPct}%`
+      }
+    }
+    return null
+  }
+}
+
+const expectedMove: CandidateFilter = {
+  id: 'expectedMove',
+  check: (rec, params) => {
+    if (params.minExpectedMoves === 0) return null
+    if (rec.strikePlacement === null) return 'no expected move for this expiration'
+    return rec.strikePlacement.expectedMoves < params.minExpectedMoves
+      ? `short strike is ${rec.strikePlacement.expectedMoves.toFixed(2)}x the expected move, inside ${params.minExpectedMoves}x`
+      : null
+  }
+}
+
+const earnings: CandidateFilter = {
+  id: 'earnings',
+  check: (rec, params) => {
+    if (params.earnings !== 'exclude') return null
+    const report = rec.events.find(event => event.kind === 'earnings')
+    return report ? `spans earnings on ${report.date}` : null
+  }
+}
+
+const minCredit: CandidateFilter = {
+  id: 'minCredit',
+  check: (rec, params) => rec.netCredit < params.minCredit
+    ? `credit $${rec.netCredit.toFixed(2)} is below $${params.minCredit.toFixed(2)}`
+    : null
+}
+
+const minRiskReward: CandidateFilter = {
+  id: 'minRiskReward',
+  check: (rec, params) => rec.riskRewardRatio < params.minRiskReward
+    ? `risk/reward ${rec.riskRewardRatio.toFixed(2)} is below ${params.minRiskReward}`
+    : null
+}
+
+const minPoP: CandidateFilter = {
+  id: 'minPoP',
+  check: (rec, params) => rec.probOfProfit < params.minPoP
+    ? `PoP ${rec.probOfProfit.toFixed(1)}% is below ${params.minPoP}%`
+    : null
+}
+
+export const CANDIDATE_FILTERS: Record<FilterId, CandidateFilter> = {
+  liquidity,
+  expectedMove,
+  earnings,
+  minCredit,
+  minRiskReward,
+  minPoP
+}
+
+// Filters every strategy shares, applied before its own
+export const POSITION_FILTERS: FilterId[] = ['liquidity', 'expectedMove', 'earnings']
+
+// Reasons for every filter a candidate fails, in the order given
+export function filterFailures(
+  rec: StrategyRecommendation,
+  params: ScreenerParams,
+  filters: FilterId[]
+): { filter: FilterId; reason: string }[] {
+  const failures: { filter: FilterId; reason: string }[] = []
+  filters.forEach(filter => {
+    const reason = CANDIDATE_FILTERS[filter].check(rec, params)
+    if (reason !== null) failures.push({ filter, reason })
+  })
+  return failures
+}
+
+// How one strategy's candidates fared in a screener run
+export interface StrategyFunnel {
+  strategy: StrategyId
+  skipped: string | null // why the strategy didn't run, e.g. the side filter
+  dropped: Partial<Record<DropStage, number>> // by the builder, before any filter
+  built: number
+  rejected: Partial<Record<FilterId, number>> // by the first filter each candidate failed
+  passed: number
+  returned: number // after the per-strategy limit
+}
+
+// A rejected candidate that failed exactly one filter
+export interface NearMiss {
+  strategy: StrategyId
+  expiration: string
+  legs: string // e.g. "Sell $260 call / Buy $265 call"
+  netCredit: number
+  probOfProfit: number
+  riskRewardRatio: number
+  filter: FilterId
+  reason: string
+}
+
+export interface FilterFunnel {
+  expirations: { listed: number; inWindow: number } // before and after the DTE window
+  strategies: StrategyFunnel[]
+  nearMisses: NearMiss[] // best-scoring near-misses, up to NEAR_MISS_SAMPLE
+  blockedBy: string | null // a gate that withheld every result, e.g. the IV rank minimum
+}
+
+export const NEAR_MISS_SAMPLE = 5
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_SCREENER_PARAMS, type ScreenerParams } from '@/lib/screener'
+import { runStrategies } from '@/lib/strategies'
+import type { StrategyFunnel } from '@/lib/strategies/filters'
+import { modelQuote } from '@/lib/testing/quotes'
+import type { OptionChain, OptionContract } from '@/lib/types'
+
+const NOW = new Date('2025-01-10T15:00:00Z') // a week before expiration
+const EXPIRATION = Date.UTC(2025, 0, 17) / 1000
+const SPOT = 400
+const IV = 0.5
+const STRIKES = [380, 385, 390, 395, 400, 405, 410, 415, 420]
+
+const params: ScreenerParams = {
+  ...DEFAULT_SCREENER_PARAMS,
+  minDTE: 0,
+  maxDTE: 10,
+  minCredit: 0,
+  minRiskReward: 0,
+  minPoP: 60,
+  minLiquidity: 0,
+  maxWidth: 20,
+  limit: 100,
+  strategies: ['bear_call', 'bull_put', 'iron_condor']
+}
+
+function contract(type: 'call' | 'put', strike: number): OptionContract {
+  const { bid, ask, mid } = modelQuote({ type, spot: SPOT, strike, timeToExpiry: 7 / 365, volatility: IV })
+  return {
+    contractSymbol: `TSLA-${type}-${strike}`,
+    strike,
+    expiration: EXPIRATION,
+    bid,
+    ask,
+    lastPrice: mid,
+    volume: 500,
+    openInterest: 1000,
+    impliedVolatility: IV,
+    inTheMoney: type === 'call' ? strike < SPOT : strike > SPOT
+  }
+}
+
+// A stale $415 call quoted far below its neighbours. Each of the three spreads that would buy the $420 call
+// past it is dominated; selling the $410 against it collects more than the width, and selling it against
+// the $420 collects nothing
+const chain: OptionChain = {
+  expirationDate: EXPIRATION,
+  calls: STRIKES.map(strike => strike === 415 ? { ...contract('call', strike), bid: 0.01, ask: 0.02 } : contract('call', strike)),
+  puts: STRIKES.map(strike => contract('put', strike))
+}
+
+function run() {
+  return runStrategies({ chains: [chain], currentPrice: SPOT, riskFreeRate: 0.045, params, now: NOW })
+}
+
+function stage(funnel: StrategyFunnel[], strategy: string): StrategyFunnel {
+  return funnel.find(entry => entry.strategy === strategy) as StrategyFunnel
+}
+
+// Credit spreads the builder considers: an OTM short strike paired with each further strike within maxWidth
+function creditPairs(type: 'call' | 'put'): number {
+  const outOfTheMoney = STRIKES.filter(strike => type === 'call' ? strike >= SPOT : strike <= SPOT)
+  let pairs = 0
+  outOfTheMoney.forEach(inner => {
+    pairs += STRIKES.filter(outer => {
+      const width = type === 'call' ? outer - inner : inner - outer
+      return width > 0 && width <= params.maxWidth
+    }).length
+  })
+  return pairs
+}
+
+function sum(counts: Partial<Record<string, number>>): number {
+  return Object.keys(counts).reduce((total, key) => total + (counts[key] || 0), 0)
+}
+
+describe('runStrategies funnel', () => {
+  it('counts dominated and unpriceable spreads as their own stages', () => {
+    const bearCall = stage(run().funnel.strategies, 'bear_call')
+
+    expect(bearCall.dropped).toEqual({ pruned: 3, unpriceable: 2 })
+    expect(bearCall.built + sum(bearCall.dropped)).toBe(creditPairs('call'))
+  })
+
+  it('omits stages nothing was dropped at', () => {
+    const bullPut = stage(run().funnel.strategies, 'bull_put')
+
+    expect(bullPut.dropped).toEqual({})
+    expect(bullPut.built).toBe(creditPairs('put'))
+  })
+
+  it('adds up from built to passed for every strategy', () => {
+    const { recommendations, funnel } = run()
+
+    funnel.strategies.forEach(entry => {
+      expect(entry.skipped).toBeNull()
+      expect(entry.passed + sum(entry.rejected)).toBe(entry.built)
+      expect(entry.returned).toBe(recommendations.filter(rec => rec.strategy === entry.strategy).length)
+    })
+    expect(sum(stage(funnel.strategies, 'bear_call').rejected)).toBeGreaterThan(0)
+  })
+
+  it('scores every recommendation', () => {
+    run().recommendations.forEach(rec => {
+      expect(rec.score).not.toBeNull()
+    })
+  })
+})
@@ -0,0 +1,205 @@
+import { eventsThrough, type MarketEvent } from '@/lib/eventCalendar'
+import { getExpectedMoves, strikePlacement } from '@/lib/expectedMove'
+import { scoreRecommendation } from '@/lib/ranking'
+import type { ScreenerParams } from '@/lib/screener'
+import type {
+  OptionChain,
+  RecommendationFor,
+  StrategyId,
+  StrategyRecommendation,
+  VerticalSpreadRecommendation
+} from '@/lib/types'
+import { SORT_COMPARATORS, getDaysToExpiration } from '@/lib/strategies/common'
+import {
+  NEAR_MISS_SAMPLE,
+  POSITION_FILTERS,
+  filterFailures,
+  type DropStage,
+  type FilterFunnel,
+  type NearMiss,
+  type StrategyFunnel
+} from '@/lib/strategies/filters'
+import { buildVerticals, isVerticalStrategy } from '@/lib/strategies/verticals'
+import { bearCall } from '@/lib/strategies/bearCall'
+import { bullPut } from '@/lib/strategies/bullPut'
+import { ironCondor } from '@/lib/strategies/ironCondor'
+import { bullCallDebit, bearPutDebit } from '@/lib/strategies/debitSpreads'
+import { shortStrangle } from '@/lib/strategies/shortStrangle'
+import { calendar } from '@/lib/strategies/calendar'
+import type { CandidateSet, Strategy, StrategyContext } from '@/lib/strategies/types'
+
+// Each entry is checked against the recommendation type its id builds
+type StrategyRegistry = { [K in StrategyId]: Strategy<RecommendationFor<K>> }
+
+// Every screener strategy, keyed by the id used in the `strategies` query parameter
+export const STRATEGY_REGISTRY: StrategyRegistry = {
+  bear_call: bearCall,
+  bull_put: bullPut,
+  iron_condor: ironCondor,
+  bull_call_debit: bullCallDebit,
+  bear_put_debit: bearPutDebit,
+  short_strangle: shortStrangle,
+  calendar
+}
+
+interface RunStrategiesInput {
+  chains: OptionChain[] // every fetched expiration
+  listedExpirations?: number // expirations listed before the DTE window, for the funnel; defaults to chains.length
+  currentPrice: number
+  riskFreeRate: number
+  params: ScreenerParams
+  events?: MarketEvent[] // high-impact events to flag on positions spanning them
+  now?: Date // valuation time, e.g. a snapshot's for backtests; defaults to the current time
+}
+
+function isEligible(strategy: Strategy, params: ScreenerParams): boolean {
+  return params.side === 'both' || strategy.side === params.side || strategy.side === 'either'
+}
+
+// Days past maxDTE that must be fetched for the selected strategies
+export function getLookaheadDays(params: ScreenerParams): number {
+  return params.strategies.reduce((days, id) => Math.max(days, STRATEGY_REGISTRY[id].lookaheadDays || 0), 0)
+}
+
+export interface StrategiesRun {
+  recommendations: StrategyRecommendation[]
+  funnel: FilterFunnel
+}
+
+function describeLegs(rec: StrategyRecommendation): string {
+  return rec.legs
+    .map(leg => `${leg.action === 'sell' ? 'Sell' : 'Buy'} $${leg.strike} ${leg.type}${leg.expiration !== rec.expiration ? ` ${leg.expiration}` : ''}`)
+    .join(' / ')
+}
+
+// Run each selected strategy, apply its filters and keep the top `limit` of each.
+// The funnel records how many candidates each builder dropped and each filter cut, with a sample of near-misses.
+export function runStrategies({
+  chains,
+  listedExpirations,
+  currentPrice,
+  riskFreeRate,
+  params,
+  events = [],
+  now = new Date()
+}: RunStrategiesInput): StrategiesRun {
+  const verticalCache: Record<string, CandidateSet<VerticalSpreadRecommendation>> = {}
+
+  // Measure short strikes against their expiration's expected move, list events up to the last leg's expiration,
+  // then score the position on both
+  const expectedMoves = getExpectedMoves(chains, currentPrice, now)
+  const annotate = <R extends StrategyRecommendation>(rec: R): R => {
+    const annotated = {
+      ...rec,
+      strikePlacement: strikePlacement(rec, expectedMoves.find(move => move.expiration === rec.expiration), currentPrice),
+      events: eventsThrough(events, rec.legs.reduce((last, leg) => leg.expiration > last ? leg.expiration : last, rec.expiration), now)
+    }
+    return { ...annotated, score: scoreRecommendation(annotated, params.weights) }
+  }
+  const spansEarnings = (rec: StrategyRecommendation) => rec.events.some(event => event.kind === 'earnings')
+  const passesPositionFilters = (rec: StrategyRecommendation) => filterFailures(rec, params, POSITION_FILTERS).length === 0
+
+  const context: StrategyContext = {
+    chains: chains.filter(chain => {
+      const dte = getDaysToExpiration(chain.expirationDate, now)
+      return dte >= params.minDTE && dte <= params.maxDTE
+    }),
+    allChains: chains,
+    currentPrice,
+    riskFreeRate,
+    pricing: params.pricing,
+    slippage: params.slippage,
+    now,
+    params,
+    verticals: (chain, id) => {
+      const key = `${chain.expirationDate}:${id}`
+      if (!verticalCache[key]) {
+        const { candidates, dropped } = buildVerticals(chain, id, context)
+        verticalCache[key] = { candidates: candidates.map(annotate), dropped }
+      }
+      return verticalCache[key]
+    },
+    passesPositionFilters
+  }
+
+  // Penalized earnings-spanning positions rank after every other candidate
+  const compare = params.earnings === 'penalize'
+    ? (a: StrategyRecommendation, b: StrategyRecommendation) =>
+      Number(spansEarnings(a)) - Number(spansEarnings(b)) || SORT_COMPARATORS[params.sort](a, b)
+    : SORT_COMPARATORS[params.sort]
+  const recommendations: StrategyRecommendation[] = []
+  const strategyFunnels: StrategyFunnel[] = []
+  const nearMisses: (NearMiss & { score: number })[] = []
+
+  params.strategies.forEach(id => {
+    const strategy = STRATEGY_REGISTRY[id]
+    if (!isEligible(strategy, params)) {
+      strategyFunnels.push({
+        strategy: id,
+        skipped: strategy.side === 'both' ? 'needs both calls and puts' : `uses ${strategy.side}s only`,
+        dropped: {},
+        built: 0,
+        rejected: {},
+        passed: 0,
+        returned: 0
+      })
+      return
+    }
+
+    const funnel: StrategyFunnel = { strategy: id, skipped: null, dropped: {}, built: 0, rejected: {}, passed: 0, returned: 0 }
+    const passed: StrategyRecommendation[] = []
+    const filters = POSITION_FILTERS.concat(strategy.filters)
+
+    const { candidates, dropped } = strategy.buildCandidates(context)
+    for (const stage of Object.keys(dropped) as DropStage[]) {
+      if (dropped[stage]) funnel.dropped[stage] = dropped[stage]
+    }
+
+    // Verticals come from the shared cache, which annotated them already
+    const annotated: StrategyRecommendation[] = isVerticalStrategy(id) ? candidates : candidates.map(annotate)
+    annotated.forEach(rec => {
+      funnel.built++
+      const failures = filterFailures(rec, params, filters)
+      if (failures.length === 0) {
+        passed.push(rec)
+        return
+      }
+
+      // Each rejection counts against the first filter it failed, so the stages add up
+      const first = failures[0].filter
+      funnel.rejected[first] = (funnel.rejected[first] || 0) + 1
+      if (failures.length === 1) {
+        nearMisses.push({
+          strategy: id,
+          expiration: rec.expiration,
+          legs: describeLegs(rec),
+          netCredit: rec.netCredit,
+          probOfProfit: rec.probOfProfit,
+          riskRewardRatio: rec.riskRewardRatio,
+          filter: first,
+          reason: failures[0].reason,
+          score: rec.score ? rec.score.total : 0
+        })
+      }
+    })
+
+    const returned = passed.sort(compare).slice(0, params.limit)
+    funnel.passed = passed.length
+    funnel.returned = returned.length
+    strategyFunnels.push(funnel)
+    recommendations.push(...returned)
+  })
+
+  return {
+    recommendations,
+    funnel: {
+      expirations: { listed: listedExpirations ?? chains.length, inWindow: context.chains.length },
+      strategies: strategyFunnels,
+      nearMisses: nearMisses
+        .sort((a, b) => b.score - a.score)
+        .slice(0, NEAR_MISS_SAMPLE)
+        .map(({ score, ...nearMiss }) => nearMiss),
+      blockedBy: null
+    }
+  }
+}
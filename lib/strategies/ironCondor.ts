@@ -0,0 +1,106 @@
+import { positionLiquidity } from '@/lib/liquidity'
+import { expectedValue, probAbove, probBelow } from '@/lib/probability'
+import type { IronCondorRecommendation, VerticalSpreadRecommendation } from '@/lib/types'
+import { SORT_COMPARATORS, legsNetGreeks } from '@/lib/strategies/common'
+import type { PricingContext, Strategy } from '@/lib/strategies/types'
+
+// Best wings per side and expiration considered when pairing iron condors
+const CONDOR_WING_CANDIDATES = 20
+
+// Combine a bear call and a bull put on the same expiration into an iron condor
+export function buildIronCondor(
+  callSpread: VerticalSpreadRecommendation,
+  putSpread: VerticalSpreadRecommendation,
+  context: PricingContext
+): IronCondorRecommendation {
+  const netCredit = callSpread.netCredit + putSpread.netCredit
+  // Price can only finish beyond one wing, so the wider wing sets the worst case
+  const maxLoss = Math.max(callSpread.width, putSpread.width) - netCredit
+  const lowerBreakeven = putSpread.shortStrike - netCredit
+  const upperBreakeven = callSpread.shortStrike + netCredit
+
+  const baseInputs = {
+    spot: context.currentPrice,
+    timeToExpiry: callSpread.timeToExpiry,
+    riskFreeRate: context.riskFreeRate
+  }
+  // Each tail is measured with its own wing's IV so put skew is respected
+  const probBelowLower = probBelow(lowerBreakeven, { ...baseInputs, volatility: putSpread.impliedVolatility })
+  const probAboveUpper = probAbove(upperBreakeven, { ...baseInputs, volatility: callSpread.impliedVolatility })
+
+  const probabilities = {
+    probOfProfit: Math.max(0, 1 - probBelowLower - probAboveUpper) * 100,
+    probMaxProfit: Math.max(0, callSpread.probMaxProfit + putSpread.probMaxProfit - 100),
+    probMaxLoss: callSpread.probMaxLoss + putSpread.probMaxLoss,
+    probTouch: Math.min(100, callSpread.probTouch + putSpread.probTouch)
+  }
+
+  const legs = [...callSpread.legs, ...putSpread.legs]
+
+  return {
+    strategy: 'iron_condor',
+    legs,
+    expiration: callSpread.expiration,
+    daysToExpiration: callSpread.daysToExpiration,
+    tradingDaysToExpiration: callSpread.tradingDaysToExpiration,
+    timeToExpiry: callSpread.timeToExpiry,
+    netCredit,
+    maxProfit: netCredit,
+    maxLoss,
+    breakevens: [lowerBreakeven, upperBreakeven],
+    probOfProfit: probabilities.probOfProfit,
+    probMaxProfit: probabilities.probMaxProfit,
+    probMaxLoss: probabilities.probMaxLoss,
+    expectedValue: expectedValue(probabilities, netCredit, maxLoss),
+    riskRewardRatio: netCredit / maxLoss,
+    pricing: context.pricing,
+    netPrices: {
+      natural: callSpread.netPrices.natural + putSpread.netPrices.natural,
+      mid: callSpread.netPrices.mid + putSpread.netPrices.mid,
+      fill: callSpread.netPrices.fill + putSpread.netPrices.fill
+    },
+    netGreeks: legsNetGreeks(legs),
+    liquidityScore: positionLiquidity(legs),
+    strikePlacement: null,
+    events: [],
+    score: null,
+    callSpread,
+    putSpread,
+    lowerBreakeven,
+    upperBreakeven
+  }
+}
+
+// Pair the strongest call and put wings of each expiration
+export const ironCondor: Strategy<IronCondorRecommendation> = {
+  id: 'iron_condor',
+  side: 'both',
+  buildCandidates: context => {
+    const condors: IronCondorRecommendation[] = []
+    let unpriceable = 0
+    const compare = SORT_COMPARATORS[context.params.sort]
+
+    context.chains.forEach(chain => {
+      // Wings must pass the position filters themselves so a condor never pairs a failing wing
+      const wings = (id: 'bear_call' | 'bull_put') => context.verticals(chain, id).candidates
+        .filter(context.passesPositionFilters)
+        .sort(compare)
+        .slice(0, CONDOR_WING_CANDIDATES)
+      const callWings = wings('bear_call')
+      const putWings = wings('bull_put')
+
+      callWings.forEach(callSpread => {
+        putWings.forEach(putSpread => {
+          if (putSpread.shortStrike >= callSpread.shortStrike) return
+
+          const condor = buildIronCondor(callSpread, putSpread, context)
+          if (condor.maxLoss !== null && condor.maxLoss > 0) condors.push(condor)
+          else unpriceable++
+        })
+      })
+    })
+
+    return { candidates: condors, dropped: { unpriceable } }
+  },
+  filters: ['minCredit', 'minRiskReward', 'minPoP']
+}
@@ -0,0 +1,85 @@
+import { positionLiquidity } from '@/lib/liquidity'
+import { payoffStatistics } from '@/lib/probability'
+import type { OptionContract, ShortStrangleRecommendation } from '@/lib/types'
+import {
+  buildLeg,
+  formatExpiration,
+  getExpirationTiming,
+  legsNetCredit,
+  legsNetGreeks,
+  legsNetPrices
+} from '@/lib/strategies/common'
+import type { StrategyContext, Strategy } from '@/lib/strategies/types'
+
+// Only sell strikes in this absolute delta band, keeping pairs to a manageable set
+const MIN_SHORT_DELTA = 0.05
+const MAX_SHORT_DELTA = 0.35
+
+// Sell an OTM call and an OTM put on the same expiration; the loss is unbounded on both sides
+export const shortStrangle: Strategy<ShortStrangleRecommendation> = {
+  id: 'short_strangle',
+  side: 'both',
+  buildCandidates: (context: StrategyContext) => {
+    const { currentPrice, riskFreeRate } = context
+    const strangles: ShortStrangleRecommendation[] = []
+
+    const inDeltaBand = (contract: OptionContract, type: 'call' | 'put') => {
+      const delta = Math.abs(buildLeg(contract, type, 'sell', context).greeks.delta)
+      return contract.bid > 0 && delta >= MIN_SHORT_DELTA && delta <= MAX_SHORT_DELTA
+    }
+
+    context.chains.forEach(chain => {
+      const calls = chain.calls.filter(call => call.strike > currentPrice && inDeltaBand(call, 'call'))
+      const puts = chain.puts.filter(put => put.strike < currentPrice && inDeltaBand(put, 'put'))
+
+      calls.forEach(call => {
+        puts.forEach(put => {
+          const legs = [
+            buildLeg(call, 'call', 'sell', context),
+            buildLeg(put, 'put', 'sell', context)
+          ]
+
+          const netCredit = legsNetCredit(legs)
+          const { daysToExpiration, tradingDaysToExpiration, timeToExpiry } = getExpirationTiming(call.expiration, context.now)
+          const payoff = (price: number) =>
+            netCredit - Math.max(0, price - call.strike) - Math.max(0, put.strike - price)
+
+          const statistics = payoffStatistics(payoff, {
+            spot: currentPrice,
+            timeToExpiry,
+            volatility: (call.impliedVolatility + put.impliedVolatility) / 2,
+            riskFreeRate
+          }, netCredit, null)
+
+          strangles.push({
+            strategy: 'short_strangle',
+            legs,
+            expiration: formatExpiration(call.expiration),
+            daysToExpiration,
+            tradingDaysToExpiration,
+            timeToExpiry,
+            netCredit,
+            maxProfit: netCredit,
+            maxLoss: null,
+            breakevens: [put.strike - netCredit, call.strike + netCredit],
+            ...statistics,
+            riskRewardRatio: 0,
+            pricing: context.pricing,
+            netPrices: legsNetPrices(legs, context.slippage),
+            netGreeks: legsNetGreeks(legs),
+            liquidityScore: positionLiquidity(legs),
+            strikePlacement: null,
+            events: [],
+            score: null,
+            callStrike: call.strike,
+            putStrike: put.strike
+          })
+        })
+      })
+    })
+
+    return { candidates: strangles, dropped: {} }
+  },
+  // Risk/reward is undefined with unbounded loss, so only credit and PoP apply
+  filters: ['minCredit', 'minPoP']
+}
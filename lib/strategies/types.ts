@@ -0,0 +1,41 @@
+import type { PricingMode, ScreenerParams } from '@/lib/screener'
+import type { DropStage, FilterId } from '@/lib/strategies/filters'
+import type { OptionChain, StrategyRecommendation, VerticalSpreadRecommendation, VerticalStrategyId } from '@/lib/types'
+
+// Market inputs needed to price legs outside of a full screener run
+export interface PricingContext {
+  currentPrice: number
+  riskFreeRate: number
+  pricing: PricingMode
+  slippage: number
+  now: Date // valuation time that days and time to expiration are measured from
+}
+
+// A builder's candidates and how many it dropped on the way
+export interface CandidateSet<R extends StrategyRecommendation> {
+  candidates: R[]
+  dropped: Partial<Record<DropStage, number>>
+}
+
+export interface StrategyContext extends PricingContext {
+  chains: OptionChain[] // expirations inside the requested DTE window
+  allChains: OptionChain[] // every fetched expiration, for strategies that reach past the window
+  params: ScreenerParams
+  // Vertical candidates for a chain, built once per run and shared between strategies
+  verticals: (chain: OptionChain, id: VerticalStrategyId) => CandidateSet<VerticalSpreadRecommendation>
+  // Liquidity, expected-move and earnings filters, for strategies assembled from other candidates
+  passesPositionFilters: (recommendation: StrategyRecommendation) => boolean
+}
+
+// 'either' strategies build call and put variants separately and honour the side filter themselves
+export type StrategySide = 'call' | 'put' | 'both' | 'either'
+
+export interface Strategy<R extends StrategyRecommendation = StrategyRecommendation> {
+  id: R['strategy']
+  side: StrategySide
+  // Extra days past maxDTE whose chains must be fetched (e.g. calendar back months)
+  lookaheadDays?: number
+  buildCandidates: (context: StrategyContext) => CandidateSet<R>
+  // Strategy-specific filters, applied after the shared position filters
+  filters: FilterId[]
+}
@@ -0,0 +1,181 @@
+import { positionLiquidity } from '@/lib/liquidity'
+import { expectedValue, spreadProbabilities } from '@/lib/probability'
+import type {
+  OptionChain,
+  OptionContract,
+  StrategyId,
+  VerticalSpreadRecommendation,
+  VerticalStrategyId
+} from '@/lib/types'
+import {
+  buildLeg,
+  fillPrice,
+  formatExpiration,
+  getExpirationTiming,
+  legsNetCredit,
+  legsNetGreeks,
+  legsNetPrices
+} from '@/lib/strategies/common'
+import type { DropStage } from '@/lib/strategies/filters'
+import type { CandidateSet, PricingContext, StrategyContext } from '@/lib/strategies/types'
+
+// Shared builder for the four vertical spreads: same expiration, same option type, one short and one long leg
+
+interface VerticalConfig {
+  optionType: 'call' | 'put'
+  bias: 'bullish' | 'bearish'
+  credit: boolean
+}
+
+export const VERTICAL_CONFIGS: Record<VerticalStrategyId, VerticalConfig> = {
+  bear_call: { optionType: 'call', bias: 'bearish', credit: true },
+  bull_put: { optionType: 'put', bias: 'bullish', credit: true },
+  bull_call_debit: { optionType: 'call', bias: 'bullish', credit: false },
+  bear_put_debit: { optionType: 'put', bias: 'bearish', credit: false }
+}
+
+export function isVerticalStrategy(id: StrategyId): id is VerticalStrategyId {
+  return id in VERTICAL_CONFIGS
+}
+
+// Build one vertical from its two contracts, or null when the quotes give no positive profit and loss range
+export function buildVerticalSpread(
+  id: VerticalStrategyId,
+  shortContract: OptionContract,
+  longContract: OptionContract,
+  context: PricingContext
+): VerticalSpreadRecommendation | null {
+  const { optionType, bias, credit } = VERTICAL_CONFIGS[id]
+
+  const legs = [
+    buildLeg(shortContract, optionType, 'sell', context),
+    buildLeg(longContract, optionType, 'buy', context)
+  ]
+
+  const width = Math.abs(longContract.strike - shortContract.strike)
+  const netCredit = legsNetCredit(legs)
+  const maxProfit = credit ? netCredit : width + netCredit
+  const maxLoss = credit ? width - netCredit : -netCredit
+  if (width === 0 || maxProfit <= 0 || maxLoss <= 0) return null
+
+  // Credit spreads break even the credit past the short strike, debit spreads the debit past the long strike
+  const breakeven = credit
+    ? (bias === 'bearish' ? shortContract.strike + netCredit : shortContract.strike - netCredit)
+    : (bias === 'bullish' ? longContract.strike - netCredit : longContract.strike + netCredit)
+
+  const { daysToExpiration, tradingDaysToExpiration, timeToExpiry } = getExpirationTiming(shortContract.expiration, context.now)
+  const impliedVolatility = (shortContract.impliedVolatility + longContract.impliedVolatility) / 2
+  const probabilities = spreadProbabilities({
+    bias,
+    spot: context.currentPrice,
+    shortStrike: shortContract.strike,
+    longStrike: longContract.strike,
+    breakeven,
+    timeToExpiry,
+    volatility: impliedVolatility,
+    riskFreeRate: context.riskFreeRate
+  })
+
+  return {
+    strategy: id,
+    legs,
+    expiration: formatExpiration(shortContract.expiration),
+    daysToExpiration,
+    tradingDaysToExpiration,
+    timeToExpiry,
+    netCredit,
+    maxProfit,
+    maxLoss,
+    breakevens: [breakeven],
+    probOfProfit: probabilities.probOfProfit,
+    probMaxProfit: probabilities.probMaxProfit,
+    probMaxLoss: probabilities.probMaxLoss,
+    expectedValue: expectedValue(probabilities, maxProfit, maxLoss),
+    riskRewardRatio: maxProfit / maxLoss,
+    pricing: context.pricing,
+    netPrices: legsNetPrices(legs, context.slippage),
+    netGreeks: legsNetGreeks(legs),
+    liquidityScore: positionLiquidity(legs),
+    strikePlacement: null,
+    events: [],
+    score: null,
+    shortStrike: shortContract.strike,
+    longStrike: longContract.strike,
+    width,
+    breakeven,
+    probTouch: probabilities.probTouch,
+    impliedVolatility
+  }
+}
+
+// Pair every inner strike with each further-out strike up to maxWidth.
+// Credit spreads sell the inner (OTM) strike; debit spreads buy the inner (near-the-money) strike.
+export function buildVerticals(
+  chain: OptionChain,
+  id: VerticalStrategyId,
+  context: StrategyContext
+): CandidateSet<VerticalSpreadRecommendation> {
+  const { optionType, credit } = VERTICAL_CONFIGS[id]
+  const { currentPrice, params } = context
+  const candidates: VerticalSpreadRecommendation[] = []
+  let pruned = 0
+  let unpriceable = 0
+
+  // Order from the money outward: calls ascending, puts descending
+  const options = (optionType === 'call' ? chain.calls : chain.puts)
+    .slice()
+    .sort((a, b) => optionType === 'call' ? a.strike - b.strike : b.strike - a.strike)
+  const isOutOfTheMoney = (option: OptionContract) =>
+    !option.inTheMoney || (optionType === 'call' ? option.strike > currentPrice : option.strike < currentPrice)
+
+  for (let i = 0; i < options.length - 1; i++) {
+    const inner = options[i]
+
+    if (credit) {
+      if (!isOutOfTheMoney(inner) || inner.bid <= 0) continue
+    } else if (Math.abs(inner.strike - currentPrice) > params.maxWidth || inner.ask <= 0) {
+      continue
+    }
+
+    // Cheapest long leg seen so far; a wider credit spread that can't beat it is dominated
+    // (no more credit, strictly more risk)
+    let bestLongPrice = Infinity
+
+    for (let j = i + 1; j < options.length; j++) {
+      const outer = options[j]
+      const width = Math.abs(outer.strike - inner.strike)
+      if (width > params.maxWidth) break
+      if (width === 0 || width < params.minWidth) continue
+
+      if (credit) {
+        const longPrice = fillPrice(outer, 'buy', context.pricing, context.slippage)
+        if (longPrice >= bestLongPrice) {
+          pruned++
+          continue
+        }
+        bestLongPrice = longPrice
+      }
+
+      const spread = credit
+        ? buildVerticalSpread(id, inner, outer, context)
+        : buildVerticalSpread(id, outer, inner, context)
+      if (spread) candidates.push(spread)
+      else unpriceable++
+    }
+  }
+
+  return { candidates, dropped: { pruned, unpriceable } }
+}
+
+// One vertical strategy's candidates across the DTE window, from the run's shared verticals
+export function verticalCandidates(context: StrategyContext, id: VerticalStrategyId): CandidateSet<VerticalSpreadRecommendation> {
+  const set: CandidateSet<VerticalSpreadRecommendation> = { candidates: [], dropped: {} }
+  context.chains.forEach(chain => {
+    const { candidates, dropped } = context.verticals(chain, id)
+    set.candidates.push(...candidates)
+    for (const stage of Object.keys(dropped) as DropStage[]) {
+      set.dropped[stage] = (set.dropped[stage] || 0) + (dropped[stage] || 0)
+    }
+  })
+  return set
+}
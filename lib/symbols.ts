@@ -0,0 +1,70 @@
+// Underlyings the dashboard can switch between, shared by the API routes and components
+
+export interface SymbolProfile {
+  symbol: string
+  name: string
+  // Lowercase terms that mark news as being about this underlying
+  newsTerms: string[]
+  // Approximate quarterly earnings dates (MM-DD), used when no earnings API is configured.
+  // Empty for ETFs.
+  earningsDates: string[]
+}
+
+export const DEFAULT_SYMBOL = 'TSLA'
+
+export const SYMBOL_PROFILES: Record<string, SymbolProfile> = {
+  TSLA: {
+    symbol: 'TSLA',
+    name: 'Tesla',
+    newsTerms: ['tesla', 'elon musk'],
+    earningsDates: ['01-25', '04-24', '07-24', '10-23']
+  },
+  NVDA: {
+    symbol: 'NVDA',
+    name: 'NVIDIA',
+    newsTerms: ['nvidia', 'jensen huang'],
+    earningsDates: ['02-26', '05-28', '08-27', '11-19']
+  },
+  SPY: {
+    symbol: 'SPY',
+    name: 'S&P 500 ETF',
+    newsTerms: ['s&p 500', 'spy'],
+    earningsDates: []
+  },
+  QQQ: {
+    symbol: 'QQQ',
+    name: 'Nasdaq-100 ETF',
+    newsTerms: ['nasdaq', 'qqq'],
+    earningsDates: []
+  }
+}
+
+export const SUPPORTED_SYMBOLS = Object.keys(SYMBOL_PROFILES)
+
+// Profile for any ticker; unknown tickers get a minimal profile so every route still works
+export function getSymbolProfile(symbol: string): SymbolProfile {
+  return SYMBOL_PROFILES[symbol] || {
+    symbol,
+    name: symbol,
+    newsTerms: [symbol.toLowerCase()],
+    earningsDates: []
+  }
+}
+
+const SYMBOL_PATTERN = /^[A-Z][A-Z.\-]{0,9}$/
+
+export type SymbolParseResult =
+  | { ok: true; symbol: string }
+  | { ok: false; error: { param: 'symbol'; message: string } }
+
+// Read the `symbol` query parameter, defaulting to TSLA
+export function parseSymbol(searchParams: URLSearchParams): SymbolParseResult {
+  const raw = searchParams.get('symbol')
+  if (raw === null || raw.trim() === '') return { ok: true, symbol: DEFAULT_SYMBOL }
+
+  const symbol = raw.trim().toUpperCase()
+  if (!SYMBOL_PATTERN.test(symbol)) {
+    return { ok: false, error: { param: 'symbol', message: `must be a ticker symbol, got "${raw}"` } }
+  }
+  return { ok: true, symbol }
+}
@@ -0,0 +1,8 @@
+import { blackScholes, type PricingInputs } from '@/lib/pricing'
+
+// Shared by the strategy and backtest tests: a market quoted 3% either side of Black-Scholes value.
+// `minimum` floors the value so far out-of-the-money strikes still have a bid.
+export function modelQuote(inputs: PricingInputs, minimum: number = 0): { bid: number; ask: number; mid: number } {
+  const mid = Math.max(minimum, blackScholes(inputs).price)
+  return { bid: mid * 0.97, ask: mid * 1.03, mid }
+}
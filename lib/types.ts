@@ -0,0 +1,133 @@
+import type { MarketEvent } from '@/lib/eventCalendar'
+import type { StrikePlacement } from '@/lib/expectedMove'
+import type { LegLiquidity } from '@/lib/liquidity'
+import type { Greeks } from '@/lib/pricing'
+import type { ScoreBreakdown } from '@/lib/ranking'
+import type { PricingMode } from '@/lib/screener'
+
+// Shared shapes for options data passed between API routes and components
+
+export interface OptionContract {
+  contractSymbol: string
+  strike: number
+  expiration: number
+  bid: number
+  ask: number
+  lastPrice: number
+  volume: number
+  openInterest: number
+  impliedVolatility: number
+  inTheMoney: boolean
+}
+
+export interface OptionChain {
+  expirationDate: number
+  calls: OptionContract[]
+  puts: OptionContract[]
+}
+
+export type StrategyId =
+  | 'bear_call'
+  | 'bull_put'
+  | 'iron_condor'
+  | 'bull_call_debit'
+  | 'bear_put_debit'
+  | 'short_strangle'
+  | 'calendar'
+
+export type VerticalStrategyId = 'bear_call' | 'bull_put' | 'bull_call_debit' | 'bear_put_debit'
+
+export interface OptionLeg {
+  type: 'call' | 'put'
+  action: 'buy' | 'sell'
+  quantity: number
+  strike: number
+  expiration: string
+  daysToExpiration: number
+  price: number // per-share fill price assumed for this leg, under the recommendation's pricing mode
+  bid: number // quote the leg was priced from
+  ask: number
+  impliedVolatility: number
+  greeks: Greeks
+  liquidity: LegLiquidity
+}
+
+// Net credit per share (negative for a debit) at each pricing mode
+export interface NetPrices {
+  natural: number
+  mid: number
+  fill: number
+}
+
+// Fields every strategy reports, so any multi-leg position can be ranked and displayed
+interface BaseRecommendation {
+  strategy: StrategyId
+  legs: OptionLeg[]
+  expiration: string // nearest leg expiration
+  daysToExpiration: number // calendar days
+  tradingDaysToExpiration: number
+  timeToExpiry: number // years to the expiration close, as used for pricing and probabilities
+  netCredit: number // per share; negative for a net debit
+  maxProfit: number
+  maxLoss: number | null // null when the loss is unbounded
+  breakevens: number[]
+  probOfProfit: number // finishing with a profit at expiration, 0-100
+  probMaxProfit: number // 0-100
+  probMaxLoss: number // 0-100, 0 when the loss is unbounded
+  expectedValue: number // per share, at expiration
+  riskRewardRatio: number // maxProfit / maxLoss, 0 when the loss is unbounded
+  pricing: PricingMode
+  netPrices: NetPrices // net credit under every pricing mode, for comparison
+  netGreeks: Greeks // per share, for the position as held
+  liquidityScore: number // 0-100, the weakest leg's score
+  strikePlacement: StrikePlacement | null // filled in by runStrategies from the expiration's expected move
+  events: MarketEvent[] // high-impact events before the last leg expires, filled in by runStrategies
+  score: ScoreBreakdown | null // ranking model score under the screener's weights, filled in by runStrategies
+}
+
+// Two strikes, one expiration, one option type: credit (bear call, bull put) or debit spreads
+export interface VerticalSpreadRecommendation extends BaseRecommendation {
+  strategy: VerticalStrategyId
+  shortStrike: number
+  longStrike: number
+  width: number // distance between strikes in dollars
+  breakeven: number
+  probTouch: number // trading through the short strike before expiration, 0-100
+  impliedVolatility: number // average of both legs
+}
+
+// A bear call and a bull put on the same expiration, held together
+export interface IronCondorRecommendation extends BaseRecommendation {
+  strategy: 'iron_condor'
+  callSpread: VerticalSpreadRecommendation
+  putSpread: VerticalSpreadRecommendation
+  lowerBreakeven: number
+  upperBreakeven: number
+}
+
+// Naked OTM call and put on the same expiration
+export interface ShortStrangleRecommendation extends BaseRecommendation {
+  strategy: 'short_strangle'
+  callStrike: number
+  putStrike: number
+}
+
+// Short front-month and long back-month option at the same strike
+export interface CalendarRecommendation extends BaseRecommendation {
+  strategy: 'calendar'
+  optionType: 'call' | 'put'
+  strike: number
+  backExpiration: string
+  backDaysToExpiration: number
+}
+
+export type StrategyRecommendation =
+  | VerticalSpreadRecommendation
+  | IronCondorRecommendation
+  | ShortStrangleRecommendation
+  | CalendarRecommendation
+
+// The recommendation type a strategy id builds
+export type RecommendationFor<K extends StrategyId> = K extends VerticalStrategyId
+  ? VerticalSpreadRecommendation
+  : Extract<StrategyRecommendation, { strategy: K }>
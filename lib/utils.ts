@@ -40,3 +40,13 @@ export function getImpactColor(impact: 'high' | 'medium' | 'low'): string {
     case 'low': return 'text-green-600 bg-green-50 border-green-200'
   }
 }
+
+// A JSON object, as opposed to null, an array or a primitive
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+// A filesystem error for a path that doesn't exist
+export function isMissingFile(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && 'code' in error && error.code === 'ENOENT'
+}
@@ -0,0 +1,71 @@
+import { atmImpliedVolatility } from '@/lib/ivHistory'
+import { toChainQuote } from '@/lib/optionChain'
+import { formatExpiration, getDaysToExpiration, getExpirationTiming } from '@/lib/strategies/common'
+import type { OptionChain } from '@/lib/types'
+
+// Implied volatility smiles per expiration and the ATM term structure across them
+
+export interface SmilePoint {
+  strike: number
+  delta: number // signed Black-Scholes delta; negative for puts
+  iv: number // annualized, e.g. 0.45
+}
+
+export interface VolatilitySmile {
+  expiration: string // YYYY-MM-DD, matches recommendation expirations
+  daysToExpiration: number
+  calls: SmilePoint[]
+  puts: SmilePoint[]
+}
+
+export interface TermStructurePoint {
+  expiration: string
+  daysToExpiration: number
+  atmIV: number
+}
+
+export interface VolatilitySurface {
+  symbol: string
+  currentPrice: number
+  smiles: VolatilitySmile[]
+  termStructure: TermStructurePoint[]
+}
+
+export function volatilitySmile(chain: OptionChain, spot: number, riskFreeRate: number): VolatilitySmile {
+  const { daysToExpiration, timeToExpiry } = getExpirationTiming(chain.expirationDate)
+  // Contracts without an IV (no market, or a provider gap) would drag the curve to zero
+  const toPoints = (type: 'call' | 'put') => (type === 'call' ? chain.calls : chain.puts)
+    .filter(contract => contract.impliedVolatility > 0)
+    .map(contract => toChainQuote(contract, type, spot, timeToExpiry, riskFreeRate))
+    .map(quote => ({ strike: quote.strike, delta: quote.delta, iv: quote.impliedVolatility }))
+    .sort((a, b) => a.strike - b.strike)
+
+  return {
+    expiration: formatExpiration(chain.expirationDate),
+    daysToExpiration,
+    calls: toPoints('call'),
+    puts: toPoints('put')
+  }
+}
+
+export function volatilitySurface(symbol: string, chains: OptionChain[], spot: number, riskFreeRate: number): VolatilitySurface {
+  const ordered = chains.slice().sort((a, b) => a.expirationDate - b.expirationDate)
+
+  const termStructure: TermStructurePoint[] = []
+  ordered.forEach(chain => {
+    const atmIV = atmImpliedVolatility(chain, spot)
+    if (atmIV === null) return
+    termStructure.push({
+      expiration: formatExpiration(chain.expirationDate),
+      daysToExpiration: getDaysToExpiration(chain.expirationDate),
+      atmIV
+    })
+  })
+
+  return {
+    symbol,
+    currentPrice: spot,
+    smiles: ordered.map(chain => volatilitySmile(chain, spot, riskFreeRate)),
+    termStructure
+  }
+}
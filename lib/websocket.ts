@@ -1,6 +1,8 @@
 'use client'
 
 import React from 'react'
+import { pollInterval } from '@/lib/marketCalendar'
+import { DEFAULT_SYMBOL } from '@/lib/symbols'
 
 type DataType = 'price' | 'options' | 'news'
 
@@ -21,6 +23,7 @@ class WebSocketManager {
   private reconnectDelay = 1000
   private subscribers: Map<DataType, Set<SubscriptionCallback>> = new Map()
   private isConnecting = false
+  private symbol = DEFAULT_SYMBOL
 
   constructor() {
     // Initialize subscription maps
@@ -46,18 +49,39 @@ class WebSocketManager {
     }
   }
 
+  // Run `task` every `regularMs` during the regular session, backing off outside it; returns a stop function
+  private poll(regularMs: number, task: () => Promise<void>): () => void {
+    let timeout: ReturnType<typeof setTimeout>
+    let stopped = false
+
+    const schedule = () => {
+      timeout = setTimeout(async () => {
+        await task()
+        if (!stopped) schedule()
+      }, pollInterval(regularMs))
+    }
+    schedule()
+
+    return () => {
+      stopped = true
+      clearTimeout(timeout)
+    }
+  }
+
   private simulateWebSocket() {
     // Simulate real-time updates by polling APIs at different intervals
     
     // Price updates every 5 seconds during market hours
-    const priceInterval = setInterval(async () => {
+    const stopPrice = this.poll(5000, async () => {
       if ((this.subscribers.get('price')?.size || 0) > 0) {
         try {
-          const response = await fetch('/api/tsla-options')
+          const response = await fetch(`/api/tsla-options?symbol=${this.symbol}`)
           const result = await response.json()
           if (result.success) {
             this.broadcast('price', {
+              symbol: result.data.symbol,
               price: result.data.currentPrice,
+              isFallback: !!result.provenance?.isFallback,
               timestamp: result.data.lastUpdate
             })
           }
@@ -65,13 +89,13 @@ class WebSocketManager {
           console.error('Price update failed:', error)
         }
       }
-    }, 5000)
+    })
 
     // Options data updates every 30 seconds
-    const optionsInterval = setInterval(async () => {
+    const stopOptions = this.poll(30000, async () => {
       if ((this.subscribers.get('options')?.size || 0) > 0) {
         try {
-          const response = await fetch('/api/tsla-options')
+          const response = await fetch(`/api/tsla-options?symbol=${this.symbol}`)
           const result = await response.json()
           if (result.success) {
             this.broadcast('options', result.data)
@@ -80,13 +104,13 @@ class WebSocketManager {
           console.error('Options update failed:', error)
         }
       }
-    }, 30000)
+    })
 
     // News updates every 2 minutes
-    const newsInterval = setInterval(async () => {
+    const stopNews = this.poll(120000, async () => {
       if ((this.subscribers.get('news')?.size || 0) > 0) {
         try {
-          const response = await fetch('/api/market-news')
+          const response = await fetch(`/api/market-news?symbol=${this.symbol}`)
           const result = await response.json()
           if (result.success) {
             this.broadcast('news', result.data)
@@ -95,15 +119,15 @@ class WebSocketManager {
           console.error('News update failed:', error)
         }
       }
-    }, 120000)
+    })
 
-    // Store interval IDs for cleanup
+    // Store the pollers' stop functions for cleanup
     this.ws = {
       readyState: WebSocket.OPEN,
       close: () => {
-        clearInterval(priceInterval)
-        clearInterval(optionsInterval)
-        clearInterval(newsInterval)
+        stopPrice()
+        stopOptions()
+        stopNews()
       }
     } as WebSocket
 
@@ -125,6 +149,11 @@ class WebSocketManager {
     }
   }
 
+  // Underlying polled for price, options and news updates
+  setSymbol(symbol: string) {
+    this.symbol = symbol
+  }
+
   subscribe(type: DataType, callback: SubscriptionCallback) {
     const subscribers = this.subscribers.get(type)
     if (subscribers) {
@@ -227,4 +256,18 @@ export function useWebSocket<T>(type: DataType): {
   return { data, status }
 }
 
-
+// Call `task` now and then every `regularMs` during the regular session, less often outside it
+export function useMarketPolling(task: () => void, regularMs: number) {
+  React.useEffect(() => {
+    let timeout: ReturnType<typeof setTimeout>
+    const schedule = () => {
+      timeout = setTimeout(() => {
+        task()
+        schedule()
+      }, pollInterval(regularMs))
+    }
+    task()
+    schedule()
+    return () => clearTimeout(timeout)
+  }, [task, regularMs])
+}
@@ -2,6 +2,8 @@
 const nextConfig = {
   experimental: {
     // appDir is now stable in Next.js 14
+    // Starts the chain snapshot recorder (see instrumentation.ts)
+    instrumentationHook: true,
   },
   images: {
     domains: ['images.unsplash.com'],